@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { hyprlandTracker, selectWindowTracker, swayTracker, xdotoolTracker } from './activeApp'
+import type { CommandRunner } from './commands'
+
+// Answers each command line from a table; anything else fails like a missing window would
+function scriptedRunner(outputs: Record<string, string>) {
+  const calls: string[] = []
+  const answer = (command: string, args: string[]) => {
+    const line = [command, ...args].join(' ')
+    calls.push(line)
+    if (!(line in outputs)) throw new Error(`unexpected: ${line}`)
+    return outputs[line]
+  }
+  const runner: CommandRunner = {
+    run: async (command, args) => answer(command, args),
+    runSync: answer
+  }
+  return { runner, calls }
+}
+
+const SWAY_TREE = JSON.stringify({
+  id: 1,
+  nodes: [{
+    id: 2,
+    nodes: [
+      { id: 10, focused: false, app_id: 'foot' },
+      { id: 11, nodes: [], floating_nodes: [{ id: 12, focused: true, app_id: null, window_properties: { class: 'Gimp' } }] }
+    ]
+  }]
+})
+
+describe('window trackers', () => {
+  it('names the X11 window by its process, falling back to WM_CLASS', () => {
+    const { runner } = scriptedRunner({
+      'xdotool getactivewindow': '4194312',
+      'xdotool getwindowpid 4194312': '1234'
+    })
+    expect(xdotoolTracker(runner, () => 'firefox').activeWindow()).toEqual({ id: '4194312', app: 'firefox' })
+
+    const { runner: withoutPid } = scriptedRunner({
+      'xdotool getactivewindow': '4194312',
+      'xprop -id 4194312 WM_CLASS': 'WM_CLASS(STRING) = "Navigator", "firefox-esr"'
+    })
+    expect(xdotoolTracker(withoutPid).activeWindow()).toEqual({ id: '4194312', app: 'firefox-esr' })
+  })
+
+  it('finds the focused sway container, floating ones included, and focuses it by id', async () => {
+    const { runner, calls } = scriptedRunner({ 'swaymsg -t get_tree -r': SWAY_TREE, 'swaymsg [con_id=12] focus': '' })
+    const tracker = swayTracker(runner)
+    expect(tracker.activeWindow()).toEqual({ id: '12', app: 'Gimp' })
+    await tracker.focus!('12')
+    expect(calls.at(-1)).toBe('swaymsg [con_id=12] focus')
+    await expect(tracker.focus!('12] exec rm -rf ~ [')).rejects.toThrow('Invalid')
+  })
+
+  it('reads the Hyprland window and treats the no-window message as nothing focused', async () => {
+    const { runner } = scriptedRunner({
+      'hyprctl activewindow -j': '{"address": "0x5612a0c8e0f0", "class": "kitty", "pid": 4242}',
+      'hyprctl dispatch focuswindow address:0x5612a0c8e0f0': 'ok'
+    })
+    const tracker = hyprlandTracker(runner)
+    expect(tracker.activeWindow()).toEqual({ id: '0x5612a0c8e0f0', app: 'kitty' })
+    await expect(tracker.focus!('0x5612a0c8e0f0')).resolves.toBeUndefined()
+
+    expect(hyprlandTracker(scriptedRunner({ 'hyprctl activewindow -j': 'Invalid' }).runner).activeWindow()).toBeNull()
+  })
+
+  it('picks a tracker for the session', () => {
+    const pick = (env: NodeJS.ProcessEnv, installed: string[]) =>
+      selectWindowTracker({ env, hasCommand: name => installed.includes(name) })?.name ?? null
+
+    expect(pick({ DISPLAY: ':0' }, ['xdotool', 'xprop'])).toBe('xdotool')
+    expect(pick({ DISPLAY: ':0' }, ['xprop'])).toBe('xprop')
+    expect(pick({ WAYLAND_DISPLAY: 'wayland-1', SWAYSOCK: '/run/sway.sock' }, ['swaymsg', 'xdotool'])).toBe('sway')
+    expect(pick({ WAYLAND_DISPLAY: 'wayland-1', HYPRLAND_INSTANCE_SIGNATURE: 'abc' }, ['hyprctl'])).toBe('hyprland')
+    // XWayland windows alone would misreport native ones
+    expect(pick({ WAYLAND_DISPLAY: 'wayland-0', DISPLAY: ':0' }, ['xdotool'])).toBeNull()
+  })
+})
@@ -0,0 +1,195 @@
+import { readFileSync } from 'fs'
+import { findExecutable, systemRunner, type CommandRunner } from './commands'
+
+const WINDOWS_FOREGROUND_SCRIPT = `
+Add-Type @"
+using System;
+using System.Runtime.InteropServices;
+public static class Foreground {
+  [DllImport("user32.dll")] public static extern IntPtr GetForegroundWindow();
+  [DllImport("user32.dll")] public static extern uint GetWindowThreadProcessId(IntPtr hWnd, out uint processId);
+}
+"@
+$processId = 0
+[void][Foreground]::GetWindowThreadProcessId([Foreground]::GetForegroundWindow(), [ref]$processId)
+(Get-Process -Id $processId).ProcessName
+`
+
+// The focused window on Linux, as one of the trackers below sees it
+export interface ActiveWindow {
+  // Handle the same tracker can focus again later
+  id: string
+  // Name of the owning application, or null when the window does not say
+  app: string | null
+}
+
+// Follows the focused window through whatever the session offers. X11 has one protocol for every
+// window manager; Wayland deliberately has none, so each compositor needs its own tool.
+export interface WindowTracker {
+  name: string
+  // Programs that must be installed
+  commands: string[]
+  activeWindow(): ActiveWindow | null
+  // Missing when the tool can only observe focus, not move it
+  focus?: (id: string) => Promise<void>
+}
+
+export const isWaylandSession = (env: NodeJS.ProcessEnv) => !!env.WAYLAND_DISPLAY || env.XDG_SESSION_TYPE === 'wayland'
+
+const readProcessName = (pid: number) => readFileSync(`/proc/${pid}/comm`, 'utf8').trim() || null
+
+// WM_CLASS(STRING) = "instance", "Class"
+function wmClass(runner: CommandRunner, id: string): string | null {
+  const names = Array.from(runner.runSync('xprop', ['-id', id, 'WM_CLASS']).matchAll(/"([^"]*)"/g), match => match[1])
+  return names[names.length - 1] || null
+}
+
+// Prefers the process name of the active window and falls back to its WM_CLASS
+export function xdotoolTracker(runner: CommandRunner, processName = readProcessName): WindowTracker {
+  return {
+    name: 'xdotool',
+    commands: ['xdotool'],
+    activeWindow: () => {
+      let id: string
+      try {
+        id = runner.runSync('xdotool', ['getactivewindow'])
+      } catch {
+        return null
+      }
+      if (!/^\d+$/.test(id)) return null
+      try {
+        const pid = runner.runSync('xdotool', ['getwindowpid', id])
+        if (/^\d+$/.test(pid)) {
+          return { id, app: processName(Number(pid)) }
+        }
+      } catch {
+        // The window has no _NET_WM_PID
+      }
+      try {
+        return { id, app: wmClass(runner, id) }
+      } catch {
+        return { id, app: null }
+      }
+    },
+    focus: async id => {
+      await runner.run('xdotool', ['windowactivate', '--sync', id])
+    }
+  }
+}
+
+// Only reads the active window, for X sessions without xdotool
+export function xpropTracker(runner: CommandRunner): WindowTracker {
+  return {
+    name: 'xprop',
+    commands: ['xprop'],
+    activeWindow: () => {
+      try {
+        const id = runner.runSync('xprop', ['-root', '_NET_ACTIVE_WINDOW']).match(/0x[0-9a-f]+/i)?.[0]
+        if (!id || /^0x0+$/.test(id)) return null
+        return { id, app: wmClass(runner, id) }
+      } catch {
+        return null
+      }
+    }
+  }
+}
+
+interface SwayNode {
+  id: number
+  focused?: boolean
+  app_id?: string | null
+  window_properties?: { class?: string }
+  nodes?: SwayNode[]
+  floating_nodes?: SwayNode[]
+}
+
+function findFocusedNode(node: SwayNode): SwayNode | null {
+  if (node.focused) return node
+  for (const child of [...node.nodes ?? [], ...node.floating_nodes ?? []]) {
+    const found = findFocusedNode(child)
+    if (found) return found
+  }
+  return null
+}
+
+// Native Wayland apps report an app_id; XWayland ones only their X11 class
+export function swayTracker(runner: CommandRunner): WindowTracker {
+  return {
+    name: 'sway',
+    commands: ['swaymsg'],
+    activeWindow: () => {
+      try {
+        const node = findFocusedNode(JSON.parse(runner.runSync('swaymsg', ['-t', 'get_tree', '-r'])))
+        // A focused workspace or output has no app, and is not worth returning to
+        const app = node?.app_id ?? node?.window_properties?.class ?? null
+        return node && app ? { id: String(node.id), app } : null
+      } catch {
+        return null
+      }
+    },
+    // The id ends up inside a sway criteria string, so only digits may reach it
+    focus: async id => {
+      if (!/^\d+$/.test(id)) throw new Error(`Invalid sway container id: ${id}`)
+      await runner.run('swaymsg', [`[con_id=${id}]`, 'focus'])
+    }
+  }
+}
+
+export function hyprlandTracker(runner: CommandRunner): WindowTracker {
+  return {
+    name: 'hyprland',
+    commands: ['hyprctl'],
+    activeWindow: () => {
+      try {
+        const window = JSON.parse(runner.runSync('hyprctl', ['activewindow', '-j'])) as { address?: string, class?: string }
+        return window.address ? { id: window.address, app: window.class || null } : null
+      } catch {
+        // hyprctl prints plain text instead of JSON when nothing is focused
+        return null
+      }
+    },
+    focus: async id => {
+      if (!/^0x[0-9a-f]+$/i.test(id)) throw new Error(`Invalid Hyprland window address: ${id}`)
+      await runner.run('hyprctl', ['dispatch', 'focuswindow', `address:${id}`])
+    }
+  }
+}
+
+export interface WindowTrackerOptions {
+  env?: NodeJS.ProcessEnv
+  runner?: CommandRunner
+  hasCommand?: (name: string) => boolean
+}
+
+// Picks the first tracker for the session whose tools are installed. Under Wayland the X11 tools
+// only see XWayland windows, which would name the wrong app whenever a native one is focused,
+// so GNOME and KDE sessions get no tracker at all.
+export function selectWindowTracker(options: WindowTrackerOptions = {}): WindowTracker | null {
+  const env = options.env ?? process.env
+  const runner = options.runner ?? systemRunner
+  const hasCommand = options.hasCommand ?? (name => findExecutable(name, env))
+  const candidates = !isWaylandSession(env)
+    ? [xdotoolTracker(runner), xpropTracker(runner)]
+    : env.HYPRLAND_INSTANCE_SIGNATURE
+      ? [hyprlandTracker(runner)]
+      : env.SWAYSOCK
+        ? [swayTracker(runner)]
+        : []
+  return candidates.find(candidate => candidate.commands.every(hasCommand)) ?? null
+}
+
+// Name of the application that owns the focused window, or null when it cannot be determined.
+// Linux goes through `tracker`, which main.ts shares with the paste driver.
+export function getFrontmostApp(tracker: WindowTracker | null = null): string | null {
+  try {
+    if (process.platform === 'darwin') {
+      return systemRunner.runSync('osascript', ['-e', 'tell application "System Events" to return name of first application process whose frontmost is true']) || null
+    }
+    if (process.platform === 'win32') {
+      return systemRunner.runSync('powershell', ['-NoProfile', '-NonInteractive', '-Command', WINDOWS_FOREGROUND_SCRIPT]) || null
+    }
+    return tracker?.activeWindow()?.app ?? null
+  } catch {
+    return null
+  }
+}
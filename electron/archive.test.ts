@@ -0,0 +1,117 @@
+import { gzipSync } from 'zlib'
+import { describe, expect, it } from 'vitest'
+import { ArchiveError, buildArchive, planImport, type PayloadReader } from './archive'
+import { hashContent } from './blobStore'
+import { createTar, readTar } from './tar'
+import type { ClipboardItem, Collection } from './types'
+
+const PNG = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex')
+const NOTES: Collection = { id: 'c1', name: 'Notes', createdAt: 1 }
+
+const item = (id: string, content: string, extra: Partial<ClipboardItem> = {}): ClipboardItem => ({
+  id,
+  content,
+  type: 'text',
+  timestamp: Number(id),
+  contentHash: hashContent(content),
+  ...extra
+})
+
+// Payloads live on the items themselves here; the manager reads them from its blob store
+const reader: PayloadReader = {
+  readText: entry => entry.content,
+  readPlainText: entry => entry.content,
+  readAlternates: entry => ({ text: `plain ${entry.content}` }),
+  readImage: () => PNG
+}
+
+const archiveOf = (entries: { name: string, data: string | Buffer }[]) =>
+  gzipSync(createTar(entries.map(({ name, data }) => ({ name, data: Buffer.from(data) }))))
+
+const manifest = (items: unknown[], extra: object = {}) =>
+  JSON.stringify({ format: 'clipboard-manager-archive', version: 1, exportedAt: 5, collections: [], items, ...extra })
+
+describe('tar', () => {
+  it('reads back what it wrote, whatever the entry sizes', () => {
+    const entries = [
+      { name: 'manifest.json', data: Buffer.from('{}') },
+      { name: 'images/empty.png', data: Buffer.alloc(0) },
+      { name: 'images/block.png', data: Buffer.alloc(512, 7) },
+      { name: 'images/large.png', data: Buffer.alloc(1300, 9) }
+    ]
+    expect(readTar(createTar(entries))).toEqual(entries)
+  })
+
+  it('rejects damaged headers and entries cut short', () => {
+    const tar = createTar([{ name: 'manifest.json', data: Buffer.alloc(1000, 1) }])
+    const damaged = Buffer.from(tar)
+    damaged[0] ^= 0xff
+    expect(() => readTar(damaged)).toThrow('checksum')
+    expect(() => readTar(tar.subarray(0, 800))).toThrow('truncated: manifest.json')
+  })
+})
+
+describe('buildArchive and planImport', () => {
+  it('round-trips items, their payloads, pins and collections', () => {
+    const items = [
+      item('1', 'hello', { sourceApp: 'Notes' }),
+      item('2', '<b>bold</b>', { type: 'html', alternates: { text: 'x' } }),
+      item('3', '', { type: 'image', contentHash: hashContent(PNG) }),
+      item('4', 'Hi {{input:Name}}', { pinned: true, collectionId: 'c1', title: 'Greeting', template: true }),
+      item('5', '4111 1111 1111 1111', { sensitive: 'Credit card number', preview: 'Credit card number: •••• 1111' })
+    ]
+    const { candidates, preview } = planImport(buildArchive(items, [NOTES], reader, 5), '/tmp/history.tar.gz', [], [])
+
+    expect(candidates).toEqual([
+      expect.objectContaining({ type: 'text', text: 'hello', sourceApp: 'Notes', preview: 'hello', pinned: false }),
+      expect.objectContaining({ type: 'html', text: '<b>bold</b>', alternates: { text: 'plain <b>bold</b>' }, preview: 'plain <b>bold</b>' }),
+      expect.objectContaining({ type: 'image', image: PNG, contentHash: hashContent(PNG), preview: 'Image' }),
+      expect.objectContaining({ text: 'Hi {{input:Name}}', pinned: true, collectionName: 'Notes', title: 'Greeting', template: true }),
+      expect.objectContaining({ text: '4111 1111 1111 1111', sensitive: 'Credit card number', preview: 'Credit card number: •••• 1111' })
+    ])
+    expect(candidates.map(candidate => candidate.timestamp)).toEqual([1, 2, 3, 4, 5])
+    expect(preview).toMatchObject({
+      fileName: 'history.tar.gz',
+      exportedAt: 5,
+      total: 5,
+      duplicates: 0,
+      added: { text: 3, html: 1, image: 1, rtf: 0, url: 0, files: 0 },
+      pinned: 1,
+      newCollections: ['Notes']
+    })
+  })
+
+  it('skips items the library already has, matched on type and content hash', () => {
+    const archive = buildArchive([
+      item('1', 'kept'),
+      item('2', 'https://example.com', { type: 'url' }),
+      item('3', 'new'),
+      item('4', 'new')
+    ], [], reader)
+    const existing = [item('10', 'kept'), item('11', 'https://example.com')]
+
+    const { candidates, preview } = planImport(archive, 'history.tar.gz', existing, [])
+    // The same text as a URL is a different item; the archive's own repeat counts as a duplicate
+    expect(candidates.map(candidate => [candidate.type, candidate.text])).toEqual([['url', 'https://example.com'], ['text', 'new']])
+    expect(preview.duplicates).toBe(2)
+  })
+
+  it('reads plain tars as well as gzipped ones', () => {
+    const tar = createTar([{ name: 'manifest.json', data: Buffer.from(manifest([{ type: 'text', timestamp: 1, content: 'a' }])) }])
+    expect(planImport(tar, 'history.tar', [], []).candidates).toHaveLength(1)
+  })
+
+  it.each([
+    ['garbage', Buffer.from('not an archive at all'.repeat(40)), 'The archive could not be read'],
+    ['a truncated download', buildArchive([item('1', 'a')], [], reader).subarray(0, 40), 'The archive could not be read'],
+    ['no manifest', archiveOf([{ name: 'other.json', data: '{}' }]), 'The archive has no manifest'],
+    ['a broken manifest', archiveOf([{ name: 'manifest.json', data: '{"format":' }]), 'not valid JSON'],
+    ['another format', archiveOf([{ name: 'manifest.json', data: '{"format":"zip"}' }]), 'not a clipboard history archive'],
+    ['a newer version', archiveOf([{ name: 'manifest.json', data: manifest([], { version: 2 }) }]), 'newer version'],
+    ['an unknown item type', archiveOf([{ name: 'manifest.json', data: manifest([{ type: 'video', timestamp: 1 }]) }]), 'invalid item'],
+    ['a missing image', archiveOf([{ name: 'manifest.json', data: manifest([{ type: 'image', timestamp: 1, file: 'images/x.png' }]) }]), 'missing the content']
+  ])('rejects %s with an ArchiveError', (_, archive, message) => {
+    expect(() => planImport(archive, 'history.tar.gz', [], [])).toThrow(ArchiveError)
+    expect(() => planImport(archive, 'history.tar.gz', [], [])).toThrow(message)
+  })
+})
@@ -0,0 +1,274 @@
+import { basename } from 'path'
+import { gunzipSync, gzipSync } from 'zlib'
+import { hashContent } from './blobStore'
+import { stripHtml } from './html'
+import { createTar, readTar, type TarEntry } from './tar'
+import type { ClipboardItem, Collection, ExportFilter, ImportPreview, Representation } from './types'
+
+// Archives are gzipped tarballs holding manifest.json plus one file per image
+export const ARCHIVE_VERSION = 1
+const ARCHIVE_FORMAT = 'clipboard-manager-archive'
+const MANIFEST_NAME = 'manifest.json'
+const SAMPLE_COUNT = 5
+const ITEM_TYPES: ClipboardItem['type'][] = ['text', 'html', 'rtf', 'url', 'files', 'image']
+
+interface ArchiveItem {
+  type: ClipboardItem['type']
+  timestamp: number
+  pinned?: boolean
+  collectionId?: string
+  sourceApp?: string
+  sensitive?: string
+  // Masked preview, only kept for sensitive items
+  preview?: string
+  title?: string
+  // Snippet whose {{placeholders}} are filled in when it is pasted
+  template?: boolean
+  // Primary payload of every item except images
+  content?: string
+  // Other representations of the same copy, inline
+  alternates?: Partial<Record<Representation, string>>
+  // Path of the image file inside the archive
+  file?: string
+}
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: number
+  collections: Collection[]
+  items: ArchiveItem[]
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ArchiveError'
+  }
+}
+
+// Payloads are read through the caller, which owns the blob store and its encryption
+export interface PayloadReader {
+  readText(item: ClipboardItem): string
+  readPlainText(item: ClipboardItem): string
+  readAlternates(item: ClipboardItem): Partial<Record<Representation, string>>
+  readImage(item: ClipboardItem): Buffer
+}
+
+// An item from an archive that is not in the library yet
+export interface ImportCandidate {
+  type: ClipboardItem['type']
+  timestamp: number
+  contentHash: string
+  preview: string
+  pinned: boolean
+  collectionName?: string
+  sourceApp?: string
+  sensitive?: string
+  title?: string
+  template?: boolean
+  text?: string
+  alternates?: Partial<Record<Representation, string>>
+  image?: Buffer
+}
+
+export interface ImportPlan {
+  preview: ImportPreview
+  candidates: ImportCandidate[]
+}
+
+export function filterItems(items: ClipboardItem[], filter: ExportFilter = {}): ClipboardItem[] {
+  return items.filter(item =>
+    (!filter.types || filter.types.length === 0 || filter.types.includes(item.type)) &&
+    (filter.since === undefined || item.timestamp >= filter.since) &&
+    (filter.until === undefined || item.timestamp <= filter.until) &&
+    (filter.pinned !== 'only' || item.pinned) &&
+    (filter.pinned !== 'exclude' || !item.pinned) &&
+    (filter.includeSensitive || !item.sensitive)
+  )
+}
+
+export function buildArchive(items: ClipboardItem[], collections: Collection[], reader: PayloadReader, exportedAt = Date.now()): Buffer {
+  const files = new Map<string, Buffer>()
+  const archiveItems = items.map((item): ArchiveItem => {
+    const entry: ArchiveItem = {
+      type: item.type,
+      timestamp: item.timestamp,
+      pinned: item.pinned,
+      collectionId: item.collectionId,
+      sourceApp: item.sourceApp,
+      sensitive: item.sensitive,
+      preview: item.sensitive ? item.preview : undefined,
+      title: item.title,
+      template: item.template
+    }
+    if (item.type === 'image') {
+      const image = reader.readImage(item)
+      // Images are named by content hash, so the same image is stored once
+      entry.file = `images/${hashContent(image)}.png`
+      files.set(entry.file, image)
+    } else {
+      entry.content = reader.readText(item)
+      if (item.alternates) {
+        entry.alternates = reader.readAlternates(item)
+      }
+    }
+    return entry
+  })
+
+  const usedCollections = new Set(items.map(item => item.collectionId).filter(Boolean))
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt,
+    collections: collections.filter(collection => usedCollections.has(collection.id)),
+    items: archiveItems
+  }
+
+  return gzipSync(createTar([
+    { name: MANIFEST_NAME, data: Buffer.from(JSON.stringify(manifest, null, 2)) },
+    ...Array.from(files, ([name, data]) => ({ name, data }))
+  ], exportedAt))
+}
+
+function parseManifest(data: Buffer | undefined): ArchiveManifest {
+  if (!data) {
+    throw new ArchiveError('The archive has no manifest')
+  }
+  let manifest: ArchiveManifest
+  try {
+    manifest = JSON.parse(data.toString('utf8'))
+  } catch {
+    throw new ArchiveError('The archive manifest is not valid JSON')
+  }
+  if (manifest?.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.items)) {
+    throw new ArchiveError('This file is not a clipboard history archive')
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveError('The archive was created by a newer version of Clipboard Manager')
+  }
+  return { ...manifest, collections: Array.isArray(manifest.collections) ? manifest.collections : [] }
+}
+
+function previewFor(entry: ArchiveItem): string {
+  if (entry.sensitive && entry.preview) return entry.preview
+  if (entry.type === 'image') return 'Image'
+  if (entry.type === 'url' && entry.title) return `${entry.title} — ${entry.content}`
+  const text = entry.alternates?.text ?? entry.content ?? ''
+  return (entry.type === 'html' && !entry.alternates?.text ? stripHtml(text) : text).substring(0, 100)
+}
+
+// Reads an archive and works out which of its items are new to the library.
+// Items are matched on content hash, both against the library and within the archive.
+export function planImport(archive: Buffer, filePath: string, existing: ClipboardItem[], collections: Collection[]): ImportPlan {
+  let entries: TarEntry[]
+  try {
+    entries = readTar(archive[0] === 0x1f && archive[1] === 0x8b ? gunzipSync(archive) : archive)
+  } catch (error) {
+    throw new ArchiveError(`The archive could not be read: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  const files = new Map(entries.map(entry => [entry.name, entry.data]))
+  const manifest = parseManifest(files.get(MANIFEST_NAME))
+
+  const known = new Set(existing.map(item => `${item.type}:${item.contentHash}`))
+  const collectionNames = new Map(manifest.collections.map(collection => [collection.id, collection.name]))
+  const candidates: ImportCandidate[] = []
+  let duplicates = 0
+
+  for (const entry of manifest.items) {
+    if (!ITEM_TYPES.includes(entry.type) || typeof entry.timestamp !== 'number') {
+      throw new ArchiveError('The archive contains an invalid item')
+    }
+    const image = entry.type === 'image' ? files.get(entry.file ?? '') : undefined
+    if (entry.type === 'image' ? !image : typeof entry.content !== 'string') {
+      throw new ArchiveError(`The archive is missing the content of an item from ${new Date(entry.timestamp).toLocaleString()}`)
+    }
+
+    const contentHash = hashContent(image ?? entry.content!)
+    const key = `${entry.type}:${contentHash}`
+    if (known.has(key)) {
+      duplicates++
+      continue
+    }
+    known.add(key)
+
+    candidates.push({
+      type: entry.type,
+      timestamp: entry.timestamp,
+      contentHash,
+      preview: previewFor(entry),
+      pinned: !!entry.pinned,
+      collectionName: entry.pinned && entry.collectionId ? collectionNames.get(entry.collectionId) : undefined,
+      sourceApp: entry.sourceApp,
+      sensitive: entry.sensitive,
+      title: entry.title,
+      template: entry.type === 'text' && entry.template === true,
+      text: entry.content,
+      alternates: entry.alternates,
+      image
+    })
+  }
+
+  const existingNames = new Set(collections.map(collection => collection.name.toLowerCase()))
+  const newCollections = Array.from(new Set(
+    candidates.map(candidate => candidate.collectionName).filter((name): name is string => !!name && !existingNames.has(name.toLowerCase()))
+  ))
+
+  return {
+    candidates,
+    preview: {
+      fileName: basename(filePath),
+      exportedAt: manifest.exportedAt,
+      total: manifest.items.length,
+      duplicates,
+      added: Object.fromEntries(
+        ITEM_TYPES.map(type => [type, candidates.filter(candidate => candidate.type === type).length])
+      ) as Record<ClipboardItem['type'], number>,
+      pinned: candidates.filter(candidate => candidate.pinned).length,
+      newCollections,
+      samples: candidates.slice(0, SAMPLE_COUNT).map(candidate => ({ type: candidate.type, preview: candidate.preview }))
+    }
+  }
+}
+
+interface TextRow {
+  timestamp: string
+  type: ClipboardItem['type']
+  pinned: boolean
+  collection: string
+  sourceApp: string
+  text: string
+}
+
+// Everything but images as flat rows for scripting; rich formats are reduced to their plain text
+function textRows(items: ClipboardItem[], collections: Collection[], reader: PayloadReader): TextRow[] {
+  const names = new Map(collections.map(collection => [collection.id, collection.name]))
+  return items
+    .filter(item => item.type !== 'image')
+    .map(item => ({
+      timestamp: new Date(item.timestamp).toISOString(),
+      type: item.type,
+      pinned: !!item.pinned,
+      collection: (item.collectionId && names.get(item.collectionId)) || '',
+      sourceApp: item.sourceApp ?? '',
+      text: reader.readPlainText(item)
+    }))
+}
+
+export function exportTextJson(items: ClipboardItem[], collections: Collection[], reader: PayloadReader): string {
+  return JSON.stringify(textRows(items, collections, reader), null, 2)
+}
+
+function csvField(value: string | boolean): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function exportTextCsv(items: ClipboardItem[], collections: Collection[], reader: PayloadReader): string {
+  const columns: (keyof TextRow)[] = ['timestamp', 'type', 'pinned', 'collection', 'sourceApp', 'text']
+  const lines = [
+    columns.join(','),
+    ...textRows(items, collections, reader).map(row => columns.map(column => csvField(row[column])).join(','))
+  ]
+  return lines.join('\r\n') + '\r\n'
+}
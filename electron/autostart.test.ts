@@ -0,0 +1,47 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createDesktopAutostart, quoteExecArgument } from './autostart'
+
+describe('quoteExecArgument', () => {
+  it('leaves plain arguments alone', () => {
+    expect(quoteExecArgument('/opt/Clipboard/clipboard-manager')).toBe('/opt/Clipboard/clipboard-manager')
+  })
+
+  it('quotes and escapes reserved characters', () => {
+    expect(quoteExecArgument('/home/me/My Apps/clip')).toBe('"/home/me/My Apps/clip"')
+    expect(quoteExecArgument('/tmp/$HOME')).toBe('"/tmp/\\\\$HOME"')
+    expect(quoteExecArgument('/tmp/a\\b')).toBe('"/tmp/a\\\\\\\\b"')
+    expect(quoteExecArgument('100%')).toBe('100%%')
+    expect(quoteExecArgument('')).toBe('""')
+  })
+})
+
+describe('createDesktopAutostart', () => {
+  let configHome = ''
+
+  afterEach(() => {
+    rmSync(configHome, { recursive: true, force: true })
+  })
+
+  it('writes and removes the autostart entry under XDG_CONFIG_HOME', () => {
+    configHome = mkdtempSync(join(tmpdir(), 'autostart-'))
+    const autostart = createDesktopAutostart({
+      name: 'Clipboard Manager',
+      command: ['/home/me/Apps/Clipboard Manager.AppImage'],
+      env: { XDG_CONFIG_HOME: configHome }
+    })
+    expect(autostart.isEnabled()).toBe(false)
+
+    autostart.setEnabled(true)
+    expect(autostart.isEnabled()).toBe(true)
+    const entry = readFileSync(join(configHome, 'autostart', 'clipboard-manager.desktop'), 'utf8')
+    expect(entry).toContain('[Desktop Entry]\nType=Application\nName=Clipboard Manager\n')
+    expect(entry).toContain('Exec="/home/me/Apps/Clipboard Manager.AppImage"\n')
+
+    autostart.setEnabled(false)
+    expect(autostart.isEnabled()).toBe(false)
+    autostart.setEnabled(false)
+  })
+})
@@ -0,0 +1,58 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { join } from 'path'
+import type { AutostartDriver } from './drivers'
+
+const DESKTOP_FILE_NAME = 'clipboard-manager.desktop'
+
+// Characters the Desktop Entry spec reserves in Exec arguments
+const RESERVED_EXEC_CHARACTERS = /[\s"'\\><~|&;$*?#()`]/
+
+// Quotes one Exec argument. Inside quotes, `"`, `` ` ``, `$` and `\` are backslash-escaped, and
+// the whole value then goes through the string escaping every desktop file value gets, which
+// doubles each backslash again. A literal `%` would start a field code.
+export function quoteExecArgument(argument: string): string {
+  const escaped = argument.replace(/%/g, '%%')
+  if (escaped && !RESERVED_EXEC_CHARACTERS.test(escaped)) {
+    return escaped
+  }
+  return `"${escaped.replace(/["`$\\]/g, '\\$&')}"`.replace(/\\/g, '\\\\')
+}
+
+export function desktopEntry(name: string, command: string[]): string {
+  return [
+    '[Desktop Entry]',
+    'Type=Application',
+    `Name=${name.replace(/[\r\n]/g, ' ')}`,
+    `Exec=${command.map(quoteExecArgument).join(' ')}`,
+    'Terminal=false',
+    'NoDisplay=true',
+    'X-GNOME-Autostart-enabled=true',
+    ''
+  ].join('\n')
+}
+
+export interface DesktopAutostartOptions {
+  name: string
+  // The program and its arguments, as the session should run them at login
+  command: string[]
+  env?: NodeJS.ProcessEnv
+}
+
+// Freedesktop autostart: the session starts every entry in ~/.config/autostart at login
+export function createDesktopAutostart(options: DesktopAutostartOptions): AutostartDriver {
+  const env = options.env ?? process.env
+  const dir = join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'autostart')
+  const file = join(dir, DESKTOP_FILE_NAME)
+  return {
+    isEnabled: () => existsSync(file),
+    setEnabled: enabled => {
+      if (enabled) {
+        mkdirSync(dir, { recursive: true })
+        writeFileSync(file, desktopEntry(options.name, options.command))
+      } else {
+        rmSync(file, { force: true })
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from 'fs'
+import { basename, dirname, join } from 'path'
+import { createHash } from 'crypto'
+import { isEncryptedBlob, type BlobCipher } from './vault'
+
+export function hashContent(data: Buffer | string): string {
+  return createHash('md5').update(data).digest('hex')
+}
+
+// Content-addressed storage for payloads that are too large to live in the history JSON.
+// Blobs are keyed by the hash of their content, so writing the same payload twice is a no-op.
+// Plain files are named by that hash; encrypted ones by the cipher's keyed name for it.
+export class BlobStore {
+  private readonly dir: string
+  private cipher: BlobCipher | null = null
+
+  constructor(dir: string) {
+    this.dir = dir
+    mkdirSync(dir, { recursive: true })
+  }
+
+  private pathFor(hash: string, cipher: BlobCipher | null = this.cipher) {
+    if (!/^[a-f0-9]+$/.test(hash)) {
+      throw new Error(`Invalid blob id: ${hash}`)
+    }
+    const name = cipher ? cipher.nameFor(hash) : hash
+    return join(this.dir, name.slice(0, 2), name)
+  }
+
+  // Blobs are read, written and named with the cipher after this call; pass null for plain files.
+  // Switching ciphers on a store that holds blobs needs rewriteAll.
+  setCipher(cipher: BlobCipher | null) {
+    this.cipher = cipher
+  }
+
+  private encode(data: Buffer | string): Buffer | string {
+    return this.cipher ? this.cipher.encrypt(Buffer.from(data)) : data
+  }
+
+  private decode(raw: Buffer, cipher: BlobCipher | null = this.cipher): Buffer {
+    if (!isEncryptedBlob(raw)) return raw
+    if (!cipher) {
+      throw new Error('Blob is encrypted but no key is available')
+    }
+    return cipher.decrypt(raw)
+  }
+
+  has(hash: string): boolean {
+    return existsSync(this.pathFor(hash))
+  }
+
+  put(hash: string, data: Buffer | string) {
+    const path = this.pathFor(hash)
+    if (existsSync(path)) return
+    mkdirSync(dirname(path), { recursive: true })
+    writeFileSync(path, this.encode(data))
+  }
+
+  read(hash: string): Buffer | null {
+    let raw: Buffer
+    try {
+      raw = readFileSync(this.pathFor(hash))
+    } catch {
+      return null
+    }
+    return this.decode(raw)
+  }
+
+  delete(hash: string) {
+    rmSync(this.pathFor(hash), { force: true })
+  }
+
+  // Re-encodes and renames the given blobs for the current cipher; `previous` reads them as they
+  // were written before the switch. Anything else is dropped, since its name cannot be mapped back.
+  rewriteAll(previous: BlobCipher | null, ids: Set<string>) {
+    const written = new Set<string>()
+    for (const hash of ids) {
+      const from = this.pathFor(hash, previous)
+      if (!existsSync(from)) continue
+      const to = this.pathFor(hash)
+      mkdirSync(dirname(to), { recursive: true })
+      writeFileSync(`${to}.tmp`, this.encode(this.decode(readFileSync(from), previous)))
+      renameSync(`${to}.tmp`, to)
+      if (from !== to) rmSync(from, { force: true })
+      written.add(to)
+    }
+    for (const path of this.listPaths()) {
+      if (!written.has(path)) rmSync(path, { force: true })
+    }
+  }
+
+  private listPaths(): string[] {
+    const paths: string[] = []
+    for (const bucket of readdirSync(this.dir, { withFileTypes: true })) {
+      if (!bucket.isDirectory()) continue
+      for (const hash of readdirSync(join(this.dir, bucket.name))) {
+        paths.push(join(this.dir, bucket.name, hash))
+      }
+    }
+    return paths
+  }
+
+  // Bytes on disk, after encryption
+  totalSize(): number {
+    return this.listPaths().reduce((sum, path) => sum + statSync(path).size, 0)
+  }
+
+  // Removes every blob that is not in the referenced set
+  prune(referenced: Set<string>) {
+    const names = new Set(Array.from(referenced, hash => basename(this.pathFor(hash))))
+    for (const path of this.listPaths()) {
+      if (!names.has(basename(path))) {
+        rmSync(path, { force: true })
+      }
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { runClip, UsageError, type ClipIO } from './cli'
+import type { ClipboardItem } from './types'
+
+const item = (id: string, content: string, type: ClipboardItem['type'] = 'text'): ClipboardItem =>
+  ({ id, content, type, timestamp: Number(id), preview: content })
+
+const HISTORY = [item('1700000000003', 'third\nline'), item('1700000000002', 'https://example.com', 'url'), item('1700000000001', 'first')]
+const PINNED = [item('1600000000000', 'pinned')]
+
+function fakeIO(stdin: string | null = null) {
+  const calls: unknown[][] = []
+  let output = ''
+  const io: ClipIO = {
+    call: async <T,>(method: string, ...params: unknown[]) => {
+      calls.push([method, ...params])
+      switch (method) {
+        case 'get-clipboard-history': return HISTORY as T
+        case 'get-pinned-items': return { items: PINNED, collections: [] } as T
+        case 'get-item-content': return [...HISTORY, ...PINNED].find(entry => entry.id === params[0])!.content as T
+        case 'search-history': return [{ item: HISTORY[2], score: 1, snippet: 'first', highlights: [] }] as T
+        default: return undefined as T
+      }
+    },
+    readStdin: async () => stdin,
+    write: text => {
+      output += text
+    }
+  }
+  return { io, calls, output: () => output }
+}
+
+describe('runClip', () => {
+  it('lists recent items with their positions, filtered by type', async () => {
+    const { io, output } = fakeIO()
+    await runClip(['list', '-n', '2'], io)
+    expect(output()).toBe('1\t1700000000003\ttext\tthird line\n2\t1700000000002\turl\thttps://example.com\n')
+
+    const urls = fakeIO()
+    await runClip(['list', '--type', 'url', '--json'], urls.io)
+    expect(JSON.parse(urls.output())).toEqual([HISTORY[1]])
+  })
+
+  it('finds items by position or id', async () => {
+    const { io, output } = fakeIO()
+    await runClip(['get', '3'], io)
+    await runClip(['get', '1600000000000'], io)
+    expect(output()).toBe('firstpinned')
+    await expect(runClip(['get', '4'], io)).rejects.toThrow('No item 4')
+  })
+
+  it('copies without pasting into the terminal', async () => {
+    const { io, calls } = fakeIO()
+    await runClip(['copy', '2', '--plain'], io)
+    expect(calls.at(-1)).toEqual(['copy-to-clipboard', HISTORY[1], { plainText: true, paste: false }])
+  })
+
+  it('adds piped input as a new item', async () => {
+    const piped = fakeIO('from stdin\n')
+    await runClip([], piped.io)
+    expect(piped.calls).toEqual([['add-text-item', 'from stdin\n']])
+
+    const argument = fakeIO()
+    await runClip(['add', 'two', 'words'], argument.io)
+    expect(argument.calls).toEqual([['add-text-item', 'two words']])
+  })
+
+  it('changes the library by item id', async () => {
+    const { io, calls } = fakeIO()
+    await runClip(['pin', '1'], io)
+    await runClip(['delete', '1700000000001'], io)
+    await runClip(['clear'], io)
+    expect(calls.filter(([method]) => !String(method).startsWith('get-'))).toEqual([
+      ['pin-clipboard-item', '1700000000003'],
+      ['delete-clipboard-item', '1700000000001'],
+      ['clear-clipboard-history']
+    ])
+  })
+
+  it('rejects bad usage before calling the app', async () => {
+    const { io, calls } = fakeIO()
+    await expect(runClip([], io)).rejects.toBeInstanceOf(UsageError)
+    await expect(runClip(['list', '--type', 'video'], io)).rejects.toThrow('--type must be one of')
+    await expect(runClip(['list', '--verbose'], io)).rejects.toThrow('Unknown option --verbose')
+    await expect(runClip(['paste'], io)).rejects.toThrow('Unknown command paste')
+    expect(calls).toEqual([])
+  })
+})
@@ -0,0 +1,174 @@
+import type { RpcMethod } from './rpc'
+import type { ClipboardItem, PinnedState, SearchResult } from './types'
+
+// The commands of the `clip` tool. They only talk to the app through `call`, so they run against
+// a live socket in clip.ts and against plain functions in tests.
+
+export interface ClipIO {
+  call<T = unknown>(method: RpcMethod, ...params: unknown[]): Promise<T>
+  // Resolves to what was piped in, or null when standard input is a terminal
+  readStdin(): Promise<string | null>
+  write(text: string): void
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UsageError'
+  }
+}
+
+export const USAGE = `Usage: clip <command> [options]
+
+Commands:
+  list [--type <type>] [-n <count>]   Show recent items, newest first (default 20)
+  get <item>                          Print an item's content
+  copy <item> [--plain]               Put an item back on the clipboard
+  search <query>                      Find items in the history and pinned items
+  add [text]                          Add text, or standard input, as a new item
+  pin <item>, unpin <item>            Pin or unpin an item
+  delete <item>                       Delete an item from the history
+  clear                               Clear the history, keeping pinned items
+
+<item> is a position from \`clip list\` (1 is the newest) or an item id.
+Add --json to list and search for machine-readable output. Piping into \`clip\`
+without a command adds the input as a new item.`
+
+const ITEM_TYPES: ClipboardItem['type'][] = ['text', 'html', 'rtf', 'url', 'files', 'image']
+
+interface ParsedArgs {
+  positional: string[]
+  options: Map<string, string | true>
+}
+
+// Options that take a value; every other option is a flag
+const VALUE_OPTIONS = new Set(['--type', '-n'])
+
+function parseArgs(args: string[]): ParsedArgs {
+  const positional: string[] = []
+  const options = new Map<string, string | true>()
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--') {
+      positional.push(...args.slice(i + 1))
+      break
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      positional.push(arg)
+    } else if (VALUE_OPTIONS.has(arg)) {
+      const value = args[++i]
+      if (value === undefined) throw new UsageError(`${arg} needs a value`)
+      options.set(arg, value)
+    } else if (['--json', '--plain'].includes(arg)) {
+      options.set(arg, true)
+    } else {
+      throw new UsageError(`Unknown option ${arg}`)
+    }
+  }
+  return { positional, options }
+}
+
+const oneLine = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+function formatItems(items: ClipboardItem[], json: boolean): string {
+  if (json) {
+    return JSON.stringify(items, null, 2) + '\n'
+  }
+  return items.map((item, index) => `${index + 1}\t${item.id}\t${item.type}\t${oneLine(item.preview ?? item.content)}\n`).join('')
+}
+
+// An id anywhere in the library, or a position in the history as `clip list` numbers it
+async function resolveItem(ref: string | undefined, io: ClipIO): Promise<ClipboardItem> {
+  if (!ref) throw new UsageError('Name an item by its position or id')
+  const history = await io.call<ClipboardItem[]>('get-clipboard-history')
+  const pinned = await io.call<PinnedState>('get-pinned-items')
+  const byId = [...history, ...pinned.items].find(item => item.id === ref)
+  if (byId) return byId
+  const position = /^\d+$/.test(ref) ? Number(ref) : 0
+  if (position >= 1 && position <= history.length) {
+    return history[position - 1]
+  }
+  throw new Error(`No item ${ref}`)
+}
+
+export async function runClip(args: string[], io: ClipIO): Promise<void> {
+  const [command, ...rest] = args
+  const { positional, options } = parseArgs(rest)
+  const json = options.has('--json')
+
+  switch (command) {
+    case undefined: {
+      const input = await io.readStdin()
+      if (input === null) {
+        throw new UsageError(USAGE)
+      }
+      await io.call('add-text-item', input)
+      return
+    }
+
+    case 'help':
+    case '--help':
+    case '-h':
+      io.write(USAGE + '\n')
+      return
+
+    case 'list': {
+      const type = options.get('--type')
+      if (type !== undefined && !ITEM_TYPES.includes(type as ClipboardItem['type'])) {
+        throw new UsageError(`--type must be one of ${ITEM_TYPES.join(', ')}`)
+      }
+      const count = Number(options.get('-n') ?? 20)
+      if (!Number.isInteger(count) || count < 1) {
+        throw new UsageError('-n must be a positive whole number')
+      }
+      const history = await io.call<ClipboardItem[]>('get-clipboard-history')
+      const items = (type ? history.filter(item => item.type === type) : history).slice(0, count)
+      io.write(formatItems(items, json))
+      return
+    }
+
+    case 'get': {
+      const item = await resolveItem(positional[0], io)
+      io.write(await io.call<string>('get-item-content', item.id))
+      return
+    }
+
+    case 'copy': {
+      const item = await resolveItem(positional[0], io)
+      // Pasting would type into whatever window happens to be in front of the terminal
+      await io.call('copy-to-clipboard', item, { plainText: options.has('--plain'), paste: false })
+      return
+    }
+
+    case 'search': {
+      const query = positional.join(' ')
+      if (!query) throw new UsageError('Give something to search for')
+      const results = await io.call<SearchResult[]>('search-history', query)
+      io.write(formatItems(results.map(result => result.item), json))
+      return
+    }
+
+    case 'add': {
+      const input = positional.length > 0 ? positional.join(' ') : await io.readStdin()
+      if (!input) throw new UsageError('Give the text to add, or pipe it in')
+      await io.call('add-text-item', input)
+      return
+    }
+
+    case 'pin':
+    case 'unpin':
+    case 'delete': {
+      const item = await resolveItem(positional[0], io)
+      const method = command === 'pin' ? 'pin-clipboard-item' : command === 'unpin' ? 'unpin-clipboard-item' : 'delete-clipboard-item'
+      await io.call(method, item.id)
+      return
+    }
+
+    case 'clear':
+      await io.call('clear-clipboard-history')
+      return
+
+    default:
+      throw new UsageError(`Unknown command ${command}\n\n${USAGE}`)
+  }
+}
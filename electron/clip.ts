@@ -0,0 +1,48 @@
+import { runClip, USAGE, UsageError } from './cli'
+import { RpcClient } from './rpc'
+
+// Entry point of the bundled `clip` command line tool
+
+async function readStdin(): Promise<string | null> {
+  if (process.stdin.isTTY) {
+    return null
+  }
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+async function main(args: string[]): Promise<number> {
+  // Neither needs the app to be running
+  if (args[0] === 'help' || args[0] === '--help' || args[0] === '-h') {
+    process.stdout.write(USAGE + '\n')
+    return 0
+  }
+  if (args.length === 0 && process.stdin.isTTY) {
+    process.stderr.write(USAGE + '\n')
+    return 2
+  }
+
+  let client: RpcClient | null = null
+  try {
+    client = await RpcClient.connect()
+    const connected = client
+    await runClip(args, {
+      call: (method, ...params) => connected.call(method, ...params),
+      readStdin,
+      write: text => process.stdout.write(text)
+    })
+    return 0
+  } catch (error) {
+    process.stderr.write(`clip: ${error instanceof Error ? error.message : String(error)}\n`)
+    return error instanceof UsageError ? 2 : 1
+  } finally {
+    client?.close()
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code
+})
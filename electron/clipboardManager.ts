@@ -0,0 +1,2041 @@
+import { randomBytes } from 'crypto'
+import { join } from 'path'
+import { readFileSync, writeFileSync } from 'fs'
+import { ArchiveError, buildArchive, exportTextCsv, exportTextJson, filterItems, planImport, type ImportPlan, type PayloadReader } from './archive'
+import { BlobStore, hashContent } from './blobStore'
+import type { AppStore, AutostartDriver, ClipboardDriver, FileFilter, IpcRegistrar, PasteDriver, ShortcutRegistry, TextRecognizer, WindowDriver } from './drivers'
+import { classifySnapshot, toPlainTextCapture, type CapturedContent } from './formats'
+import { stripHtml } from './html'
+import { HttpApiServer } from './httpApi'
+import { MergeError, mergeTexts } from './merge'
+import { retentionPolicy, selectEvictions, summarizeUsage } from './retention'
+import { rtfToText } from './rtf'
+import { SearchIndex } from './search'
+import { detectSensitive, maskPreview } from './sensitive'
+import { PasteStack } from './pasteStack'
+import { describeCapture, describeText } from './previewers'
+import type { RpcEndpoint } from './rpc'
+import { HandlerTable, RpcServer } from './rpcServer'
+import { findAppRule, SettingsError, SettingsManager, validateSettings, type AppRule, type Settings } from './settings'
+import { emptyLibrary, PlainLibraryStorage, type LibraryData, type LibraryStorage } from './storage'
+import {
+  isSyncable, mergeRecords, syncKey, SyncFolder, unlockSyncFolder,
+  type SyncCategory, type SyncChange, type SyncEntry, type SyncItem, type SyncState
+} from './sync'
+import { expandTemplate, getTemplateInputs, parseTemplate } from './template'
+import { createTransformRegistry, TransformError, type TransformRegistry } from './transforms'
+import { createBlobCipher, EncryptedLibraryStorage, Vault, VaultError, type KeyProtector, type KeySource } from './vault'
+import { ClipboardWatcher, type ClipboardImage, type ClipboardSource, type WatcherOptions, type WrittenContent } from './watcher'
+import type {
+  ApiEvent, ClipboardItem, Collection, CopyOptions, EncryptionStatus, ExportFilter, ExportFormat, ExportResult, HttpApiStatus, ImportPreview, ItemDetail, ImportResult, MergeOptions, PasteFeedback, PasteStackState, PinnedState,
+  Representation, ScriptingStatus, SnippetDraft, StorageUsage, SyncStatus, TransformOptions
+} from './types'
+
+// Text and HTML bodies larger than this are moved out of the history JSON into the blob store
+const LARGE_CONTENT_THRESHOLD = 32 * 1024
+
+const EXPORT_DIALOG_FILTERS: Record<ExportFormat, FileFilter[]> = {
+  archive: [{ name: 'Clipboard archive', extensions: ['tar.gz'] }],
+  json: [{ name: 'JSON', extensions: ['json'] }],
+  csv: [{ name: 'CSV', extensions: ['csv'] }]
+}
+
+// How often the sync folder is checked for changes from other devices
+const SYNC_INTERVAL = 30 * 1000
+// How often the retention settings are applied to items that aged out meanwhile
+const COMPACTION_INTERVAL = 10 * 60 * 1000
+
+type ShortcutSetting = 'globalShortcut' | 'pasteStackShortcut'
+
+// Whether a clipboard write is followed by a paste: as the auto-paste setting says, or regardless
+type PasteMode = 'auto' | 'always' | 'never'
+
+export interface ManagerDependencies {
+  clipboard: ClipboardDriver
+  store: AppStore
+  // Holds the blob store and the encrypted vault
+  dataDir: string
+  keyProtector: KeyProtector
+  window: WindowDriver
+  paste: PasteDriver
+  shortcuts: ShortcutRegistry
+  ipc: IpcRegistrar
+  // Name of the application that owns the focused window, or null when unknown
+  getFrontmostApp: () => string | null
+  appName: string
+  // The PRIMARY selection, on systems that have one; recorded only when the user opts in
+  primarySelection?: ClipboardSource
+  autostart?: AutostartDriver
+  // Where the `clip` command line tool connects; without one, scripting is unavailable
+  rpcEndpoint?: RpcEndpoint
+  // Reads the text in images so they can be searched; without one, images are found by size only
+  textRecognizer?: TextRecognizer
+}
+
+export class ClipboardManager {
+  private readonly deps: ManagerDependencies
+  private store: AppStore
+  private blobStore: BlobStore
+  private vault: Vault
+  // Null while an encrypted library is locked; nothing may be persisted then
+  private libraryStorage: LibraryStorage | null = null
+  private vaultKey: Buffer | null = null
+  private vaultError: VaultError | null = null
+  private searchIndex: SearchIndex
+  private transforms: TransformRegistry = createTransformRegistry()
+  private pasteStack = new PasteStack()
+  private clipboardHistory: ClipboardItem[] = []
+  private pinnedItems: ClipboardItem[] = []
+  private collections: Collection[] = []
+  private watcher: ClipboardWatcher
+  private selectionWatcher: ClipboardWatcher | null = null
+  private expiryInterval: NodeJS.Timeout | null = null
+  private compactionInterval: NodeJS.Timeout | null = null
+  private settings: SettingsManager
+  // An archive that was read and previewed, waiting for the user to confirm the import
+  private pendingImport: ImportPlan | null = null
+  // The IPC handlers, kept for the scripting server
+  private handlers: HandlerTable
+  private rpcServer: RpcServer | null = null
+  private rpcError: string | null = null
+  // Starting and stopping take turns, so quick toggles cannot leave the server in the wrong state
+  private rpcUpdate: Promise<void> = Promise.resolve()
+  private httpApi: HttpApiServer | null = null
+  private httpApiError: string | null = null
+  private httpApiUpdate: Promise<void> = Promise.resolve()
+  // The folder shared with other devices, while sync is on and its key is at hand
+  private syncFolder: SyncFolder | null = null
+  private syncInterval: NodeJS.Timeout | null = null
+  private syncError: string | null = null
+  private lastSync: number | null = null
+  // Ids of the images waiting for their text to be read, which happens one at a time
+  private recognitionQueue: string[] = []
+  private isRecognizing = false
+
+  constructor(deps: ManagerDependencies) {
+    this.deps = deps
+    this.store = deps.store
+    this.handlers = new HandlerTable(deps.ipc)
+    this.blobStore = new BlobStore(join(deps.dataDir, 'blobs'))
+    this.vault = new Vault(join(deps.dataDir, 'clipboard-history.enc'), deps.keyProtector)
+    this.searchIndex = new SearchIndex(item => this.getSearchableText(item))
+    this.settings = new SettingsManager(
+      this.store.get('settings'),
+      stored => this.store.set({ settings: stored }),
+      { autoPaste: this.store.get('autoPaste') }
+    )
+    this.store.delete('autoPaste')
+    this.settings.onChange((settings, previous) => this.applySettings(settings, previous))
+    const watcherOptions: WatcherOptions = {
+      minInterval: () => this.settings.get().pollInterval,
+      isPaused: () => this.isLocked(),
+      ignoreConcealed: () => this.settings.get().ignoreConcealed
+    }
+    this.watcher = new ClipboardWatcher(deps.clipboard, {
+      onImage: image => this.captureCopy(() => this.addImageToHistory(image, this.resolveSourceApp())),
+      onContent: captured => this.captureCopy(() => this.addToHistory(captured, this.resolveSourceApp()))
+    }, watcherOptions)
+    if (deps.primarySelection) {
+      this.selectionWatcher = new ClipboardWatcher(deps.primarySelection, {
+        onImage: () => {},
+        onContent: captured => {
+          // Text selected in the app's own window, such as a search query, is not worth keeping
+          if (!this.deps.window.isVisible()) {
+            this.captureCopy(() => this.addToHistory(captured, this.resolveSourceApp()))
+          }
+        }
+      }, watcherOptions)
+    }
+  }
+
+  get currentSettings(): Settings {
+    return this.settings.get()
+  }
+
+  // The app a new clipboard entry most likely came from: whatever owns the focused window
+  private resolveSourceApp(): string | undefined {
+    const frontApp = this.deps.getFrontmostApp()
+    if (!frontApp || frontApp === 'Clipboard Manager' || frontApp === this.deps.appName) {
+      return undefined
+    }
+    return frontApp
+  }
+
+  private findAppRule(sourceApp: string | undefined): AppRule | undefined {
+    return findAppRule(this.settings.get().appRules, sourceApp)
+  }
+
+  private expiryFor(rule: AppRule | undefined, timestamp: number): number | undefined {
+    return rule?.action === 'expire' && rule.expireMinutes ? timestamp + rule.expireMinutes * 60 * 1000 : undefined
+  }
+
+  private setLibrary(data: LibraryData) {
+    this.clipboardHistory = data.history
+    this.pinnedItems = data.pinned
+    this.collections = data.collections
+  }
+
+  private getLibrary(): LibraryData {
+    return {
+      history: this.clipboardHistory,
+      pinned: this.pinnedItems,
+      collections: this.collections
+    }
+  }
+
+  // Opens the plain store, or the encrypted vault when one exists. A vault whose key is held by
+  // the OS opens straight away; a passphrase vault stays locked until the user unlocks it.
+  private openLibrary() {
+    if (!this.vault.exists()) {
+      this.libraryStorage = new PlainLibraryStorage(this.store)
+      this.setLibrary(this.libraryStorage.load())
+      return
+    }
+
+    try {
+      if (this.vault.keySource() === 'passphrase') {
+        this.setLibrary(emptyLibrary())
+        return
+      }
+      this.unlockLibrary()
+    } catch (error) {
+      this.vaultError = error instanceof VaultError ? error : new VaultError('CORRUPTED', String(error))
+    }
+  }
+
+  private isLocked() {
+    return this.libraryStorage === null
+  }
+
+  getEncryptionStatus(): EncryptionStatus {
+    const encrypted = this.vault.exists()
+    let keySource: KeySource | undefined
+    try {
+      keySource = encrypted ? this.vault.keySource() : undefined
+    } catch {
+      keySource = undefined
+    }
+    return {
+      encrypted,
+      keySource,
+      locked: this.isLocked(),
+      error: this.vaultError ? { code: this.vaultError.code, message: this.vaultError.message } : undefined,
+      safeStorageAvailable: this.deps.keyProtector.isAvailable()
+    }
+  }
+
+  private notifyEncryptionStatus() {
+    this.deps.window.send('encryption-status-updated', this.getEncryptionStatus())
+  }
+
+  unlockLibrary(passphrase?: string) {
+    if (!this.isLocked()) {
+      return this.getEncryptionStatus()
+    }
+
+    try {
+      const { key, header } = this.vault.unlockKey(passphrase)
+      const storage = new EncryptedLibraryStorage(this.vault, key, header)
+      this.setLibrary(storage.load())
+      this.blobStore.setCipher(createBlobCipher(key))
+      this.libraryStorage = storage
+      this.vaultKey = key
+      this.vaultError = null
+    } catch (error) {
+      const vaultError = error instanceof VaultError ? error : new VaultError('CORRUPTED', String(error))
+      // A wrong passphrase is reported to the caller but leaves the vault usable;
+      // anything else means the file itself cannot be opened
+      const isWrongPassphrase = passphrase !== undefined && (vaultError.code === 'WRONG_KEY' || vaultError.code === 'LOCKED')
+      if (!isWrongPassphrase) {
+        this.vaultError = vaultError
+        this.notifyEncryptionStatus()
+      }
+      throw vaultError
+    }
+
+    this.migrateInlineContent()
+    this.notifyHistoryUpdated()
+    this.notifyPinnedUpdated()
+    this.notifyEncryptionStatus()
+    this.backfillRecognition()
+    return this.getEncryptionStatus()
+  }
+
+  lockLibrary() {
+    if (!this.vault.exists() || this.vault.keySource() !== 'passphrase') {
+      throw new VaultError('UNAVAILABLE', 'Only passphrase-protected history can be locked')
+    }
+    this.libraryStorage = null
+    this.vaultKey = null
+    this.blobStore.setCipher(null)
+    this.setLibrary(emptyLibrary())
+    this.notifyHistoryUpdated()
+    this.notifyPinnedUpdated()
+    this.notifyEncryptionStatus()
+    return this.getEncryptionStatus()
+  }
+
+  enableEncryption(keySource: KeySource, passphrase?: string) {
+    if (this.vault.exists()) {
+      throw new VaultError('UNAVAILABLE', 'The history is already encrypted')
+    }
+    if (this.isLocked()) {
+      throw new VaultError('LOCKED', 'Unlock the history first')
+    }
+
+    const { key, header } = this.vault.createKey(keySource, passphrase)
+    const storage = new EncryptedLibraryStorage(this.vault, key, header)
+    storage.save(this.getLibrary())
+    this.blobStore.setCipher(createBlobCipher(key))
+    this.blobStore.rewriteAll(null, this.referencedBlobs())
+    // Drop the plaintext copy only once the encrypted one is safely on disk
+    new PlainLibraryStorage(this.store).save(emptyLibrary())
+    this.libraryStorage = storage
+    this.vaultKey = key
+
+    this.notifyEncryptionStatus()
+    return this.getEncryptionStatus()
+  }
+
+  disableEncryption(passphrase?: string) {
+    if (!this.vault.exists()) {
+      throw new VaultError('UNAVAILABLE', 'The history is not encrypted')
+    }
+    if (this.isLocked() || !this.vaultKey) {
+      throw new VaultError('LOCKED', 'Unlock the history first')
+    }
+    // Turning protection off needs the same proof of ownership as unlocking
+    if (this.vault.keySource() === 'passphrase') {
+      this.vault.unlockKey(passphrase)
+    }
+
+    const previousCipher = createBlobCipher(this.vaultKey)
+    const storage = new PlainLibraryStorage(this.store)
+    storage.save(this.getLibrary())
+    this.blobStore.setCipher(null)
+    this.blobStore.rewriteAll(previousCipher, this.referencedBlobs())
+    this.vault.remove()
+    this.libraryStorage = storage
+    this.vaultKey = null
+
+    this.notifyEncryptionStatus()
+    return this.getEncryptionStatus()
+  }
+
+  // Only offered when the vault cannot be opened: keeps the damaged file aside and starts over
+  resetEncryptedLibrary() {
+    if (!this.vaultError) {
+      throw new VaultError('UNAVAILABLE', 'The encrypted history is not damaged')
+    }
+    this.vault.quarantine()
+    this.vaultError = null
+    this.libraryStorage = new PlainLibraryStorage(this.store)
+    this.setLibrary(this.libraryStorage.load())
+    this.notifyHistoryUpdated()
+    this.notifyPinnedUpdated()
+    this.notifyEncryptionStatus()
+    return this.getEncryptionStatus()
+  }
+
+  // Older stores kept images as inline data URLs and large bodies inline; move them into the blob store
+  private migrateInlineContent() {
+    let migrated = false
+    const migrate = (item: ClipboardItem): ClipboardItem => {
+      if (item.contentHash) return item
+      migrated = true
+
+      if (item.type === 'image') {
+        const imageBuffer = Buffer.from(item.content.replace(/^data:image\/\w+;base64,/, ''), 'base64')
+        const image = this.deps.clipboard.describeImage(imageBuffer)
+        const imageHash = hashContent(imageBuffer)
+        this.blobStore.put(imageHash, imageBuffer)
+        return {
+          ...item,
+          content: '',
+          contentHash: imageHash,
+          blobId: imageHash,
+          size: imageBuffer.length,
+          ...image
+        }
+      }
+
+      return this.externalizeContent({
+        ...item,
+        contentHash: hashContent(item.content),
+        size: Buffer.byteLength(item.content)
+      })
+    }
+
+    this.clipboardHistory = this.clipboardHistory.map(migrate)
+    this.pinnedItems = this.pinnedItems.map(migrate)
+
+    if (migrated) {
+      this.saveLibrary()
+    }
+  }
+
+  private externalizeContent(item: ClipboardItem): ClipboardItem {
+    if (!item.contentHash || Buffer.byteLength(item.content) <= LARGE_CONTENT_THRESHOLD) {
+      return item
+    }
+    this.blobStore.put(item.contentHash, item.content)
+    return { ...item, content: '', blobId: item.contentHash }
+  }
+
+  private findItem(id: string): ClipboardItem | undefined {
+    return this.pinnedItems.find(item => item.id === id) ?? this.clipboardHistory.find(item => item.id === id)
+  }
+
+  private readImageBuffer(item: ClipboardItem): Buffer {
+    const imageBuffer = item.blobId
+      ? this.blobStore.read(item.blobId)
+      : Buffer.from(item.content.replace(/^data:image\/\w+;base64,/, ''), 'base64')
+    if (!imageBuffer) {
+      throw new Error(`Image data is missing for item ${item.id}`)
+    }
+    return imageBuffer
+  }
+
+  // Returns the full payload of an item, loading it from the blob store when it was externalized
+  private readContent(item: ClipboardItem): string {
+    if (item.type === 'image') {
+      return `data:image/png;base64,${this.readImageBuffer(item).toString('base64')}`
+    }
+    if (!item.blobId) {
+      return item.content
+    }
+    const data = this.blobStore.read(item.blobId)
+    if (!data) {
+      throw new Error(`Content is missing for item ${item.id}`)
+    }
+    return data.toString('utf8')
+  }
+
+  // Alternate representations always live in the blob store, keyed by their hash
+  private storeAlternates(alternates: Partial<Record<Representation, string>>): ClipboardItem['alternates'] {
+    const entries = Object.entries(alternates).filter(([, value]) => value)
+    if (entries.length === 0) return undefined
+    return Object.fromEntries(entries.map(([representation, value]) => {
+      const hash = hashContent(value)
+      this.blobStore.put(hash, value)
+      return [representation, hash]
+    }))
+  }
+
+  private readAlternate(item: ClipboardItem, representation: Representation): string | undefined {
+    const blobId = item.alternates?.[representation]
+    return blobId ? this.blobStore.read(blobId)?.toString('utf8') : undefined
+  }
+
+  // Every representation of a text-like item, including its primary payload
+  private readRepresentations(item: ClipboardItem): Partial<Record<Representation, string>> {
+    const representations: Partial<Record<Representation, string>> = {}
+    for (const representation of Object.keys(item.alternates ?? {}) as Representation[]) {
+      representations[representation] = this.readAlternate(item, representation)
+    }
+    if (item.type === 'html' || item.type === 'rtf') {
+      representations[item.type] = this.readContent(item)
+    } else if (item.type !== 'image') {
+      representations.text = representations.text ?? this.readContent(item)
+    }
+    return representations
+  }
+
+  private getPlainText(item: ClipboardItem): string {
+    switch (item.type) {
+      case 'image':
+        return ''
+      case 'html':
+        return this.readAlternate(item, 'text') ?? stripHtml(this.readContent(item))
+      case 'rtf':
+        return this.readAlternate(item, 'text') ?? rtfToText(this.readContent(item))
+      default:
+        return this.readContent(item)
+    }
+  }
+
+  getItemDetail(id: string): ItemDetail {
+    const item = this.findItem(id)
+    if (!item) {
+      throw new Error(`Clipboard item not found: ${id}`)
+    }
+    if (item.type === 'image') {
+      const png = this.readImageBuffer(item)
+      return {
+        id,
+        type: 'image',
+        image: { dataUrl: `data:image/png;base64,${png.toString('base64')}`, width: item.width, height: item.height, bytes: png.length }
+      }
+    }
+    return { id, type: item.type, ...describeText(item.type, this.readContent(item), this.getPlainText(item)) }
+  }
+
+  private getSearchableText(item: ClipboardItem): string {
+    if (item.type === 'image') {
+      const label = item.width && item.height ? `Image ${item.width}×${item.height}` : 'Image'
+      return item.recognizedText ? `${label}\n${item.recognizedText}` : label
+    }
+    // Secrets are only findable by their masked preview, never by their value
+    if (item.sensitive) {
+      return item.preview ?? ''
+    }
+    const text = this.getPlainText(item)
+    return item.title ? `${item.title}\n${text}` : text
+  }
+
+  searchHistory(query: string) {
+    this.searchIndex.sync([...this.pinnedItems, ...this.clipboardHistory])
+    return this.searchIndex.search(query)
+  }
+
+  private referencedBlobs(): Set<string> {
+    const referenced = new Set<string>()
+    for (const item of [...this.clipboardHistory, ...this.pinnedItems]) {
+      if (item.blobId) {
+        referenced.add(item.blobId)
+      }
+      for (const blobId of Object.values(item.alternates ?? {})) {
+        referenced.add(blobId)
+      }
+    }
+    return referenced
+  }
+
+  private collectGarbage() {
+    // While locked the item lists are empty, so every blob would look unreferenced
+    if (this.isLocked()) return
+
+    try {
+      this.blobStore.prune(this.referencedBlobs())
+    } catch {
+      // Silent error handling
+    }
+
+    // Queued items that were deleted meanwhile may have lost their payload
+    const queued = this.pasteStack.size
+    this.pasteStack.retain(item => !!this.findItem(item.id))
+    if (this.pasteStack.size !== queued) {
+      this.notifyPasteStack()
+    }
+  }
+
+  // Pinned items live outside the rolling history, so they are never truncated or cleared
+  private saveLibrary() {
+    this.libraryStorage?.save(this.getLibrary())
+  }
+
+  private getPinnedState(): PinnedState {
+    return { items: this.pinnedItems, collections: this.collections }
+  }
+
+  private notifyHistoryUpdated() {
+    this.deps.window.send('clipboard-updated', this.clipboardHistory)
+  }
+
+  // Tells clients of the HTTP API what changed, for those that follow the history live
+  private publish(event: ApiEvent) {
+    this.httpApi?.broadcast(event)
+  }
+
+  private notifyPinnedUpdated() {
+    this.deps.window.send('pinned-updated', this.getPinnedState())
+  }
+
+  private findCollection(collectionId: string): Collection {
+    const collection = this.collections.find(c => c.id === collectionId)
+    if (!collection) {
+      throw new Error(`Collection not found: ${collectionId}`)
+    }
+    return collection
+  }
+
+  private normalizeCollectionName(name: string, ignoreId?: string): string {
+    const trimmed = name.trim()
+    if (!trimmed) {
+      throw new Error('Collection name cannot be empty')
+    }
+    const duplicate = this.collections.some(c => c.id !== ignoreId && c.name.toLowerCase() === trimmed.toLowerCase())
+    if (duplicate) {
+      throw new Error(`A collection named "${trimmed}" already exists`)
+    }
+    return trimmed
+  }
+
+  pinItem(id: string, collectionId?: string) {
+    if (collectionId) {
+      this.findCollection(collectionId)
+    }
+
+    const pinned = this.pinnedItems.find(item => item.id === id)
+    if (pinned) {
+      pinned.collectionId = collectionId
+      this.saveLibrary()
+      this.notifyPinnedUpdated()
+      return this.getPinnedState()
+    }
+
+    const item = this.clipboardHistory.find(item => item.id === id)
+    if (!item) {
+      throw new Error(`Clipboard item not found: ${id}`)
+    }
+
+    this.clipboardHistory = this.clipboardHistory.filter(item => item.id !== id)
+    // Pinning is an explicit request to keep the item, so it no longer expires
+    this.pinnedItems.unshift({ ...item, pinned: true, collectionId, expiresAt: undefined })
+    this.recordSync(() => this.syncReference(item, key => ({ op: 'pin', key, pinned: true })))
+    this.saveLibrary()
+    this.notifyHistoryUpdated()
+    this.notifyPinnedUpdated()
+    return this.getPinnedState()
+  }
+
+  unpinItem(id: string) {
+    const item = this.pinnedItems.find(item => item.id === id)
+    if (!item) {
+      throw new Error(`Pinned item not found: ${id}`)
+    }
+
+    this.pinnedItems = this.pinnedItems.filter(item => item.id !== id)
+    const unpinned: ClipboardItem = { ...item }
+    delete unpinned.pinned
+    delete unpinned.collectionId
+    this.clipboardHistory.unshift(unpinned)
+    this.enforceRetention()
+    this.recordSync(() => this.syncReference(item, key => ({ op: 'pin', key, pinned: false })))
+    this.saveLibrary()
+    this.notifyHistoryUpdated()
+    this.notifyPinnedUpdated()
+    return this.getPinnedState()
+  }
+
+  createCollection(name: string) {
+    const collection: Collection = {
+      id: Date.now().toString(),
+      name: this.normalizeCollectionName(name),
+      createdAt: Date.now()
+    }
+    this.collections.push(collection)
+    this.saveLibrary()
+    this.notifyPinnedUpdated()
+    return collection
+  }
+
+  renameCollection(collectionId: string, name: string) {
+    const collection = this.findCollection(collectionId)
+    collection.name = this.normalizeCollectionName(name, collectionId)
+    this.saveLibrary()
+    this.notifyPinnedUpdated()
+    return this.getPinnedState()
+  }
+
+  deleteCollection(collectionId: string) {
+    this.findCollection(collectionId)
+    this.collections = this.collections.filter(c => c.id !== collectionId)
+    // Items stay pinned, they just fall back to the unsorted pinned section
+    this.pinnedItems = this.pinnedItems.map(item =>
+      item.collectionId === collectionId ? { ...item, collectionId: undefined } : item
+    )
+    this.saveLibrary()
+    this.notifyPinnedUpdated()
+    return this.getPinnedState()
+  }
+
+  moveItemToCollection(id: string, collectionId: string | null) {
+    return this.pinItem(id, collectionId ?? undefined)
+  }
+
+  private get payloadReader(): PayloadReader {
+    return {
+      readText: item => this.readContent(item),
+      readPlainText: item => this.getPlainText(item),
+      readAlternates: item => Object.fromEntries(
+        Object.keys(item.alternates ?? {}).map(key => [key, this.readAlternate(item, key as Representation)])
+      ),
+      readImage: item => this.readImageBuffer(item)
+    }
+  }
+
+  async exportHistory(format: ExportFormat, filter: ExportFilter = {}): Promise<ExportResult | null> {
+    if (this.isLocked()) {
+      throw new VaultError('LOCKED', 'Unlock the history first')
+    }
+    const items = filterItems([...this.pinnedItems, ...this.clipboardHistory], filter)
+      .filter(item => format === 'archive' || item.type !== 'image')
+    if (items.length === 0) {
+      throw new ArchiveError('No items match the export filter')
+    }
+
+    const date = new Date().toISOString().slice(0, 10)
+    const extension = format === 'archive' ? 'tar.gz' : format
+    const filePath = await this.deps.window.showSaveDialog({
+      title: format === 'archive' ? 'Export Clipboard History' : 'Export Text Items',
+      defaultName: `clipboard-history-${date}.${extension}`,
+      filters: EXPORT_DIALOG_FILTERS[format]
+    })
+    if (!filePath) {
+      return null
+    }
+
+    const output = format === 'archive'
+      ? buildArchive(items, this.collections, this.payloadReader)
+      : format === 'json'
+        ? exportTextJson(items, this.collections, this.payloadReader)
+        : exportTextCsv(items, this.collections, this.payloadReader)
+    writeFileSync(filePath, output)
+    return { filePath, count: items.length }
+  }
+
+  // Reads an archive and reports what importing it would add; nothing changes until applyImport
+  async previewImport(): Promise<ImportPreview | null> {
+    if (this.isLocked()) {
+      throw new VaultError('LOCKED', 'Unlock the history first')
+    }
+    const filePath = await this.deps.window.showOpenDialog({
+      title: 'Import Clipboard History',
+      filters: [...EXPORT_DIALOG_FILTERS.archive, { name: 'All files', extensions: ['*'] }]
+    })
+    if (!filePath) {
+      return null
+    }
+
+    this.pendingImport = planImport(
+      readFileSync(filePath),
+      filePath,
+      [...this.pinnedItems, ...this.clipboardHistory],
+      this.collections
+    )
+    await this.showWindow()
+    this.deps.window.send('import-preview', this.pendingImport.preview)
+    return this.pendingImport.preview
+  }
+
+  cancelImport() {
+    this.pendingImport = null
+  }
+
+  applyImport(): ImportResult {
+    if (!this.pendingImport) {
+      throw new ArchiveError('There is no import waiting to be applied')
+    }
+    if (this.isLocked()) {
+      throw new VaultError('LOCKED', 'Unlock the history first')
+    }
+    const { candidates, preview } = this.pendingImport
+    this.pendingImport = null
+
+    const now = Date.now()
+    const collectionIds = new Map(this.collections.map(collection => [collection.name.toLowerCase(), collection.id]))
+    const collectionFor = (name: string) => {
+      let id = collectionIds.get(name.toLowerCase())
+      if (!id) {
+        id = `${now}-${this.collections.length}`
+        this.collections.push({ id, name, createdAt: now })
+        collectionIds.set(name.toLowerCase(), id)
+      }
+      return id
+    }
+
+    const imported: ClipboardItem[] = []
+    candidates.forEach((candidate, index) => {
+      const base = {
+        id: `${now}-${index}`,
+        timestamp: candidate.timestamp,
+        contentHash: candidate.contentHash,
+        preview: candidate.preview,
+        ...(candidate.sourceApp ? { sourceApp: candidate.sourceApp } : {}),
+        ...(candidate.sensitive ? { sensitive: candidate.sensitive } : {})
+      }
+
+      let item: ClipboardItem
+      if (candidate.image) {
+        this.blobStore.put(candidate.contentHash, candidate.image)
+        item = {
+          ...base,
+          content: '',
+          type: 'image',
+          blobId: candidate.contentHash,
+          size: candidate.image.length,
+          ...this.deps.clipboard.describeImage(candidate.image)
+        }
+      } else {
+        const content = candidate.text ?? ''
+        const alternates = this.storeAlternates(candidate.alternates ?? {})
+        item = this.externalizeContent({
+          ...base,
+          content,
+          type: candidate.type,
+          size: Buffer.byteLength(content),
+          ...(alternates ? { alternates } : {}),
+          ...(candidate.title ? { title: candidate.title } : {}),
+          ...(candidate.template ? { template: true } : {})
+        })
+      }
+
+      if (candidate.pinned) {
+        const collectionId = candidate.collectionName ? collectionFor(candidate.collectionName) : undefined
+        item = { ...item, pinned: true, collectionId }
+        this.pinnedItems.push(item)
+      } else {
+        this.clipboardHistory.push(item)
+      }
+      imported.push(item)
+    })
+
+    this.clipboardHistory.sort((a, b) => b.timestamp - a.timestamp)
+    this.enforceRetention()
+    this.saveLibrary()
+    this.notifyHistoryUpdated()
+    this.notifyPinnedUpdated()
+    // Archives carry no recognized text, so imported images are read here
+    this.queueRecognition(imported)
+    return { added: candidates.length, duplicates: preview.duplicates }
+  }
+
+  // Copying something the history already holds moves that entry to the top instead of adding
+  // a second one. A pinned item is already kept, so copying it again leaves it where it is and adds
+  // nothing. Returns whether the copy was a duplicate.
+  private bumpDuplicate(contentHash: string, type: ClipboardItem['type']): boolean {
+    if (this.pinnedItems.some(item => item.contentHash === contentHash && item.type === type)) return true
+    const index = this.clipboardHistory.findIndex(item => item.contentHash === contentHash && item.type === type)
+    if (index === -1) return false
+    if (index === 0) return true
+
+    const [existing] = this.clipboardHistory.splice(index, 1)
+    const item = { ...existing, timestamp: Date.now() }
+    this.clipboardHistory.unshift(item)
+    this.saveLibrary()
+    this.notifyHistoryUpdated()
+    this.publish({ type: 'item-added', item })
+    this.recordSync(() => this.syncAdds([item]))
+    return true
+  }
+
+  private insertItem(item: ClipboardItem) {
+    this.clipboardHistory.unshift(item)
+    this.publish({ type: 'item-added', item })
+    this.enforceRetention()
+    this.saveLibrary()
+    this.notifyHistoryUpdated()
+    this.recordSync(() => this.syncAdds([item]))
+  }
+
+  // Drops the history items the retention settings no longer allow, least recently used first.
+  // Pinned items are kept until removed by hand. The caller saves and notifies.
+  private enforceRetention(): ClipboardItem[] {
+    const evicted = selectEvictions(this.clipboardHistory, retentionPolicy(this.settings.get()), Date.now())
+    if (evicted.length === 0) return evicted
+
+    const ids = new Set(evicted.map(item => item.id))
+    this.clipboardHistory = this.clipboardHistory.filter(item => !ids.has(item.id))
+    if (evicted.some(item => item.blobId || item.alternates)) {
+      this.collectGarbage()
+    }
+    evicted.forEach(item => this.publish({ type: 'item-deleted', id: item.id }))
+    return evicted
+  }
+
+  // Runs on a timer too, since items age out without anything being copied
+  compactHistory(): StorageUsage {
+    if (this.enforceRetention().length > 0) {
+      this.saveLibrary()
+      this.notifyHistoryUpdated()
+    }
+    return this.getStorageUsage()
+  }
+
+  getStorageUsage(): StorageUsage {
+    let diskBytes = 0
+    try {
+      diskBytes = this.blobStore.totalSize()
+    } catch {
+      // Silent error handling
+    }
+    return summarizeUsage(this.clipboardHistory, this.pinnedItems, diskBytes)
+  }
+
+  private addToHistory(captured: CapturedContent, sourceApp?: string) {
+    const rule = this.findAppRule(sourceApp)
+    if (rule?.action === 'ignore') {
+      return
+    }
+    if (rule?.action === 'plainText') {
+      captured = toPlainTextCapture(captured)
+    }
+
+    const { content, type } = captured
+    if (!content) return
+
+    const contentHash = hashContent(content)
+    if (this.bumpDuplicate(contentHash, type)) {
+      return
+    }
+
+    const { preview, metadata } = describeCapture(captured)
+    const item: ClipboardItem = {
+      id: Date.now().toString(),
+      content,
+      type,
+      timestamp: Date.now(),
+      contentHash,
+      size: Buffer.byteLength(content),
+      preview,
+      metadata,
+      ...(captured.title ? { title: captured.title } : {}),
+      ...(sourceApp ? { sourceApp } : {})
+    }
+    item.expiresAt = this.expiryFor(rule, item.timestamp)
+
+    const settings = this.settings.get()
+    if (settings.sensitiveDetection) {
+      const plainText = type === 'html' ? stripHtml(content) : type === 'rtf' ? rtfToText(content) : content
+      const match = detectSensitive(captured.alternates.text ?? plainText, settings.sensitivePatterns)
+      if (match) {
+        if (settings.sensitiveAction === 'skip') {
+          return
+        }
+        item.sensitive = match.label
+        item.preview = maskPreview(match)
+        // Counts and colours would give away something about the secret
+        delete item.metadata
+        if (settings.sensitiveTtlMinutes > 0) {
+          const sensitiveExpiry = item.timestamp + settings.sensitiveTtlMinutes * 60 * 1000
+          item.expiresAt = Math.min(item.expiresAt ?? sensitiveExpiry, sensitiveExpiry)
+        }
+      }
+    }
+
+    const alternates = this.storeAlternates(captured.alternates)
+    this.insertItem(this.externalizeContent(alternates ? { ...item, alternates } : item))
+  }
+
+  private expireItems() {
+    const now = Date.now()
+    const isExpired = (item: ClipboardItem) => item.expiresAt !== undefined && item.expiresAt <= now
+
+    if (this.clipboardHistory.some(isExpired)) {
+      const expired = this.clipboardHistory.filter(isExpired)
+      this.clipboardHistory = this.clipboardHistory.filter(item => !isExpired(item))
+      this.saveLibrary()
+      this.collectGarbage()
+      this.notifyHistoryUpdated()
+      expired.forEach(item => this.publish({ type: 'item-deleted', id: item.id }))
+    }
+  }
+
+  private addImageToHistory(image: ClipboardImage, sourceApp?: string) {
+    // Plain-text-only apps have no text to keep from an image
+    const rule = this.findAppRule(sourceApp)
+    if (rule?.action === 'ignore' || rule?.action === 'plainText') {
+      return
+    }
+    if (this.bumpDuplicate(image.hash, 'image')) {
+      return
+    }
+
+    const timestamp = Date.now()
+    this.blobStore.put(image.hash, image.png)
+    const item: ClipboardItem = {
+      id: timestamp.toString(),
+      content: '',
+      type: 'image',
+      timestamp,
+      preview: 'Image',
+      contentHash: image.hash,
+      blobId: image.hash,
+      thumbnail: image.createThumbnail(),
+      size: image.png.length,
+      width: image.width,
+      height: image.height,
+      ...(sourceApp ? { sourceApp } : {}),
+      ...(rule ? { expiresAt: this.expiryFor(rule, timestamp) } : {})
+    }
+    this.insertItem(item)
+    // A screenshot just taken is likely the next thing searched for, so it skips the backfill
+    this.queueRecognition([item], true)
+  }
+
+  // Queues the images whose text has not been read yet
+  private queueRecognition(items: ClipboardItem[], first = false) {
+    if (!this.deps.textRecognizer || !this.settings.get().recognizeImageText) return
+    const ids = items
+      .filter(item => item.type === 'image' && item.recognizedText === undefined && !this.recognitionQueue.includes(item.id))
+      .map(item => item.id)
+    if (ids.length === 0) return
+    this.recognitionQueue = first ? [...ids, ...this.recognitionQueue] : [...this.recognitionQueue, ...ids]
+    void this.recognizeQueued()
+  }
+
+  // Reads images captured before recognition was turned on, or while the app was closed mid-queue
+  private backfillRecognition() {
+    this.queueRecognition([...this.pinnedItems, ...this.clipboardHistory])
+  }
+
+  private async recognizeQueued() {
+    const recognizer = this.deps.textRecognizer
+    if (!recognizer || this.isRecognizing) return
+    this.isRecognizing = true
+    try {
+      for (let id = this.recognitionQueue.shift(); id !== undefined; id = this.recognitionQueue.shift()) {
+        const queued = this.findItem(id)
+        if (!queued || queued.recognizedText !== undefined) continue
+        let text: string
+        try {
+          text = await recognizer.recognize(this.readImageBuffer(queued))
+        } catch {
+          // Left unread, so the backfill at the next start tries again
+          continue
+        }
+        // Looked up again, since the item may have been deleted or the library locked meanwhile
+        const item = this.findItem(id)
+        if (!item) continue
+        item.recognizedText = text
+        this.saveLibrary()
+        if (item.pinned) {
+          this.notifyPinnedUpdated()
+        } else {
+          this.notifyHistoryUpdated()
+        }
+      }
+    } finally {
+      this.isRecognizing = false
+    }
+  }
+
+  // Puts the text read from an image on the clipboard, for pasting as text
+  copyRecognizedText(id: string, options: CopyOptions = {}) {
+    const item = this.findItem(id)
+    if (!item) {
+      throw new Error(`Clipboard item not found: ${id}`)
+    }
+    const text = item.recognizedText
+    if (!text) {
+      throw new Error(text === undefined ? 'The text in this image has not been read yet' : 'No text was found in this image')
+    }
+    this.writeAndPaste({ text }, 0, options.paste === false ? 'never' : 'auto')
+  }
+
+  private startClipboardMonitoring() {
+    this.watcher.start()
+    if (this.settings.get().capturePrimarySelection) {
+      this.selectionWatcher?.start()
+    }
+  }
+
+  // Records a copy the watcher picked up. While the paste stack is active, every copy that
+  // made it into the history joins the stack.
+  private captureCopy(record: () => void) {
+    const previousHead = this.clipboardHistory[0]
+    record()
+    this.collectIntoPasteStack(previousHead)
+  }
+
+  private collectIntoPasteStack(previousHead: ClipboardItem | undefined) {
+    const head = this.clipboardHistory[0]
+    if (this.pasteStack.isActive && head && head !== previousHead) {
+      this.pasteStack.push(head)
+      this.notifyPasteStack()
+    }
+  }
+
+  private stopClipboardMonitoring() {
+    this.watcher.stop()
+    this.selectionWatcher?.stop()
+  }
+
+  async showWindow() {
+    // Store the current active app before showing our window
+    await this.deps.paste.rememberTarget()
+    this.deps.window.show()
+    this.deps.window.send('clipboard-updated', this.clipboardHistory)
+    this.deps.window.send('pinned-updated', this.getPinnedState())
+  }
+
+  hideWindow() {
+    this.deps.window.hide()
+    // The user is heading back to other apps, where the next copy is likely to happen
+    this.watcher.wake()
+  }
+
+  toggleWindow() {
+    if (this.deps.window.isVisible()) {
+      this.hideWindow()
+    } else {
+      void this.showWindow()
+    }
+  }
+
+  // File dialogs take focus as well, so the window driver only reports blurs to other apps
+  handleWindowBlur() {
+    if (this.settings.get().hideOnBlur) {
+      this.hideWindow()
+    }
+  }
+
+  // Every clipboard write made by the app goes through here. The watcher is told about the new
+  // contents right away, so it does not record them as a new copy, and then the previous app
+  // takes over. `caretOffset` is how far from the end of the pasted text the caret should be left.
+  private writeAndPaste(content: WrittenContent, caretOffset = 0, paste: PasteMode = 'auto') {
+    try {
+      if ('image' in content) {
+        this.deps.clipboard.writeImage(content.image)
+      } else if ('files' in content) {
+        this.deps.clipboard.writeFiles(content.files)
+      } else {
+        this.deps.clipboard.write(content)
+      }
+    } finally {
+      this.watcher.markSeen(content)
+    }
+
+    this.hideWindow()
+
+    if (paste === 'always' || (paste === 'auto' && this.settings.get().autoPaste)) {
+      void this.pasteBack(caretOffset)
+    }
+  }
+
+  private async pasteBack(caretOffset: number) {
+    this.sendPasteFeedback(await this.deps.paste.paste(caretOffset))
+  }
+
+  copyItem(requested: ClipboardItem, options: CopyOptions = {}, paste: PasteMode = options.paste === false ? 'never' : 'auto') {
+    // The renderer only holds references for externalized items, so resolve the stored copy
+    const item = this.findItem(requested.id)
+    if (!item) {
+      throw new Error(`Clipboard item not found: ${requested.id}`)
+    }
+
+    if (item.template) {
+      // Expanded before anything is written, so a missing input leaves the clipboard untouched
+      const { text, cursorOffset } = expandTemplate(parseTemplate(this.readContent(item)), {
+        now: new Date(),
+        // The newest history item, which is what the picker shows at the top
+        clipboard: this.clipboardHistory[0] ? this.getPlainText(this.clipboardHistory[0]) : '',
+        inputs: options.inputs ?? {}
+      })
+      this.writeAndPaste({ text }, cursorOffset === null ? 0 : text.length - cursorOffset, paste)
+      this.markUsed(item)
+      return
+    }
+
+    this.writeAndPaste(this.writtenContentFor(item, options), 0, paste)
+    this.markUsed(item)
+  }
+
+  private writtenContentFor(item: ClipboardItem, options: CopyOptions): WrittenContent {
+    if (item.type === 'image') {
+      return { image: this.readImageBuffer(item) }
+    }
+    if (item.type === 'files' && !options.plainText) {
+      return { files: this.readContent(item).split('\n') }
+    }
+    if (options.plainText) {
+      return { text: this.getPlainText(item) }
+    }
+    // Every representation at once, so the target app can pick the richest it understands
+    const representations = this.readRepresentations(item)
+    return {
+      text: representations.text ?? this.getPlainText(item),
+      ...(representations.html ? { html: representations.html } : {}),
+      ...(representations.rtf ? { rtf: representations.rtf } : {}),
+      ...(item.type === 'url' && item.title ? { bookmark: item.title } : {})
+    }
+  }
+
+  // Feeds the picker's usage ranking; retention also evicts the least recently used items first
+  private markUsed(item: ClipboardItem) {
+    item.lastUsedAt = Date.now()
+    item.pasteCount = (item.pasteCount ?? 0) + 1
+    this.saveLibrary()
+    if (item.pinned) {
+      this.notifyPinnedUpdated()
+    } else {
+      this.notifyHistoryUpdated()
+    }
+  }
+
+  getTemplateInputs(id: string): string[] {
+    const item = this.findItem(id)
+    if (!item) {
+      throw new Error(`Clipboard item not found: ${id}`)
+    }
+    return item.template ? getTemplateInputs(parseTemplate(this.readContent(item))) : []
+  }
+
+  // Creates a snippet, or updates one when the draft carries an id. Snippets are always pinned.
+  saveSnippet(draft: SnippetDraft) {
+    const title = draft.title.trim()
+    if (!title) {
+      throw new Error('A snippet needs a name')
+    }
+    // Rejects malformed placeholders before they are stored
+    parseTemplate(draft.content)
+    if (draft.collectionId) {
+      this.findCollection(draft.collectionId)
+    }
+
+    const existing = draft.id ? this.pinnedItems.find(item => item.id === draft.id) : undefined
+    if (draft.id && !existing?.template) {
+      throw new Error(`Snippet not found: ${draft.id}`)
+    }
+
+    const contentHash = hashContent(draft.content)
+    const { preview, metadata } = describeCapture({ type: 'text', content: draft.content, alternates: {}, title })
+    const snippet = this.externalizeContent({
+      id: existing?.id ?? Date.now().toString(),
+      content: draft.content,
+      type: 'text',
+      timestamp: existing?.timestamp ?? Date.now(),
+      preview,
+      metadata,
+      pinned: true,
+      collectionId: draft.collectionId,
+      contentHash,
+      size: Buffer.byteLength(draft.content),
+      title,
+      template: true
+    })
+
+    if (existing) {
+      this.pinnedItems = this.pinnedItems.map(item => item.id === existing.id ? snippet : item)
+      this.collectGarbage()
+    } else {
+      this.pinnedItems.unshift(snippet)
+    }
+    this.saveLibrary()
+    this.notifyPinnedUpdated()
+    return this.getPinnedState()
+  }
+
+  transformAndCopy(id: string, transformId: string, options: TransformOptions = {}) {
+    const item = this.findItem(id)
+    if (!item) {
+      throw new Error(`Clipboard item not found: ${id}`)
+    }
+    if (item.type === 'image') {
+      throw new TransformError('Images cannot be transformed')
+    }
+
+    const transform = this.transforms.get(transformId)
+    const input = transform.input === 'markup' && item.type === 'html' ? this.readContent(item) : this.getPlainText(item)
+    const result = transform.apply(input)
+
+    // Recorded before the write, which the poller deliberately ignores
+    if (options.saveAsNew) {
+      this.addToHistory({ type: 'text', content: result, alternates: {} })
+    }
+    this.writeAndPaste({ text: result })
+  }
+
+  getPasteStackState(): PasteStackState {
+    return this.pasteStack.getState(this.settings.get().pasteStackOrder)
+  }
+
+  private notifyPasteStack() {
+    const state = this.getPasteStackState()
+    this.deps.window.setTrayTooltip(state.active ? `Clipboard Manager — ${state.items.length} left to paste` : 'Clipboard Manager')
+    this.deps.window.send('paste-stack-updated', state)
+  }
+
+  // Queues the given items, in the order they were selected, and hides the window so the
+  // user can move to the target app
+  startPasteStack(ids: string[]) {
+    const items = ids.map(id => this.findItem(id)).filter((item): item is ClipboardItem => !!item)
+    this.pasteStack.start(items)
+    this.notifyPasteStack()
+    if (items.length > 0) {
+      this.hideWindow()
+    }
+    return this.getPasteStackState()
+  }
+
+  stopPasteStack() {
+    this.pasteStack.stop()
+    this.notifyPasteStack()
+    return this.getPasteStackState()
+  }
+
+  // Runs from the paste stack shortcut, so the target app is already in front
+  async pasteNextFromStack() {
+    if (!this.pasteStack.isActive) return
+
+    const item = this.pasteStack.next(this.settings.get().pasteStackOrder)
+    if (!item) {
+      this.sendPasteFeedback({ success: false, message: 'The paste stack is empty' })
+      return
+    }
+    await this.deps.paste.rememberTarget()
+    try {
+      this.copyItem(item, {}, 'always')
+    } catch (error) {
+      this.sendPasteFeedback({ success: false, message: `Could not paste from the stack: ${error instanceof Error ? error.message : String(error)}` })
+    }
+    this.notifyPasteStack()
+  }
+
+  private sendPasteFeedback(feedback: PasteFeedback) {
+    this.deps.window.send('paste-feedback', feedback)
+  }
+
+  // Joins the plain text of several items, in the order given, and pastes the result
+  mergeAndCopy(ids: string[], options: MergeOptions) {
+    const items = ids.map(id => {
+      const item = this.findItem(id)
+      if (!item) {
+        throw new Error(`Clipboard item not found: ${id}`)
+      }
+      return item
+    })
+    if (items.some(item => item.type === 'image')) {
+      throw new MergeError('Images cannot be merged')
+    }
+
+    const result = mergeTexts(items.map(item => this.getPlainText(item)), options)
+
+    // Recorded before the write, which the poller deliberately ignores
+    if (options.saveAsNew) {
+      this.addToHistory({ type: 'text', content: result, alternates: {} })
+    }
+    this.writeAndPaste({ text: result })
+  }
+
+  // Only the rolling history is cleared; pinned items and collections are kept
+  clearHistory() {
+    this.clipboardHistory = []
+    this.saveLibrary()
+    this.collectGarbage()
+    this.notifyHistoryUpdated()
+    this.publish({ type: 'history-cleared' })
+    this.recordSync(() => [{ op: 'clear' }])
+  }
+
+  // Records text handed over by a script as if it had been copied
+  addTextItem(text: string): ClipboardItem | null {
+    if (typeof text !== 'string') {
+      throw new Error('Only text can be added')
+    }
+    if (this.isLocked()) {
+      throw new VaultError('LOCKED', 'Unlock the history first')
+    }
+    const captured = classifySnapshot({ text, html: '', rtf: '', files: [], bookmark: null })
+    const previousHead = this.clipboardHistory[0]
+    if (captured) {
+      this.addToHistory(captured, 'clip')
+    }
+    const head = this.clipboardHistory[0]
+    return head && head !== previousHead ? head : null
+  }
+
+  private syncKeyFor(item: ClipboardItem): string | null {
+    return item.contentHash ? syncKey(item.type, item.contentHash) : null
+  }
+
+  private toSyncItem(item: ClipboardItem): SyncItem {
+    const alternates = Object.fromEntries(
+      Object.keys(item.alternates ?? {})
+        .map(representation => [representation, this.readAlternate(item, representation as Representation)])
+        .filter(([, value]) => value !== undefined)
+    )
+    return {
+      type: item.type,
+      content: item.type === 'image' ? this.readImageBuffer(item).toString('base64') : this.readContent(item),
+      timestamp: item.timestamp,
+      preview: item.preview,
+      title: item.title,
+      sourceApp: item.sourceApp,
+      sensitive: item.sensitive,
+      template: item.template,
+      ...(Object.keys(alternates).length > 0 ? { alternates } : {})
+    }
+  }
+
+  // The log entries that share items, for those the settings let leave this machine
+  private syncAdds(items: ClipboardItem[]): SyncChange[] {
+    const exclude = this.settings.get().syncExclude
+    return items.filter(item => isSyncable(item, exclude)).flatMap(item => {
+      const key = this.syncKeyFor(item)
+      if (!key) return []
+      const add: SyncChange = { op: 'add', key, item: this.toSyncItem(item) }
+      return item.pinned ? [add, { op: 'pin', key, pinned: true }] : [add]
+    })
+  }
+
+  private syncReference(item: ClipboardItem | undefined, change: (key: string) => SyncChange): SyncChange[] {
+    const key = item && isSyncable(item, this.settings.get().syncExclude) ? this.syncKeyFor(item) : null
+    return key ? [change(key)] : []
+  }
+
+  // Appends local changes to this device's log. Items missed here, say while the folder was
+  // offline, are uploaded by the next sync; other changes are lost, and the logs win.
+  private recordSync(changes: () => SyncChange[]) {
+    if (!this.syncFolder || this.isLocked()) return
+    try {
+      this.syncFolder.append(changes())
+    } catch (error) {
+      this.syncError = error instanceof Error ? error.message : String(error)
+      this.deps.window.send('sync-status', this.getSyncStatus())
+    }
+  }
+
+  private fromSyncItem({ key, item, pinned }: SyncEntry, id: string): ClipboardItem {
+    const contentHash = key.slice(key.indexOf(':') + 1)
+    const base = {
+      id,
+      timestamp: item.timestamp,
+      contentHash,
+      preview: item.preview,
+      ...(item.title ? { title: item.title } : {}),
+      ...(item.sourceApp ? { sourceApp: item.sourceApp } : {}),
+      ...(item.sensitive ? { sensitive: item.sensitive } : {}),
+      ...(item.template ? { template: true } : {}),
+      ...(pinned ? { pinned: true } : {})
+    }
+    if (item.type === 'image') {
+      const png = Buffer.from(item.content, 'base64')
+      this.blobStore.put(contentHash, png)
+      return { ...base, type: 'image', content: '', blobId: contentHash, size: png.length, ...this.deps.clipboard.describeImage(png) }
+    }
+    const alternates = this.storeAlternates(item.alternates ?? {})
+    return this.externalizeContent({
+      ...base,
+      type: item.type,
+      content: item.content,
+      size: Buffer.byteLength(item.content),
+      ...(alternates ? { alternates } : {})
+    })
+  }
+
+  // Brings the library in line with the merged logs: items deleted or cleared elsewhere go,
+  // pins and re-copies carry over, and items from other devices come in as far as the retention
+  // settings allow. Items the settings keep local are left alone either way.
+  private applySyncState(state: SyncState, exclude: SyncCategory[]) {
+    const present = new Map(state.entries.map(entry => [entry.key, entry]))
+    const removed: ClipboardItem[] = []
+    let changed = false
+
+    const local = [...this.pinnedItems, ...this.clipboardHistory].flatMap(item => {
+      const key = this.syncKeyFor(item)
+      if (!key || !isSyncable(item, exclude) || !state.known.has(key)) return [item]
+      const entry = present.get(key)
+      if (!entry) {
+        removed.push(item)
+        return []
+      }
+      let next = item
+      if (entry.item.timestamp > item.timestamp) {
+        next = { ...next, timestamp: entry.item.timestamp }
+      }
+      if (entry.pinned && !item.pinned) {
+        next = { ...next, pinned: true, expiresAt: undefined }
+      } else if (!entry.pinned && item.pinned) {
+        next = { ...next }
+        delete next.pinned
+        delete next.collectionId
+      }
+      changed ||= next !== item
+      return [next]
+    })
+
+    const localKeys = new Set(local.map(item => this.syncKeyFor(item)))
+    const now = Date.now()
+    const added: ClipboardItem[] = []
+    const incoming = state.entries.filter(entry => !localKeys.has(entry.key) && isSyncable(entry.item, exclude))
+    // Items the retention settings would evict straight away are not worth fetching
+    const unwanted = new Set(selectEvictions([
+      ...local.filter(item => !item.pinned),
+      ...incoming.filter(entry => !entry.pinned).map(({ key, item }): ClipboardItem => ({
+        id: key,
+        type: item.type,
+        content: '',
+        timestamp: item.timestamp,
+        size: Buffer.byteLength(item.content, item.type === 'image' ? 'base64' : 'utf8')
+      }))
+    ], retentionPolicy(this.settings.get()), now).map(item => item.id))
+    for (const entry of incoming) {
+      if (unwanted.has(entry.key)) continue
+      added.push(this.fromSyncItem(entry, `${now}-${added.length}`))
+    }
+
+    if (!changed && removed.length === 0 && added.length === 0) return
+    const items = [...local, ...added]
+    this.pinnedItems = items.filter(item => item.pinned)
+    this.clipboardHistory = items.filter(item => !item.pinned).sort((a, b) => b.timestamp - a.timestamp)
+    this.enforceRetention()
+    this.saveLibrary()
+    this.collectGarbage()
+    this.notifyHistoryUpdated()
+    this.notifyPinnedUpdated()
+    removed.forEach(item => this.publish({ type: 'item-deleted', id: item.id }))
+    added.filter(item => !item.pinned).forEach(item => this.publish({ type: 'item-added', item }))
+    // Text read on the other device is not shared, so its images are read here too
+    this.queueRecognition(added)
+  }
+
+  // Uploads what the logs have not seen yet, then merges every device's log into the library
+  syncNow(): SyncStatus {
+    const folder = this.syncFolder
+    if (folder && !this.isLocked()) {
+      try {
+        const exclude = this.settings.get().syncExclude
+        let state = mergeRecords(folder.read())
+        const unseen = new Map<string, ClipboardItem>()
+        for (const item of [...this.pinnedItems, ...this.clipboardHistory]) {
+          const key = this.syncKeyFor(item)
+          if (key && !state.known.has(key) && !unseen.has(key)) {
+            unseen.set(key, item)
+          }
+        }
+        const changes = this.syncAdds([...unseen.values()])
+        if (changes.length > 0) {
+          folder.append(changes)
+          state = mergeRecords(folder.read())
+        }
+        this.applySyncState(state, exclude)
+        this.lastSync = Date.now()
+        this.syncError = null
+      } catch (error) {
+        this.syncError = error instanceof Error ? error.message : String(error)
+      }
+    }
+    const status = this.getSyncStatus()
+    this.deps.window.send('sync-status', status)
+    return status
+  }
+
+  private startSyncTimer() {
+    this.syncInterval ??= setInterval(() => this.syncNow(), SYNC_INTERVAL)
+  }
+
+  // Reopens the sync folder of an earlier session, when its key was kept
+  private openSync() {
+    const config = this.store.get('sync')
+    if (!config) return
+    if (config.wrappedKey && this.deps.keyProtector.isAvailable()) {
+      try {
+        const key = Buffer.from(this.deps.keyProtector.decrypt(Buffer.from(config.wrappedKey, 'base64')), 'base64')
+        this.syncFolder = new SyncFolder(config.folder, config.deviceId, key)
+      } catch {
+        this.syncError = 'The sync key could not be read; enter the sync passphrase again'
+      }
+    }
+    this.startSyncTimer()
+    this.syncNow()
+  }
+
+  // Joins a sync folder, setting it up when no device has used it yet. Also unlocks sync again
+  // when the key could not be kept.
+  enableSync(folder: string, passphrase: string): SyncStatus {
+    if (this.isLocked()) {
+      throw new VaultError('LOCKED', 'Unlock the history first')
+    }
+    const key = unlockSyncFolder(folder, passphrase)
+    const previous = this.store.get('sync')
+    // Rejoining the same folder continues the same log
+    const deviceId = previous?.folder === folder ? previous.deviceId : randomBytes(8).toString('hex')
+    const protector = this.deps.keyProtector
+    this.store.set({
+      sync: {
+        folder,
+        deviceId,
+        ...(protector.isAvailable() ? { wrappedKey: protector.encrypt(key.toString('base64')).toString('base64') } : {})
+      }
+    })
+    this.syncFolder = new SyncFolder(folder, deviceId, key)
+    this.syncError = null
+    this.startSyncTimer()
+    return this.syncNow()
+  }
+
+  // Stops syncing; the library keeps everything it has, and the folder keeps this device's log
+  disableSync(): SyncStatus {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval)
+      this.syncInterval = null
+    }
+    this.syncFolder = null
+    this.syncError = null
+    this.lastSync = null
+    this.store.delete('sync')
+    const status = this.getSyncStatus()
+    this.deps.window.send('sync-status', status)
+    return status
+  }
+
+  chooseSyncFolder(): Promise<string | null> {
+    return this.deps.window.showOpenDialog({ title: 'Choose a Sync Folder', filters: [], directory: true })
+  }
+
+  getSyncStatus(): SyncStatus {
+    const config = this.store.get('sync')
+    if (!config) {
+      return { enabled: false }
+    }
+    return {
+      enabled: true,
+      folder: config.folder,
+      ...(this.syncFolder ? { devices: this.syncFolder.devices().length } : { locked: true }),
+      ...(this.lastSync ? { lastSync: this.lastSync } : {}),
+      ...(this.syncError ? { error: this.syncError } : {})
+    }
+  }
+
+  // Starts or stops the scripting server to match the setting, or stops it for good on cleanup
+  private updateRpcServer(stop = false): Promise<void> {
+    this.rpcUpdate = this.rpcUpdate.then(() => this.applyScriptingAccess(stop))
+    return this.rpcUpdate
+  }
+
+  private async applyScriptingAccess(stop: boolean) {
+    const { rpcEndpoint } = this.deps
+    if (!rpcEndpoint) return
+    this.rpcServer ??= new RpcServer(rpcEndpoint, {
+      handlers: this.handlers,
+      access: () => this.settings.get().scriptingAccess
+    })
+    try {
+      if (stop || this.settings.get().scriptingAccess === 'off') {
+        await this.rpcServer.stop()
+      } else {
+        await this.rpcServer.start()
+      }
+      this.rpcError = null
+    } catch (error) {
+      this.rpcError = error instanceof Error ? error.message : String(error)
+    }
+    this.deps.window.send('scripting-status', this.getScriptingStatus())
+  }
+
+  // Created on first use and kept, so extensions stay paired across restarts
+  private getApiToken(): string {
+    let token = this.store.get('apiToken')
+    if (!token) {
+      token = randomBytes(24).toString('base64url')
+      this.store.set({ apiToken: token })
+    }
+    return token
+  }
+
+  // Revokes the current pairing: extensions need the new token, and open event streams close
+  resetApiToken(): HttpApiStatus {
+    this.store.set({ apiToken: randomBytes(24).toString('base64url') })
+    this.httpApi?.disconnectAll()
+    return this.getHttpApiStatus()
+  }
+
+  // Starts, restarts or stops the HTTP API to match the settings, or stops it for good on cleanup
+  private updateHttpApi(stop = false): Promise<void> {
+    this.httpApiUpdate = this.httpApiUpdate.then(() => this.applyHttpApiSettings(stop))
+    return this.httpApiUpdate
+  }
+
+  private async applyHttpApiSettings(stop: boolean) {
+    const { httpApi, httpApiPort } = this.settings.get()
+    try {
+      if (this.httpApi && (stop || !httpApi || this.httpApi.port !== httpApiPort)) {
+        const server = this.httpApi
+        this.httpApi = null
+        await server.stop()
+      }
+      if (!stop && httpApi && !this.httpApi) {
+        const server = new HttpApiServer({
+          handlers: this.handlers,
+          port: httpApiPort,
+          token: () => this.getApiToken(),
+          allowedOrigins: () => this.settings.get().httpApiOrigins
+        })
+        await server.start()
+        this.httpApi = server
+      }
+      this.httpApiError = null
+    } catch (error) {
+      this.httpApiError = error instanceof Error ? error.message : String(error)
+    }
+    if (!stop) {
+      this.deps.window.send('http-api-status', this.getHttpApiStatus())
+    }
+  }
+
+  getHttpApiStatus(): HttpApiStatus {
+    const port = this.httpApi?.port ?? null
+    return {
+      running: port !== null,
+      ...(port !== null ? { port } : {}),
+      ...(this.settings.get().httpApi ? { token: this.getApiToken() } : {}),
+      ...(this.httpApiError ? { error: this.httpApiError } : {})
+    }
+  }
+
+  getScriptingStatus(): ScriptingStatus {
+    return {
+      running: !!this.rpcServer?.isRunning,
+      ...(this.rpcServer?.isRunning ? { socketPath: this.deps.rpcEndpoint?.socketPath } : {}),
+      ...(this.rpcError ? { error: this.rpcError } : {})
+    }
+  }
+
+  // Everything registered here also serves the `clip` tool, as far as RPC_METHODS allows
+  setupIPC() {
+    const ipc = this.handlers
+    ipc.handle('get-clipboard-history', () => {
+      return this.clipboardHistory
+    })
+
+    ipc.handle('get-item-content', (_, id: string) => {
+      const item = this.findItem(id)
+      if (!item) {
+        throw new Error(`Clipboard item not found: ${id}`)
+      }
+      return this.readContent(item)
+    })
+
+    ipc.handle('get-item-detail', (_, id: string) => {
+      return this.getItemDetail(id)
+    })
+
+    ipc.handle('copy-to-clipboard', (_, requested: ClipboardItem, options: CopyOptions = {}) => {
+      this.copyItem(requested, options)
+    })
+
+    ipc.handle('get-template-inputs', (_, id: string) => {
+      return this.getTemplateInputs(id)
+    })
+
+    ipc.handle('save-snippet', (_, draft: SnippetDraft) => {
+      return this.saveSnippet(draft)
+    })
+
+    ipc.handle('get-paste-stack', () => {
+      return this.getPasteStackState()
+    })
+
+    ipc.handle('start-paste-stack', (_, ids: string[]) => {
+      return this.startPasteStack(ids)
+    })
+
+    ipc.handle('stop-paste-stack', () => {
+      return this.stopPasteStack()
+    })
+
+    ipc.handle('list-transforms', () => {
+      return this.transforms.list()
+    })
+
+    ipc.handle('copy-recognized-text', (_, id: string, options: CopyOptions = {}) => {
+      this.copyRecognizedText(id, options)
+    })
+
+    ipc.handle('transform-and-copy', (_, id: string, transformId: string, options: TransformOptions = {}) => {
+      this.transformAndCopy(id, transformId, options)
+    })
+
+    ipc.handle('merge-and-copy', (_, ids: string[], options: MergeOptions) => {
+      this.mergeAndCopy(ids, options)
+    })
+
+    ipc.handle('delete-clipboard-item', (_, id: string) => {
+      const deleted = this.findItem(id)
+      this.recordSync(() => this.syncReference(deleted, key => ({ op: 'delete', key })))
+      if (this.pinnedItems.some(item => item.id === id)) {
+        this.pinnedItems = this.pinnedItems.filter(item => item.id !== id)
+        this.notifyPinnedUpdated()
+      }
+      this.clipboardHistory = this.clipboardHistory.filter(item => item.id !== id)
+      this.saveLibrary()
+      this.collectGarbage()
+      this.publish({ type: 'item-deleted', id })
+      return this.clipboardHistory
+    })
+
+    ipc.handle('clear-clipboard-history', () => {
+      this.clearHistory()
+      return this.clipboardHistory
+    })
+
+    ipc.handle('search-history', (_, query: string) => {
+      return this.searchHistory(query)
+    })
+
+    ipc.handle('get-pinned-items', () => {
+      return this.getPinnedState()
+    })
+
+    ipc.handle('pin-clipboard-item', (_, id: string, collectionId?: string) => {
+      return this.pinItem(id, collectionId)
+    })
+
+    ipc.handle('unpin-clipboard-item', (_, id: string) => {
+      return this.unpinItem(id)
+    })
+
+    ipc.handle('create-collection', (_, name: string) => {
+      return this.createCollection(name)
+    })
+
+    ipc.handle('rename-collection', (_, collectionId: string, name: string) => {
+      return this.renameCollection(collectionId, name)
+    })
+
+    ipc.handle('delete-collection', (_, collectionId: string) => {
+      return this.deleteCollection(collectionId)
+    })
+
+    ipc.handle('move-item-to-collection', (_, id: string, collectionId: string | null) => {
+      return this.moveItemToCollection(id, collectionId)
+    })
+
+    ipc.handle('export-history', (_, format: ExportFormat, filter?: ExportFilter) => {
+      return this.exportHistory(format, filter)
+    })
+
+    ipc.handle('preview-import', () => {
+      return this.previewImport()
+    })
+
+    ipc.handle('apply-import', () => {
+      return this.applyImport()
+    })
+
+    ipc.handle('cancel-import', () => {
+      this.cancelImport()
+    })
+
+    ipc.handle('get-encryption-status', () => {
+      return this.getEncryptionStatus()
+    })
+
+    ipc.handle('unlock-history', (_, passphrase: string) => {
+      return this.unlockLibrary(passphrase)
+    })
+
+    ipc.handle('lock-history', () => {
+      return this.lockLibrary()
+    })
+
+    ipc.handle('enable-encryption', (_, keySource: KeySource, passphrase?: string) => {
+      return this.enableEncryption(keySource, passphrase)
+    })
+
+    ipc.handle('disable-encryption', (_, passphrase?: string) => {
+      return this.disableEncryption(passphrase)
+    })
+
+    ipc.handle('reset-encrypted-history', () => {
+      return this.resetEncryptedLibrary()
+    })
+
+    ipc.handle('hide-window', () => {
+      this.hideWindow()
+    })
+
+    ipc.handle('get-paste-capability', () => {
+      return this.deps.paste.capability()
+    })
+
+    ipc.handle('get-auto-paste-setting', () => {
+      return this.settings.get().autoPaste
+    })
+
+    ipc.handle('set-auto-paste-setting', (_, enabled: boolean) => {
+      return this.updateSettings({ autoPaste: enabled }).autoPaste
+    })
+
+    ipc.handle('add-text-item', (_, text: string) => {
+      return this.addTextItem(text)
+    })
+
+    ipc.handle('get-scripting-status', () => {
+      return this.getScriptingStatus()
+    })
+
+    ipc.handle('get-http-api-status', () => {
+      return this.getHttpApiStatus()
+    })
+
+    ipc.handle('reset-http-api-token', () => {
+      return this.resetApiToken()
+    })
+
+    ipc.handle('get-sync-status', () => {
+      return this.getSyncStatus()
+    })
+
+    ipc.handle('enable-sync', (_, folder: string, passphrase: string) => {
+      return this.enableSync(folder, passphrase)
+    })
+
+    ipc.handle('disable-sync', () => {
+      return this.disableSync()
+    })
+
+    ipc.handle('sync-now', () => {
+      return this.syncNow()
+    })
+
+    ipc.handle('choose-sync-folder', () => {
+      return this.chooseSyncFolder()
+    })
+
+    ipc.handle('get-storage-usage', () => {
+      return this.getStorageUsage()
+    })
+
+    ipc.handle('compact-history', () => {
+      return this.compactHistory()
+    })
+
+    ipc.handle('get-settings', () => {
+      return this.settings.get()
+    })
+
+    ipc.handle('update-settings', (_, patch: Partial<Settings>) => {
+      return this.updateSettings(patch)
+    })
+  }
+
+  private get shortcutActions(): Record<ShortcutSetting, () => void> {
+    return {
+      globalShortcut: () => this.toggleWindow(),
+      pasteStackShortcut: () => this.pasteNextFromStack()
+    }
+  }
+
+  setupGlobalShortcuts() {
+    const settings = this.settings.get()
+    for (const [key, action] of Object.entries(this.shortcutActions) as [ShortcutSetting, () => void][]) {
+      this.deps.shortcuts.register(settings[key], action)
+    }
+  }
+
+  updateSettings(patch: Partial<Settings>) {
+    validateSettings(patch)
+    const current = this.settings.get()
+    // Claim new shortcuts before persisting them, so a taken combination is reported instead of silently lost
+    const claimed: ShortcutSetting[] = []
+    for (const [key, action] of Object.entries(this.shortcutActions) as [ShortcutSetting, () => void][]) {
+      const accelerator = patch[key]
+      if (!accelerator || accelerator === current[key]) continue
+      let registered = false
+      try {
+        registered = this.deps.shortcuts.register(accelerator, action)
+      } catch {
+        registered = false
+      }
+      if (!registered) {
+        claimed.forEach(claimedKey => this.deps.shortcuts.unregister(patch[claimedKey]!))
+        throw new SettingsError(`The shortcut ${accelerator} is not available`)
+      }
+      claimed.push(key)
+    }
+    if (patch.launchAtLogin !== undefined && patch.launchAtLogin !== current.launchAtLogin) {
+      try {
+        this.deps.autostart?.setEnabled(patch.launchAtLogin)
+      } catch (error) {
+        claimed.forEach(key => this.deps.shortcuts.unregister(patch[key]!))
+        throw new SettingsError(`Could not change the login item: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+    claimed.forEach(key => this.deps.shortcuts.unregister(current[key]))
+    return this.settings.update(patch)
+  }
+
+  private applySettings(settings: Settings, previous: Settings) {
+    if (settings.maxHistoryItems !== previous.maxHistoryItems ||
+        settings.maxHistoryMegabytes !== previous.maxHistoryMegabytes ||
+        settings.maxAgeDays !== previous.maxAgeDays ||
+        JSON.stringify(settings.typeLimits) !== JSON.stringify(previous.typeLimits)) {
+      this.compactHistory()
+    }
+
+    if (settings.pasteStackOrder !== previous.pasteStackOrder) {
+      this.notifyPasteStack()
+    }
+
+    if (settings.pollInterval !== previous.pollInterval) {
+      this.watcher.wake()
+      this.selectionWatcher?.wake()
+    }
+
+    if (settings.scriptingAccess !== previous.scriptingAccess) {
+      void this.updateRpcServer()
+    }
+
+    if (settings.httpApi !== previous.httpApi || settings.httpApiPort !== previous.httpApiPort) {
+      void this.updateHttpApi()
+    }
+
+    if (settings.syncExclude.join() !== previous.syncExclude.join()) {
+      this.syncNow()
+    }
+
+    if (settings.recognizeImageText !== previous.recognizeImageText) {
+      if (settings.recognizeImageText) {
+        this.backfillRecognition()
+      } else {
+        this.recognitionQueue = []
+      }
+    }
+
+    if (settings.capturePrimarySelection !== previous.capturePrimarySelection) {
+      if (settings.capturePrimarySelection) {
+        this.selectionWatcher?.start()
+      } else {
+        this.selectionWatcher?.stop()
+      }
+    }
+
+    if (settings.windowWidth !== previous.windowWidth || settings.windowHeight !== previous.windowHeight) {
+      this.deps.window.setSize(settings.windowWidth, settings.windowHeight)
+    }
+
+    this.deps.window.send('settings-updated', settings)
+  }
+
+  // The login entry records where the app lives, so an enabled one is rewritten at every start in
+  // case the app was moved. An entry the user added outside the app is left alone.
+  private refreshAutostart() {
+    if (!this.settings.get().launchAtLogin) return
+    try {
+      this.deps.autostart?.setEnabled(true)
+    } catch {
+      // The old entry stays; the next start tries again
+    }
+  }
+
+  init() {
+    this.openLibrary()
+    this.migrateInlineContent()
+    this.expireItems()
+    this.expiryInterval = setInterval(() => this.expireItems(), 30 * 1000)
+    this.compactHistory()
+    this.compactionInterval = setInterval(() => this.compactHistory(), COMPACTION_INTERVAL)
+    this.setupIPC()
+    this.setupGlobalShortcuts()
+    this.refreshAutostart()
+    this.openSync()
+    this.startClipboardMonitoring()
+    this.backfillRecognition()
+    void this.updateRpcServer()
+    void this.updateHttpApi()
+  }
+
+  cleanup() {
+    this.stopClipboardMonitoring()
+    this.recognitionQueue = []
+    void this.deps.textRecognizer?.stop()
+    void this.updateRpcServer(true)
+    void this.updateHttpApi(true)
+    if (this.expiryInterval) {
+      clearInterval(this.expiryInterval)
+      this.expiryInterval = null
+    }
+    if (this.compactionInterval) {
+      clearInterval(this.compactionInterval)
+      this.compactionInterval = null
+    }
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval)
+      this.syncInterval = null
+    }
+    this.deps.shortcuts.unregisterAll()
+  }
+}
@@ -0,0 +1,42 @@
+import { execFile, execFileSync } from 'child_process'
+import { accessSync, constants } from 'fs'
+import { delimiter, join } from 'path'
+
+const COMMAND_TIMEOUT = 5000
+
+// Runs a program directly, never through a shell, so arguments cannot be reinterpreted.
+// Resolves to the trimmed standard output; rejects with the program's error output.
+export interface CommandRunner {
+  run(command: string, args: string[]): Promise<string>
+  runSync(command: string, args: string[]): string
+}
+
+export const systemRunner: CommandRunner = {
+  run: (command, args) => new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: COMMAND_TIMEOUT, encoding: 'utf8' }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(stderr.trim() || error.message))
+      } else {
+        resolve(stdout.trim())
+      }
+    })
+  }),
+  runSync: (command, args) =>
+    execFileSync(command, args, { timeout: COMMAND_TIMEOUT, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim()
+}
+
+// Whether a program can be found on the PATH, without running it
+export function findExecutable(name: string, env: NodeJS.ProcessEnv = process.env, platform: NodeJS.Platform = process.platform): boolean {
+  const extensions = platform === 'win32' ? (env.PATHEXT ?? '.EXE;.CMD;.BAT').split(';') : ['']
+  for (const dir of (env.PATH ?? '').split(delimiter).filter(Boolean)) {
+    for (const extension of extensions) {
+      try {
+        accessSync(join(dir, name + extension), constants.X_OK)
+        return true
+      } catch {
+        // Not in this directory
+      }
+    }
+  }
+  return false
+}
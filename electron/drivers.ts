@@ -0,0 +1,99 @@
+import type { ClipboardSource } from './watcher'
+import type { ClipboardItem, Collection, PasteCapability, PasteFeedback } from './types'
+import type { StoredSettings } from './settings'
+
+// Everything ClipboardManager needs from the outside world. main.ts wires these to Electron and
+// the operating system; the test harness wires them to in-memory fakes.
+
+export interface ClipboardDriver extends ClipboardSource {
+  readText(): string
+  writeText(text: string): void
+  // Writes every representation at once, so the target app can pick the richest it understands
+  write(data: { text: string, html?: string, rtf?: string, bookmark?: string }): void
+  writeImage(png: Buffer): void
+  writeFiles(paths: string[]): void
+  // Size and thumbnail of a stored PNG, for images that did not come from the clipboard
+  describeImage(png: Buffer): { width: number, height: number, thumbnail?: string } | null
+}
+
+export interface StoreSchema {
+  history: ClipboardItem[]
+  pinned: ClipboardItem[]
+  collections: Collection[]
+  settings?: StoredSettings
+  // Pairing token of the HTTP API, kept across restarts so paired extensions stay paired
+  apiToken?: string
+  sync?: SyncConfig
+  // Legacy top-level flag, migrated into `settings`
+  autoPaste?: boolean
+}
+
+// Where this device syncs its history to. The folder key is kept wrapped by the OS key store when
+// there is one; otherwise the passphrase is asked for again after every restart.
+export interface SyncConfig {
+  folder: string
+  deviceId: string
+  wrappedKey?: string
+}
+
+export interface AppStore {
+  get<K extends keyof StoreSchema>(key: K): StoreSchema[K]
+  set(values: Partial<StoreSchema>): void
+  delete(key: keyof StoreSchema): void
+}
+
+export interface FileFilter {
+  name: string
+  extensions: string[]
+}
+
+export interface WindowDriver {
+  isVisible(): boolean
+  // Shows and focuses the window
+  show(): void
+  hide(): void
+  setSize(width: number, height: number): void
+  send(channel: string, payload: unknown): void
+  setTrayTooltip(text: string): void
+  // File dialogs resolve to the chosen path, or null when cancelled
+  showSaveDialog(options: { title: string, defaultName: string, filters: FileFilter[] }): Promise<string | null>
+  // `directory` picks a folder instead of a file
+  showOpenDialog(options: { title: string, filters: FileFilter[], directory?: boolean }): Promise<string | null>
+}
+
+export interface PasteDriver {
+  // Short name of the mechanism, shown in feedback and preferences
+  readonly name: string
+  capability(): PasteCapability
+  // Remembers the app in front, which the next paste returns to. Resolves once it is known.
+  rememberTarget(): Promise<void>
+  // Sends the paste keystroke to the remembered app, then moves the caret `caretOffset` characters
+  // left. Never rejects; failures are reported in the feedback.
+  paste(caretOffset: number): Promise<PasteFeedback>
+}
+
+export interface ShortcutRegistry {
+  register(accelerator: string, callback: () => void): boolean
+  unregister(accelerator: string): void
+  unregisterAll(): void
+}
+
+export interface IpcRegistrar {
+  // Handlers declare their own argument types, which the registrar cannot check
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  handle(channel: string, listener: (event: unknown, ...args: any[]) => unknown): void
+}
+
+// Starts the app when the user logs in
+export interface AutostartDriver {
+  isEnabled(): boolean
+  setEnabled(enabled: boolean): void
+}
+
+// Reads the text in an image, off the main thread. Resolves to an empty string when the image
+// holds no legible text.
+export interface TextRecognizer {
+  recognize(png: Buffer): Promise<string>
+  // Ends the worker; the next image starts a new one
+  stop(): Promise<void>
+}
@@ -0,0 +1,76 @@
+import { nativeImage, type Clipboard, type NativeImage } from 'electron'
+import { hashContent } from './blobStore'
+import type { ClipboardDriver } from './drivers'
+import { readFileList, readSnapshot, writeFileList } from './formats'
+import { fingerprint, type ClipboardImage } from './watcher'
+
+const THUMBNAIL_WIDTH = 240
+
+export function createThumbnail(image: NativeImage): string {
+  const { width } = image.getSize()
+  return image.resize({ width: Math.min(width, THUMBNAIL_WIDTH), quality: 'good' }).toDataURL()
+}
+
+// The image bytes as offered, for the change token. Where the platform names its image formats
+// differently from what availableFormats reports, nothing comes back and the decoded image is
+// sampled instead, which costs a decode but still no hashing of the whole bitmap.
+function imageFingerprint(clipboard: Clipboard, format: string): string {
+  const offered = clipboard.readBuffer(format)
+  if (offered.length > 0) {
+    return fingerprint(offered)
+  }
+  const image = clipboard.readImage()
+  const { width, height } = image.getSize()
+  return `${width}x${height}:${fingerprint(image.toBitmap())}`
+}
+
+// Reads and writes the system clipboard through Electron. Electron exposes no change counter or
+// sequence number, so the token is built from the format list, the file list and fingerprints of
+// the plain text and of the image: a fixed amount of work per poll, whatever was copied. HTML and
+// RTF come with their plain text, so a change shows there. Full payloads are only read and hashed
+// by the watcher once the token has changed.
+export function createElectronClipboard(clipboard: Clipboard): ClipboardDriver {
+  return {
+    formats: () => clipboard.availableFormats(),
+
+    changeToken: formats => {
+      const parts = [formats.join(','), fingerprint(clipboard.readText()), readFileList(clipboard).join('\n')]
+      const imageFormat = formats.find(format => format.startsWith('image/'))
+      if (imageFormat) {
+        parts.push(imageFingerprint(clipboard, imageFormat))
+      }
+      return parts.join('\0')
+    },
+
+    readSnapshot: () => readSnapshot(clipboard),
+
+    readImage: (): ClipboardImage | null => {
+      const image = clipboard.readImage()
+      if (image.isEmpty()) {
+        return null
+      }
+      const png = image.toPNG()
+      return {
+        png,
+        hash: hashContent(png),
+        ...image.getSize(),
+        createThumbnail: () => createThumbnail(image)
+      }
+    },
+
+    readText: () => clipboard.readText(),
+
+    writeText: text => clipboard.writeText(text),
+
+    write: data => clipboard.write(data),
+
+    writeImage: png => clipboard.writeImage(nativeImage.createFromBuffer(png)),
+
+    writeFiles: paths => writeFileList(clipboard, paths),
+
+    describeImage: png => {
+      const image = nativeImage.createFromBuffer(png)
+      return image.isEmpty() ? null : { ...image.getSize(), thumbnail: createThumbnail(image) }
+    }
+  }
+}
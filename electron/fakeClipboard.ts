@@ -0,0 +1,101 @@
+import { hashContent } from './blobStore'
+import type { ClipboardDriver } from './drivers'
+import { EMPTY_SNAPSHOT, type ClipboardSnapshot } from './formats'
+import type { ClipboardImage } from './watcher'
+
+interface FakeImage {
+  png: Buffer
+  width: number
+  height: number
+}
+
+// An in-memory clipboard with a sequence number, for driving the watcher and the manager from
+// tests. Every copy or write replaces the contents and bumps the sequence, like a native pasteboard.
+// `copy` plays the user copying in another app; the ClipboardDriver methods are what the app does.
+export class FakeClipboard implements ClipboardDriver {
+  private snapshot: ClipboardSnapshot = { ...EMPTY_SNAPSHOT }
+  private image: FakeImage | null = null
+  private extraFormats: string[] = []
+  private sequence = 0
+  // Sizes of every image seen, since fake PNGs cannot be decoded
+  private imageSizes = new Map<string, { width: number, height: number }>()
+  // How often the full payloads were read, to check that idle ticks stay cheap
+  readonly reads = { snapshot: 0, image: 0 }
+
+  copy(contents: Partial<ClipboardSnapshot> & { image?: FakeImage, formats?: string[] }) {
+    const { image, formats, ...snapshot } = contents
+    this.snapshot = { ...EMPTY_SNAPSHOT, ...snapshot }
+    this.image = image ?? null
+    this.extraFormats = formats ?? []
+    this.sequence++
+    if (image) {
+      this.imageSizes.set(hashContent(image.png), { width: image.width, height: image.height })
+    }
+  }
+
+  copyText(text: string) {
+    this.copy({ text })
+  }
+
+  clear() {
+    this.copy({})
+  }
+
+  formats(): string[] {
+    const formats = [...this.extraFormats]
+    if (this.snapshot.text) formats.push('text/plain')
+    if (this.snapshot.html) formats.push('text/html')
+    if (this.snapshot.rtf) formats.push('text/rtf')
+    if (this.image) formats.push('image/png')
+    return formats
+  }
+
+  changeToken(): string {
+    return String(this.sequence)
+  }
+
+  readSnapshot(): ClipboardSnapshot {
+    this.reads.snapshot++
+    return { ...this.snapshot, files: [...this.snapshot.files] }
+  }
+
+  readImage(): ClipboardImage | null {
+    this.reads.image++
+    if (!this.image) {
+      return null
+    }
+    const { png, width, height } = this.image
+    return { png, hash: hashContent(png), width, height, createThumbnail: () => `data:image/png;base64,${png.toString('base64')}` }
+  }
+
+  readText(): string {
+    return this.snapshot.text
+  }
+
+  writeText(text: string) {
+    this.copy({ text })
+  }
+
+  write(data: { text: string, html?: string, rtf?: string, bookmark?: string }) {
+    this.copy({
+      text: data.text,
+      html: data.html ?? '',
+      rtf: data.rtf ?? '',
+      bookmark: data.bookmark ? { title: data.bookmark, url: data.text } : null
+    })
+  }
+
+  writeImage(png: Buffer) {
+    const size = this.imageSizes.get(hashContent(png)) ?? { width: 0, height: 0 }
+    this.copy({ image: { png, ...size } })
+  }
+
+  writeFiles(paths: string[]) {
+    this.copy({ files: paths })
+  }
+
+  describeImage(png: Buffer) {
+    const size = this.imageSizes.get(hashContent(png))
+    return size ? { ...size, thumbnail: `data:image/png;base64,${png.toString('base64')}` } : null
+  }
+}
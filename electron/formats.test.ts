@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { classifySnapshot, EMPTY_SNAPSHOT, isActualHtml, toPlainTextCapture, type ClipboardSnapshot } from './formats'
+
+const snapshot = (values: Partial<ClipboardSnapshot>): ClipboardSnapshot => ({ ...EMPTY_SNAPSHOT, ...values })
+
+describe('classifySnapshot', () => {
+  it('prefers copied files over everything else', () => {
+    expect(classifySnapshot(snapshot({ files: ['/a/one.txt', '/b/two.txt'], text: 'one.txt' })))
+      .toEqual({ type: 'files', content: '/a/one.txt\n/b/two.txt', alternates: {} })
+  })
+
+  it('takes links from a bookmark, with its title, or from text that is only a URL', () => {
+    expect(classifySnapshot(snapshot({
+      text: 'https://example.com/docs',
+      bookmark: { title: 'Example docs', url: 'https://example.com/docs' }
+    }))).toEqual({ type: 'url', content: 'https://example.com/docs', alternates: {}, title: 'Example docs' })
+
+    expect(classifySnapshot(snapshot({ text: '  https://example.com/a?b=c  ' })))
+      .toEqual({ type: 'url', content: 'https://example.com/a?b=c', alternates: { text: '  https://example.com/a?b=c  ' }, title: undefined })
+    expect(classifySnapshot(snapshot({ text: 'see https://example.com' }))?.type).toBe('text')
+  })
+
+  it('keeps HTML that is really plain text as text', () => {
+    expect(classifySnapshot(snapshot({ text: 'plain', html: '<span>plain</span>' })))
+      .toEqual({ type: 'text', content: 'plain', alternates: {} })
+    expect(classifySnapshot(snapshot({ text: 'Title body', html: '<h1>Title</h1><p>body</p>' })))
+      .toEqual({ type: 'html', content: '<h1>Title</h1><p>body</p>', alternates: { text: 'Title body' } })
+  })
+
+  it('falls back to RTF, then to nothing for an empty clipboard', () => {
+    expect(classifySnapshot(snapshot({ text: 'Hi', rtf: '{\\rtf1 Hi}' })))
+      .toEqual({ type: 'rtf', content: '{\\rtf1 Hi}', alternates: { text: 'Hi' } })
+    expect(classifySnapshot(EMPTY_SNAPSHOT)).toBeNull()
+  })
+})
+
+describe('isActualHtml', () => {
+  it('needs more than a wrapper around the text', () => {
+    expect(isActualHtml('', 'a')).toBe(false)
+    expect(isActualHtml('a < b > c', 'a < b > c')).toBe(false)
+    expect(isActualHtml('<span>a</span>', 'a')).toBe(false)
+    expect(isActualHtml('<p>a</p><p>b</p>', 'a\nb')).toBe(true)
+  })
+})
+
+describe('toPlainTextCapture', () => {
+  it('reduces rich captures to their plain text', () => {
+    expect(toPlainTextCapture({ type: 'html', content: '<p>x</p><p>y</p>', alternates: { text: 'x y' } }))
+      .toEqual({ type: 'text', content: 'x y', alternates: {} })
+    expect(toPlainTextCapture({ type: 'rtf', content: '{\\rtf1 caf\\\'e9}', alternates: {} }))
+      .toEqual({ type: 'text', content: 'café', alternates: {} })
+  })
+})
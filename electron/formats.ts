@@ -0,0 +1,161 @@
+import type { Clipboard } from 'electron'
+import { fileURLToPath, pathToFileURL } from 'url'
+import { hashContent } from './blobStore'
+import { stripHtml } from './html'
+import { rtfToText } from './rtf'
+import type { ClipboardItem, Representation } from './types'
+
+// Everything the clipboard offered at one point in time, apart from images
+export interface ClipboardSnapshot {
+  text: string
+  html: string
+  rtf: string
+  files: string[]
+  bookmark: { title: string, url: string } | null
+}
+
+export const EMPTY_SNAPSHOT: ClipboardSnapshot = { text: '', html: '', rtf: '', files: [], bookmark: null }
+
+// A snapshot reduced to the item it becomes: the primary payload plus the other representations
+export interface CapturedContent {
+  type: Exclude<ClipboardItem['type'], 'image'>
+  content: string
+  alternates: Partial<Record<Representation, string>>
+  title?: string
+}
+
+const URL_PATTERN = /^https?:\/\/[^\s]+$/i
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function encodeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function pathsFromUriList(list: string): string[] {
+  return list
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.startsWith('file://'))
+    .map(line => fileURLToPath(line))
+}
+
+// Each platform exposes copied files through a different native format
+export function readFileList(clipboard: Clipboard): string[] {
+  try {
+    if (process.platform === 'darwin') {
+      const plist = clipboard.read('NSFilenamesPboardType')
+      if (plist) {
+        return Array.from(plist.matchAll(/<string>([^<]*)<\/string>/g), match => decodeXml(match[1]))
+      }
+      const fileUrl = clipboard.read('public.file-url')
+      return fileUrl ? [fileURLToPath(fileUrl)] : []
+    }
+    if (process.platform === 'win32') {
+      // Electron does not expose CF_HDROP, so only the first of several files is available
+      const path = clipboard.readBuffer('FileNameW').toString('utf16le').replace(/\0+$/, '')
+      return path ? [path] : []
+    }
+    const gnomeFiles = clipboard.read('x-special/gnome-copied-files')
+    return pathsFromUriList(gnomeFiles || clipboard.read('text/uri-list'))
+  } catch {
+    return []
+  }
+}
+
+export function writeFileList(clipboard: Clipboard, paths: string[]) {
+  if (process.platform === 'darwin') {
+    const plist = '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">\n' +
+      `<plist version="1.0"><array>${paths.map(path => `<string>${encodeXml(path)}</string>`).join('')}</array></plist>`
+    clipboard.writeBuffer('NSFilenamesPboardType', Buffer.from(plist))
+  } else if (process.platform === 'win32') {
+    clipboard.writeBuffer('FileNameW', Buffer.from(`${paths[0]}\0`, 'utf16le'))
+  } else {
+    clipboard.writeBuffer('text/uri-list', Buffer.from(paths.map(path => pathToFileURL(path).href).join('\r\n')))
+  }
+}
+
+export function readSnapshot(clipboard: Clipboard): ClipboardSnapshot {
+  // Bookmarks are a macOS and Windows concept; elsewhere readBookmark is not implemented
+  const bookmark = process.platform === 'darwin' || process.platform === 'win32' ? clipboard.readBookmark() : null
+  return {
+    text: clipboard.readText(),
+    html: clipboard.readHTML(),
+    rtf: clipboard.readRTF(),
+    files: readFileList(clipboard),
+    bookmark: bookmark?.url ? bookmark : null
+  }
+}
+
+export function snapshotSignature(snapshot: ClipboardSnapshot): string {
+  return hashContent(JSON.stringify(snapshot))
+}
+
+// Many apps put a bare HTML wrapper next to plain text; only treat it as HTML when it carries markup
+export function isActualHtml(html: string, text: string): boolean {
+  return !!html &&
+    !!html.trim() &&
+    html !== text &&
+    html.includes('<') &&
+    html.includes('>') &&
+    (html.match(/<[^>]+>/g) || []).length > 2
+}
+
+export function isUrl(text: string): boolean {
+  if (!URL_PATTERN.test(text)) return false
+  try {
+    new URL(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Picks the most specific type for a snapshot. Files win, then links, then rich formats over plain text.
+export function classifySnapshot(snapshot: ClipboardSnapshot): CapturedContent | null {
+  if (snapshot.files.length > 0) {
+    return { type: 'files', content: snapshot.files.join('\n'), alternates: {} }
+  }
+
+  const alternates: Partial<Record<Representation, string>> = {}
+  if (snapshot.text) alternates.text = snapshot.text
+  if (isActualHtml(snapshot.html, snapshot.text)) alternates.html = snapshot.html
+  if (snapshot.rtf) alternates.rtf = snapshot.rtf
+
+  const trimmedText = snapshot.text.trim()
+  const url = snapshot.bookmark?.url || (isUrl(trimmedText) ? trimmedText : '')
+  if (url) {
+    if (alternates.text === url) delete alternates.text
+    return { type: 'url', content: url, alternates, title: snapshot.bookmark?.title || undefined }
+  }
+
+  const primary: Representation | null = alternates.html ? 'html' : alternates.rtf ? 'rtf' : alternates.text ? 'text' : null
+  if (!primary) {
+    return null
+  }
+  const content = alternates[primary]!
+  delete alternates[primary]
+  return { type: primary, content, alternates }
+}
+
+// Reduces a capture to its plain text, dropping markup and the other representations
+export function toPlainTextCapture(captured: CapturedContent): CapturedContent {
+  switch (captured.type) {
+    case 'html':
+      return { type: 'text', content: captured.alternates.text ?? stripHtml(captured.content), alternates: {} }
+    case 'rtf':
+      return { type: 'text', content: captured.alternates.text ?? rtfToText(captured.content), alternates: {} }
+    case 'files':
+      return { type: 'text', content: captured.content, alternates: {} }
+    default:
+      return { ...captured, alternates: {} }
+  }
+}
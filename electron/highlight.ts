@@ -0,0 +1,230 @@
+import type { CodeLanguage, HighlightToken } from './types'
+
+// A small syntax highlighter for the detail pane. Each language is a list of token rules tried in
+// order at every position; it does not parse, so it colours the common cases and leaves the rest
+// plain. Detection scores a handful of telltale constructs per language.
+
+type TokenKind = NonNullable<HighlightToken['kind']>
+
+interface Rule {
+  kind: TokenKind
+  // Sticky, so it only matches at the position being looked at
+  pattern: RegExp
+}
+
+// Longer inputs are shown without colours, since tokenizing them would hold up the pane
+const MAX_HIGHLIGHTED_LENGTH = 100 * 1024
+
+const rule = (kind: TokenKind, source: string | RegExp, flags = ''): Rule => ({
+  kind,
+  pattern: new RegExp(typeof source === 'string' ? source : source.source, `y${flags}`)
+})
+
+const words = (list: string) => `\\b(?:${list.trim().split(/\s+/).join('|')})\\b`
+
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"?/
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'?/
+const BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/
+const NUMBER = /\b(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)\b/
+
+const RULES: Record<CodeLanguage, Rule[]> = {
+  javascript: [
+    rule('comment', /\/\/[^\n]*/),
+    rule('comment', BLOCK_COMMENT),
+    rule('string', DOUBLE_QUOTED),
+    rule('string', SINGLE_QUOTED),
+    rule('string', /`(?:[^`\\]|\\[\s\S])*`?/),
+    rule('number', NUMBER, 'i'),
+    rule('keyword', words(`
+      as async await break case catch class const continue debugger default delete do else enum export extends
+      finally for from function if implements import in instanceof interface let new of private protected public
+      readonly return static super switch throw try type typeof var void while yield`)),
+    rule('literal', words('true false null undefined this NaN Infinity')),
+    rule('operator', /=>|[=!]==?|&&|\|\||\?\?|[-+*/%<>]=?/)
+  ],
+  python: [
+    rule('comment', /#[^\n]*/),
+    rule('string', /[rbfu]{0,2}(?:"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$))/, 'i'),
+    rule('string', new RegExp(`[rbfu]{0,2}(?:${DOUBLE_QUOTED.source}|${SINGLE_QUOTED.source})`), 'i'),
+    rule('number', NUMBER, 'i'),
+    rule('keyword', words(`
+      and as assert async await break class continue def del elif else except finally for from global if import
+      in is lambda nonlocal not or pass raise return try while with yield`)),
+    rule('literal', words('True False None self cls')),
+    rule('attribute', /@[\w.]+/),
+    rule('operator', /[-+*/%<>=!]=?|->/)
+  ],
+  json: [
+    rule('attribute', new RegExp(`${DOUBLE_QUOTED.source}(?=\\s*:)`)),
+    rule('string', DOUBLE_QUOTED),
+    rule('number', /-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/, 'i'),
+    rule('literal', words('true false null'))
+  ],
+  shell: [
+    rule('comment', /(?:^|(?<=\s))#[^\n]*/),
+    rule('string', DOUBLE_QUOTED),
+    rule('string', SINGLE_QUOTED),
+    rule('attribute', /\$(?:\{[^}\n]*\}?|\w+|[@#?$!*])/),
+    rule('keyword', words(`
+      if then else elif fi for in do done case esac while until function return local export readonly
+      declare source alias`)),
+    rule('operator', /&&|\|\||[|&;]|[<>]{1,2}/)
+  ],
+  sql: [
+    rule('comment', /--[^\n]*/),
+    rule('comment', BLOCK_COMMENT),
+    rule('string', SINGLE_QUOTED),
+    rule('attribute', DOUBLE_QUOTED),
+    rule('number', NUMBER, 'i'),
+    rule('keyword', words(`
+      select from where and or not insert into values update set delete create alter drop table index view
+      join inner left right outer full on group by order having limit offset as distinct union all case when
+      then else end in is like between exists primary key foreign references default unique begin commit
+      rollback with returning`), 'i'),
+    rule('literal', words('null true false'), 'i'),
+    rule('operator', /[<>!=]=?|<>|\|\|/)
+  ],
+  css: [
+    rule('comment', BLOCK_COMMENT),
+    rule('string', DOUBLE_QUOTED),
+    rule('string', SINGLE_QUOTED),
+    rule('keyword', /@[\w-]+/),
+    rule('number', /#[\da-f]{3,8}\b/, 'i'),
+    rule('attribute', /--?[a-z][\w-]*(?=\s*:)|\b[a-z][\w-]*(?=\s*:[^:{;}]{0,500}[;}])/, 'i'),
+    rule('number', /-?\d*\.?\d+(?:px|em|rem|vh|vw|%|s|ms|deg|fr)?\b/),
+    rule('literal', /!important\b/)
+  ],
+  html: [
+    rule('comment', /<!--[\s\S]*?(?:-->|$)/),
+    rule('tag', /<!doctype[^>]*>/, 'i'),
+    rule('tag', /<\/?[a-z][\w:-]*|\/?>/, 'i'),
+    rule('attribute', /[a-z_:][\w:.-]*(?==)/, 'i'),
+    rule('string', /"[^"]*"?|'[^']*'?/)
+  ]
+}
+
+// Constructs that give a language away; the one with the most matches wins. They run on whatever
+// was copied, so none of them may backtrack more than linearly.
+const SIGNALS: Record<Exclude<CodeLanguage, 'json' | 'html'>, RegExp[]> = {
+  javascript: [
+    /\b(?:const|let|var)\s+[\w$]+\s*[=:]/,
+    /\bfunction\s*[\w$]*\s*\(/,
+    /=>/,
+    /^\s*import\s.+\sfrom\s+['"]/m,
+    /^\s*export\s+(?:default|const|function|class|interface|type)\b/m,
+    /;\s*$/m,
+    /\bconsole\.\w+\(/,
+    /\b(?:interface|type)\s+\w+\s*[={]/
+  ],
+  python: [
+    /^\s*def\s+\w+\s*\(/m,
+    /^\s*class\s+\w+\s*[(:]/m,
+    /^\s*(?:from\s+[\w.]+\s+)?import\s+[\w.]+(?:\s+as\s+\w+)?\s*$/m,
+    /^\s*(?:if|elif|for|while|with|try|except)\b.*:\s*$/m,
+    /\bself\.\w+/,
+    /\b(?:None|True|False)\b/
+  ],
+  shell: [
+    /^#!.*\b(?:ba|z)?sh\b/,
+    /^\s*\$\s+\w/m,
+    /^\s*(?:sudo|apt(?:-get)?|brew|npm|npx|yarn|git|cd|ls|echo|curl|docker|kubectl|pip)\s/m,
+    /\s\|\s*\w/,
+    /\$\{?\w+\}?/,
+    /^\s*(?:then|fi|do|done|esac)\b/m
+  ],
+  sql: [
+    /\bselect\b[\s\S]{1,1000}?\bfrom\b/i,
+    /\binsert\s+into\b/i,
+    /\bupdate\s+\w+\s+set\b/i,
+    /\bcreate\s+(?:table|index|view)\b/i,
+    /\bwhere\b/i,
+    /\b(?:join|group\s+by|order\s+by)\b/i
+  ],
+  css: [
+    /^[^\S\n]*[.#:\w][\w.#:[\]="'*>+~,() -]*\{/m,
+    /^\s*[\w-]+\s*:\s*[^;{}]+;\s*$/m,
+    /@(?:media|import|keyframes|font-face)\b/,
+    /#[\da-f]{3,8}\b|\b\d+(?:px|em|rem)\b/i
+  ]
+}
+
+const MIN_SIGNALS = 2
+
+// The language the text is most likely written in, or undefined for prose and anything unclear
+export function detectLanguage(text: string): CodeLanguage | undefined {
+  const sample = text.slice(0, 20000).trim()
+  // Code has brackets, operators or sigils somewhere; prose that merely uses keywords does not
+  if (!/[{}()[\];=<>$#]/.test(sample)) return undefined
+
+  if (/^[{[]/.test(sample)) {
+    try {
+      const value = JSON.parse(text)
+      if (value && typeof value === 'object') return 'json'
+    } catch {
+      // Not JSON; a JavaScript object or array literal, perhaps
+    }
+  }
+  if (/^<(?:!doctype|[a-z])/i.test(sample) && /<\/[a-z][\w-]*>|\/>/i.test(sample)) {
+    return 'html'
+  }
+
+  let best: CodeLanguage | undefined
+  let bestScore = MIN_SIGNALS - 1
+  for (const [language, signals] of Object.entries(SIGNALS)) {
+    const score = signals.filter(signal => signal.test(sample)).length
+    if (score > bestScore) {
+      best = language as CodeLanguage
+      bestScore = score
+    }
+  }
+  return best
+}
+
+function tokenize(text: string, rules: Rule[]): HighlightToken[] {
+  const tokens: HighlightToken[] = []
+  const word = /[\w$]+|[^\w$]/y
+  let plain = ''
+  let index = 0
+  scan: while (index < text.length) {
+    for (const { kind, pattern } of rules) {
+      pattern.lastIndex = index
+      const match = pattern.exec(text)
+      if (match && match[0].length > 0) {
+        if (plain) {
+          tokens.push({ text: plain })
+          plain = ''
+        }
+        tokens.push({ text: match[0], kind })
+        index += match[0].length
+        continue scan
+      }
+    }
+    // Whole words at a time, so a keyword is never found inside a longer identifier
+    word.lastIndex = index
+    const [skipped] = word.exec(text)!
+    plain += skipped
+    index += skipped.length
+  }
+  if (plain) {
+    tokens.push({ text: plain })
+  }
+  return tokens
+}
+
+// Splits the text into lines of tokens; without a language, or when the text is too long to
+// colour, every line is one plain token
+export function highlight(text: string, language?: CodeLanguage): HighlightToken[][] {
+  const normalized = text.replace(/\r\n?/g, '\n')
+  if (!language || normalized.length > MAX_HIGHLIGHTED_LENGTH) {
+    return normalized.split('\n').map(line => (line ? [{ text: line }] : []))
+  }
+
+  const lines: HighlightToken[][] = [[]]
+  for (const token of tokenize(normalized, RULES[language])) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([])
+      if (part) lines[lines.length - 1].push(token.kind ? { text: part, kind: token.kind } : { text: part })
+    })
+  }
+  return lines
+}
@@ -0,0 +1,114 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+// Returns the visible text of an HTML fragment: markup, scripts and styles removed, entities decoded
+export function stripHtml(html: string): string {
+  const text = html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+  return decodeEntities(text)
+    .replace(/[ \t\f\v\r]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// Tags kept by sanitizeHtml; everything else is dropped, keeping its text
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'code', 'del', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark', 'ol', 'p', 'pre', 's', 'small', 'span', 'strong', 'sub', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+])
+const VOID_TAGS = new Set(['br', 'hr', 'img'])
+// Dropped together with everything inside them
+const DROPPED_CONTENT = /^(?:script|style|head|title|template|iframe|object|embed|noscript|svg|math|textarea|select)$/
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+  abbr: ['title']
+}
+// Tags are bounded in length, so a stray < in a large fragment costs little to skip
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-z][\w:-]*)([^>]{0,4096})>|<!?[^>]{0,4096}>|[^<]+|</gi
+const ATTRIBUTE_PATTERN = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// Links may only point at web pages or mail addresses, and images may only be inline data, so the
+// preview never loads anything from the network
+function isSafeUrl(attribute: string, url: string): boolean {
+  const value = url.trim().toLowerCase()
+  return attribute === 'href' ? /^(?:https?:|mailto:|#)/.test(value) : /^data:image\/(?:png|gif|jpeg|webp);/.test(value)
+}
+
+function sanitizeAttributes(tag: string, source: string): string {
+  const allowed = ALLOWED_ATTRIBUTES[tag] ?? []
+  let attributes = ''
+  for (const [, rawName, doubleQuoted, singleQuoted, unquoted] of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = rawName.toLowerCase()
+    if (!allowed.includes(name)) continue
+    const value = decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? '')
+    if ((name === 'href' || name === 'src') && !isSafeUrl(name, value)) continue
+    attributes += ` ${name}="${escapeHtml(value)}"`
+  }
+  return tag === 'a' && attributes.includes(' href=') ? `${attributes} rel="noopener noreferrer"` : attributes
+}
+
+// Rebuilds an HTML fragment from an allowlist of tags and attributes: no scripts, styles, event
+// handlers or remote resources survive, and every tag that is opened is closed
+export function sanitizeHtml(html: string): string {
+  let output = ''
+  const open: string[] = []
+  let dropping: string | null = null
+
+  for (const [token, closing, rawTag, attributes] of html.matchAll(TOKEN_PATTERN)) {
+    const tag = rawTag?.toLowerCase()
+    if (dropping) {
+      if (closing && tag === dropping) dropping = null
+      continue
+    }
+    if (!tag) {
+      // Text; comments, doctypes and stray brackets are dropped
+      if (!token.startsWith('<')) output += escapeHtml(decodeEntities(token))
+      else if (token === '<') output += '&lt;'
+      continue
+    }
+    if (DROPPED_CONTENT.test(tag)) {
+      if (!closing && !attributes.trim().endsWith('/')) dropping = tag
+      continue
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue
+
+    if (closing) {
+      const index = open.lastIndexOf(tag)
+      if (index === -1) continue
+      output += open.splice(index).reverse().map(name => `</${name}>`).join('')
+    } else {
+      output += `<${tag}${sanitizeAttributes(tag, attributes)}>`
+      if (!VOID_TAGS.has(tag)) open.push(tag)
+    }
+  }
+  return output + open.reverse().map(name => `</${name}>`).join('')
+}
@@ -0,0 +1,235 @@
+import { randomBytes } from 'crypto'
+import { request, type IncomingHttpHeaders } from 'http'
+import type { Socket } from 'net'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { HttpApiServer } from './httpApi'
+import { HandlerTable } from './rpcServer'
+import { FakeIpc } from './testHarness'
+import type { ApiEvent, ClipboardItem } from './types'
+import { VaultError } from './vault'
+import { decodeFrame, encodeFrame, OPCODES } from './websocket'
+
+const TOKEN = 'pairing-token'
+const EXTENSION = 'chrome-extension://abcdefghijklmnop'
+
+const item = (id: string, content: string, extra: Partial<ClipboardItem> = {}): ClipboardItem => ({
+  id, type: 'text', content, timestamp: 1, ...extra
+})
+
+interface Reply {
+  status: number
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+describe('HttpApiServer', () => {
+  let server: HttpApiServer
+  let history: ClipboardItem[]
+  let locked: boolean
+  const sockets: Socket[] = []
+
+  const send = (path: string, options: { method?: string, headers?: Record<string, string>, body?: string } = {}) => {
+    return new Promise<Reply>((resolve, reject) => {
+      const req = request({ host: '127.0.0.1', port: server.port!, path, method: options.method ?? 'GET', headers: options.headers }, response => {
+        let body = ''
+        response.setEncoding('utf8')
+        response.on('data', (chunk: string) => {
+          body += chunk
+        })
+        response.on('end', () => resolve({ status: response.statusCode!, headers: response.headers, body }))
+      })
+      req.on('error', reject)
+      req.end(options.body)
+    })
+  }
+
+  const authorized = (extra: Record<string, string> = {}) => ({ Authorization: `Bearer ${TOKEN}`, ...extra })
+
+  // Resolves to the upgraded socket, or to the status the upgrade was refused with
+  const openEvents = (path: string, headers: Record<string, string> = {}) => {
+    return new Promise<Socket | number>((resolve, reject) => {
+      const req = request({
+        host: '127.0.0.1',
+        port: server.port!,
+        path,
+        headers: {
+          Connection: 'Upgrade',
+          Upgrade: 'websocket',
+          'Sec-WebSocket-Key': randomBytes(16).toString('base64'),
+          'Sec-WebSocket-Version': '13',
+          ...headers
+        }
+      })
+      req.on('upgrade', (_response, socket: Socket) => {
+        sockets.push(socket)
+        resolve(socket)
+      })
+      req.on('response', response => resolve(response.statusCode!))
+      req.on('error', reject)
+      req.end()
+    })
+  }
+
+  const collectMessages = (socket: Socket) => {
+    const messages: ApiEvent[] = []
+    let buffer = Buffer.alloc(0)
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk])
+      let decoded = decodeFrame(buffer)
+      while (decoded) {
+        if (decoded.frame.opcode === OPCODES.text) {
+          messages.push(JSON.parse(decoded.frame.payload.toString('utf8')))
+        }
+        buffer = buffer.subarray(decoded.length)
+        decoded = decodeFrame(buffer)
+      }
+    })
+    return messages
+  }
+
+  beforeEach(async () => {
+    history = [
+      item('1', 'hello world'),
+      item('2', 'https://example.com', { type: 'url' }),
+      item('3', 'hunter2', { sensitive: 'password', preview: '•••••••' })
+    ]
+    locked = false
+    const handlers = new HandlerTable(new FakeIpc())
+    handlers.handle('get-clipboard-history', () => history)
+    handlers.handle('get-pinned-items', () => ({ items: [], collections: [] }))
+    handlers.handle('get-item-content', (_, id: string) => history.find(entry => entry.id === id)?.content)
+    handlers.handle('search-history', (_, query: string) => history
+      .filter(entry => entry.content.includes(query))
+      .map(entry => ({ item: entry, snippet: entry.content, highlights: [[0, query.length]] })))
+    handlers.handle('add-text-item', (_, text: string) => {
+      if (locked) throw new VaultError('LOCKED', 'Unlock the history first')
+      if (history[0]?.content === text) return null
+      history.unshift(item(String(history.length + 1), text))
+      return history[0]
+    })
+    server = new HttpApiServer({ handlers, port: 0, token: () => TOKEN, allowedOrigins: () => [EXTENSION] })
+    await server.start()
+  })
+
+  afterEach(async () => {
+    sockets.splice(0).forEach(socket => socket.destroy())
+    await server.stop()
+  })
+
+  it('lists items, newest first, filtered by type and limit', async () => {
+    const all = await send('/v1/items', { headers: authorized() })
+    expect(all.status).toBe(200)
+    expect(all.headers['content-type']).toBe('application/json')
+    expect(JSON.parse(all.body).items.map((entry: ClipboardItem) => entry.id)).toEqual(['1', '2', '3'])
+
+    const urls = await send('/v1/items?type=url', { headers: authorized() })
+    expect(JSON.parse(urls.body).items.map((entry: ClipboardItem) => entry.id)).toEqual(['2'])
+    const first = await send('/v1/items?limit=1', { headers: authorized() })
+    expect(JSON.parse(first.body).items).toHaveLength(1)
+    expect((await send('/v1/items?limit=0', { headers: authorized() })).status).toBe(400)
+  })
+
+  it('keeps secrets out of lists and searches but returns them by id', async () => {
+    const listed = JSON.parse((await send('/v1/items', { headers: authorized() })).body).items[2]
+    expect(listed.content).toBe('•••••••')
+
+    const searched = JSON.parse((await send('/v1/search?q=hunter', { headers: authorized() })).body).results
+    expect(searched).toEqual([expect.objectContaining({ snippet: '•••••••', highlights: [] })])
+    expect(searched[0].item.content).toBe('•••••••')
+
+    const fetched = await send('/v1/items/3', { headers: authorized() })
+    expect(JSON.parse(fetched.body).content).toBe('hunter2')
+    expect((await send('/v1/items/nope', { headers: authorized() })).status).toBe(404)
+  })
+
+  it('adds text posted as JSON', async () => {
+    const post = (body: string, type = 'application/json') => send('/v1/items', {
+      method: 'POST', headers: authorized({ 'Content-Type': type }), body
+    })
+
+    const created = await post(JSON.stringify({ text: 'from the editor' }))
+    expect(created.status).toBe(201)
+    expect(JSON.parse(created.body).item.content).toBe('from the editor')
+    expect((await post(JSON.stringify({ text: 'from the editor' }))).status).toBe(200)
+
+    expect((await post('{')).status).toBe(400)
+    expect((await post(JSON.stringify({ text: 42 }))).status).toBe(400)
+    expect((await post('text', 'text/plain')).status).toBe(415)
+
+    locked = true
+    const refused = await post(JSON.stringify({ text: 'while locked' }))
+    expect(refused.status).toBe(423)
+    expect(JSON.parse(refused.body).error).toBe('Unlock the history first')
+  })
+
+  it('requires the pairing token', async () => {
+    expect((await send('/v1/items')).status).toBe(401)
+    expect((await send('/v1/items', { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401)
+    // The query form is only for the event stream
+    expect((await send(`/v1/items?token=${TOKEN}`)).status).toBe(401)
+  })
+
+  it('refuses pages from origins the user has not allowed', async () => {
+    const page = await send('/v1/items', { headers: authorized({ Origin: 'https://evil.example' }) })
+    expect(page.status).toBe(403)
+    expect(page.headers['access-control-allow-origin']).toBeUndefined()
+
+    const extension = await send('/v1/items', { headers: authorized({ Origin: EXTENSION }) })
+    expect(extension.status).toBe(200)
+    expect(extension.headers['access-control-allow-origin']).toBe(EXTENSION)
+
+    const preflight = await send('/v1/items', {
+      method: 'OPTIONS', headers: { Origin: EXTENSION, 'Access-Control-Request-Headers': 'authorization' }
+    })
+    expect(preflight.status).toBe(204)
+    expect(preflight.headers['access-control-allow-headers']).toContain('Authorization')
+  })
+
+  it('refuses host names other than the loopback address', async () => {
+    // What a DNS rebinding page would send
+    const rebound = await send('/v1/items', { headers: authorized({ Host: `attacker.example:${server.port}` }) })
+    expect(rebound.status).toBe(421)
+    const local = await send('/v1/items', { headers: authorized({ Host: `localhost:${server.port}` }) })
+    expect(local.status).toBe(200)
+  })
+
+  it('streams events to authorized WebSocket clients', async () => {
+    expect(await openEvents('/v1/events')).toBe(401)
+    expect(await openEvents(`/v1/events?token=${TOKEN}`, { Origin: 'https://evil.example' })).toBe(403)
+
+    const socket = await openEvents(`/v1/events?token=${TOKEN}`, { Origin: EXTENSION })
+    expect(socket).not.toBeTypeOf('number')
+    const messages = collectMessages(socket as Socket)
+
+    server.broadcast({ type: 'item-added', item: item('9', 'secret', { sensitive: 'password', preview: '••••' }) })
+    server.broadcast({ type: 'item-deleted', id: '1' })
+    server.broadcast({ type: 'history-cleared' })
+    await vi.waitFor(() => expect(messages).toHaveLength(3))
+    expect(messages).toEqual([
+      { type: 'item-added', item: expect.objectContaining({ id: '9', content: '••••' }) },
+      { type: 'item-deleted', id: '1' },
+      { type: 'history-cleared' }
+    ])
+  })
+
+  it('answers pings and closes streams when the token is revoked', async () => {
+    const socket = await openEvents('/v1/events', { Authorization: `Bearer ${TOKEN}` }) as Socket
+    const frames: number[] = []
+    socket.on('data', (chunk: Buffer) => {
+      let buffer = chunk
+      let decoded = decodeFrame(buffer)
+      while (decoded) {
+        frames.push(decoded.frame.opcode)
+        buffer = buffer.subarray(decoded.length)
+        decoded = decodeFrame(buffer)
+      }
+    })
+    socket.write(encodeFrame(OPCODES.ping, Buffer.from('hi'), randomBytes(4)))
+    await vi.waitFor(() => expect(frames).toEqual([OPCODES.pong]))
+
+    const closed = new Promise(resolve => socket.on('close', resolve))
+    server.disconnectAll()
+    await closed
+    expect(frames).toEqual([OPCODES.pong, OPCODES.close])
+  })
+})
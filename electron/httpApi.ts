@@ -0,0 +1,264 @@
+import { timingSafeEqual } from 'crypto'
+import { createServer, STATUS_CODES, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import type { Duplex } from 'stream'
+import type { HandlerTable } from './rpcServer'
+import type { ApiEvent, ClipboardItem, PinnedState, SearchResult } from './types'
+import { VaultError } from './vault'
+import { acceptWebSocket, type WebSocketConnection } from './websocket'
+
+// A loopback HTTP API for editor and browser extensions, served from the same handlers as the
+// renderer:
+//
+//   GET  /v1/items?type=&limit=   recent items, newest first
+//   GET  /v1/search?q=            search results
+//   GET  /v1/items/:id            one item with its full content
+//   POST /v1/items {"text": …}    add text as a new item
+//   GET  /v1/events               WebSocket stream of ApiEvent messages
+//
+// Every request needs the pairing token, as a bearer token or, for the WebSocket, which browsers
+// cannot give headers, as `?token=`. Web pages can reach loopback servers too, so requests that
+// carry an Origin are refused unless the user allowed that origin, and the Host header must name
+// the loopback address, which defeats DNS rebinding.
+
+export interface HttpApiOptions {
+  handlers: HandlerTable
+  port: number
+  token: () => string
+  allowedOrigins: () => string[]
+}
+
+class HttpError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+  }
+}
+
+const MAX_BODY_LENGTH = 16 * 1024 * 1024
+
+// Secrets are only handed out when asked for by id, never in lists or the event stream
+export function toApiItem(item: ClipboardItem): ClipboardItem {
+  return item.sensitive ? { ...item, content: item.preview ?? '' } : item
+}
+
+function tokensMatch(given: string | null, expected: string): boolean {
+  if (!given || !expected) return false
+  const a = Buffer.from(given)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let length = 0
+    request.on('data', (chunk: Buffer) => {
+      length += chunk.length
+      if (length > MAX_BODY_LENGTH) {
+        reject(new HttpError(413, 'Request body too large'))
+        request.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    request.on('error', reject)
+  })
+}
+
+export class HttpApiServer {
+  private readonly options: HttpApiOptions
+  private server: Server | null = null
+  private readonly clients = new Set<WebSocketConnection>()
+
+  constructor(options: HttpApiOptions) {
+    this.options = options
+  }
+
+  get isRunning() {
+    return this.server !== null
+  }
+
+  // The port actually listened on, which differs from the requested one only when that was 0
+  get port(): number | null {
+    const address = this.server?.address()
+    return address && typeof address === 'object' ? address.port : null
+  }
+
+  async start() {
+    if (this.server) return
+    const server = createServer((request, response) => {
+      this.handleRequest(request, response).catch(error => this.sendError(response, error))
+    })
+    server.on('upgrade', (request, socket) => this.handleUpgrade(request, socket))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.options.port, '127.0.0.1', () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+    this.server = server
+  }
+
+  async stop() {
+    const server = this.server
+    if (!server) return
+    this.server = null
+    this.disconnectAll()
+    server.closeAllConnections()
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  }
+
+  // Closes every event stream, for when the token they were opened with is revoked
+  disconnectAll() {
+    for (const client of this.clients) {
+      client.close(1001)
+    }
+    this.clients.clear()
+  }
+
+  broadcast(event: ApiEvent) {
+    const message = JSON.stringify(event.type === 'item-added' ? { ...event, item: toApiItem(event.item) } : event)
+    for (const client of this.clients) {
+      client.send(message)
+    }
+  }
+
+  // Checks host, origin and token, in that order. Preflight requests carry no token.
+  private authorize(request: IncomingMessage, url: URL, allowQueryToken: boolean) {
+    const port = this.port
+    if (request.headers.host !== `127.0.0.1:${port}` && request.headers.host !== `localhost:${port}`) {
+      throw new HttpError(421, 'Unexpected host')
+    }
+    const origin = request.headers.origin ?? null
+    if (origin !== null && !this.options.allowedOrigins().includes(origin)) {
+      throw new HttpError(403, `Origin ${origin} is not allowed`)
+    }
+    if (request.method === 'OPTIONS') {
+      return
+    }
+    const bearer = request.headers.authorization?.match(/^Bearer (\S+)$/)?.[1] ?? null
+    const token = bearer ?? (allowQueryToken ? url.searchParams.get('token') : null)
+    if (!tokensMatch(token, this.options.token())) {
+      throw new HttpError(401, 'Missing or invalid pairing token')
+    }
+  }
+
+  private call<T>(channel: string, ...args: unknown[]): Promise<T> {
+    const handler = this.options.handlers.get(channel)
+    if (!handler) {
+      throw new Error(`No handler for ${channel}`)
+    }
+    return Promise.resolve(handler({}, ...args) as T)
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1')
+    const origin = request.headers.origin
+    // Set before the checks, so an allowed extension can read why a request was refused
+    if (origin && this.options.allowedOrigins().includes(origin)) {
+      response.setHeader('Access-Control-Allow-Origin', origin)
+      response.setHeader('Vary', 'Origin')
+    }
+    this.authorize(request, url, false)
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+        'Access-Control-Max-Age': '600'
+      })
+      response.end()
+      return
+    }
+
+    const itemId = url.pathname.match(/^\/v1\/items\/([^/]+)$/)?.[1]
+    if (request.method === 'GET' && url.pathname === '/v1/items') {
+      const type = url.searchParams.get('type')
+      const limit = Number(url.searchParams.get('limit') ?? 100)
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new HttpError(400, 'limit must be a positive whole number')
+      }
+      const history = await this.call<ClipboardItem[]>('get-clipboard-history')
+      const items = (type ? history.filter(item => item.type === type) : history).slice(0, limit)
+      this.sendJson(response, 200, { items: items.map(toApiItem) })
+    } else if (request.method === 'GET' && url.pathname === '/v1/search') {
+      const query = url.searchParams.get('q')
+      if (!query) {
+        throw new HttpError(400, 'Give a query as q')
+      }
+      const results = await this.call<SearchResult[]>('search-history', query)
+      this.sendJson(response, 200, {
+        results: results.map(result => result.item.sensitive
+          ? { ...result, item: toApiItem(result.item), snippet: result.item.preview ?? '', highlights: [] }
+          : result)
+      })
+    } else if (request.method === 'GET' && itemId) {
+      const id = decodeURIComponent(itemId)
+      const history = await this.call<ClipboardItem[]>('get-clipboard-history')
+      const pinned = await this.call<PinnedState>('get-pinned-items')
+      const item = [...history, ...pinned.items].find(entry => entry.id === id)
+      if (!item) {
+        throw new HttpError(404, `Clipboard item not found: ${id}`)
+      }
+      this.sendJson(response, 200, { item, content: await this.call<string>('get-item-content', id) })
+    } else if (request.method === 'POST' && url.pathname === '/v1/items') {
+      if (!request.headers['content-type']?.startsWith('application/json')) {
+        throw new HttpError(415, 'Send the item as application/json')
+      }
+      let body: { text?: unknown }
+      try {
+        body = JSON.parse(await readBody(request))
+      } catch (error) {
+        throw error instanceof HttpError ? error : new HttpError(400, 'Invalid JSON')
+      }
+      if (typeof body?.text !== 'string' || !body.text) {
+        throw new HttpError(400, 'Give the item as {"text": "…"}')
+      }
+      const item = await this.call<ClipboardItem | null>('add-text-item', body.text)
+      // A duplicate of a recent item is not added again
+      this.sendJson(response, item ? 201 : 200, { item: item && toApiItem(item) })
+    } else {
+      throw new HttpError(404, 'Not found')
+    }
+  }
+
+  private handleUpgrade(request: IncomingMessage, socket: Duplex) {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1')
+    try {
+      this.authorize(request, url, true)
+      if (url.pathname !== '/v1/events') {
+        throw new HttpError(404, 'Not found')
+      }
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500
+      socket.end(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`)
+      return
+    }
+    const client = acceptWebSocket(request, socket)
+    if (client) {
+      this.clients.add(client)
+      client.onClose(() => this.clients.delete(client))
+    }
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+    response.end(JSON.stringify(body))
+  }
+
+  private sendError(response: ServerResponse, error: unknown) {
+    const status = error instanceof HttpError ? error.status
+      : error instanceof VaultError && error.code === 'LOCKED' ? 423
+        : 500
+    if (response.headersSent) {
+      response.end()
+      return
+    }
+    this.sendJson(response, status, { error: error instanceof Error ? error.message : String(error) })
+  }
+}
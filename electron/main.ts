@@ -1,443 +1,256 @@
-import { app, BrowserWindow, clipboard, globalShortcut, ipcMain, Menu, Tray, nativeImage } from 'electron'
+import { app, BrowserWindow, clipboard, dialog, globalShortcut, ipcMain, Menu, Tray, nativeImage, safeStorage, screen } from 'electron'
 import { join, dirname } from 'path'
 import { fileURLToPath } from 'url'
-import { createHash } from 'crypto'
-import { execSync } from 'child_process'
 import Store from 'electron-store'
+import { getFrontmostApp, selectWindowTracker } from './activeApp'
+import { createDesktopAutostart } from './autostart'
+import { ClipboardManager } from './clipboardManager'
+import type { AutostartDriver, StoreSchema, WindowDriver } from './drivers'
+import { createElectronClipboard } from './electronClipboard'
+import { createPasteDriver } from './pasteDriver'
+import { placeWindow } from './placement'
+import { defaultRpcEndpoint } from './rpc'
+import type { KeyProtector } from './vault'
+import type { ClipboardItem, Collection } from './types'
+import { createTesseractRecognizer } from './textRecognition'
+import { createSelectionSource } from './watcher'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
-interface ClipboardItem {
-  id: string
-  content: string
-  type: 'text' | 'image' | 'html'
-  timestamp: number
-  preview?: string
+const safeStorageProtector: KeyProtector = {
+  // The basic_text backend on Linux uses a hardcoded password, so it offers no real protection
+  isAvailable: () => safeStorage.isEncryptionAvailable() &&
+    (process.platform !== 'linux' || safeStorage.getSelectedStorageBackend() !== 'basic_text'),
+  encrypt: plaintext => safeStorage.encryptString(plaintext),
+  decrypt: ciphertext => safeStorage.decryptString(ciphertext)
 }
 
-class ClipboardManager {
-  private store: Store<{ history: ClipboardItem[], autoPaste: boolean }>
-  private mainWindow: BrowserWindow | null = null
-  private tray: Tray | null = null
-  private clipboardHistory: ClipboardItem[] = []
-  private lastTextContent: string = ''
-  private lastImageHash: string = ''
-  private lastHtmlContent: string = ''
-  private pollInterval: NodeJS.Timeout | null = null
-  private isInternalCopy: boolean = false
-  private autoPasteEnabled: boolean = true
-  private previousActiveApp: string = ''
-
-  constructor() {
-    this.store = new Store<{ history: ClipboardItem[], autoPaste: boolean }>({
-      name: 'clipboard-history',
-      defaults: {
-        history: [] as ClipboardItem[],
-        autoPaste: true
-      }
-    })
-    this.loadHistory()
-    this.autoPasteEnabled = this.store.get('autoPaste', true)
+let mainWindow: BrowserWindow | null = null
+let tray: Tray | null = null
+// File dialogs take focus from the window, which must not hide it
+let isDialogOpen = false
+
+const liveWindow = () => mainWindow && !mainWindow.isDestroyed() ? mainWindow : null
+
+async function withDialog<T>(show: (window?: BrowserWindow) => Promise<T>): Promise<T> {
+  const window = liveWindow()
+  const parent = window?.isVisible() ? window : undefined
+  isDialogOpen = true
+  try {
+    return await show(parent)
+  } finally {
+    isDialogOpen = false
   }
+}
 
-  private checkIfTextFieldActive(): boolean {
-    try {
-      if (process.platform === 'darwin') {
-        const result = execSync(`osascript -e 'tell application "System Events" to get focused of UI element 1 of process "${this.previousActiveApp}"'`).toString().trim()
-        return result === 'true'
-      }
-    } catch {
-      return true
-    }
-    return true
-  }
+// Opens the window on the display the pointer is on. Native Wayland windows cannot position
+// themselves, so there the compositor decides and this has no effect.
+function positionWindow(window: BrowserWindow) {
+  const cursor = screen.getCursorScreenPoint()
+  const [width, height] = window.getSize()
+  const { workArea } = screen.getDisplayNearestPoint(cursor)
+  const { x, y } = placeWindow(clipboardManager.currentSettings.windowPlacement, cursor, { width, height }, workArea)
+  window.setPosition(x, y)
+}
 
-  private simulatePaste() {
-    try {
-      setTimeout(() => {
-        if (process.platform === 'darwin') {
-          try {
-            if (this.previousActiveApp && this.previousActiveApp !== 'Clipboard Manager') {
-              try {
-                execSync(`osascript -e 'tell application "${this.previousActiveApp}" to activate'`)
-                
-                setTimeout(() => {
-                  try {
-                    this.checkIfTextFieldActive()
-                    execSync(`osascript -e 'tell application "System Events" to keystroke "v" using command down'`)
-                    
-                    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-                      this.mainWindow.webContents.send('paste-feedback', { 
-                        success: true, 
-                        message: 'Content pasted successfully' 
-                      })
-                    }
-                   } catch {
-                     if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-                       this.mainWindow.webContents.send('paste-feedback', { 
-                         success: false, 
-                         message: 'Paste operation failed - ensure a text field is active' 
-                       })
-                     }
-                   }
-                }, 500)
-               } catch {
-                 try {
-                   execSync(`osascript -e 'tell application "System Events" to keystroke "v" using command down'`)
-                   
-                   if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-                     this.mainWindow.webContents.send('paste-feedback', { 
-                       success: true, 
-                       message: 'Content pasted (fallback method)' 
-                     })
-                   }
-                 } catch {
-                   if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-                     this.mainWindow.webContents.send('paste-feedback', { 
-                       success: false, 
-                       message: 'Paste failed - please try pasting manually (Cmd+V)' 
-                     })
-                   }
-                 }
-               }
-            } else {
-              const frontAppResult = execSync(`osascript -e 'tell application "System Events" to return name of first application process whose frontmost is true'`).toString().trim()
-              
-              if (frontAppResult === "Finder") {
-                return
-              }
-              
-              execSync(`osascript -e 'tell application "System Events" to keystroke "v" using command down'`)
-              
-              if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-                this.mainWindow.webContents.send('paste-feedback', { 
-                  success: true, 
-                  message: 'Content pasted successfully' 
-                })
-              }
-            }
-            
-          } catch {
-            // Silent error handling
-          }
-        } else if (process.platform === 'win32') {
-          try {
-            execSync(`powershell -command "Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait('^v')"`)
-          } catch {
-            // Silent error handling
-          }
-        } else {
-          try {
-            execSync('xdotool key ctrl+v')
-          } catch {
-            // Silent error handling
-          }
-        }
-      }, 300)
-    } catch {
-      // Silent error handling
-    }
-  }
+const windowDriver: WindowDriver = {
+  isVisible: () => !!liveWindow()?.isVisible(),
 
-  private storePreviousActiveApp() {
-    if (process.platform === 'darwin') {
-      try {
-        const frontApp = execSync(`osascript -e 'tell application "System Events" to return name of first application process whose frontmost is true'`).toString().trim()
-        if (frontApp !== 'Clipboard Manager') {
-          this.previousActiveApp = frontApp
-        }
-      } catch  {
-        // Silent error handling
-      }
+  show: () => {
+    const window = liveWindow()
+    if (!window) return
+    if (!window.isVisible()) {
+      positionWindow(window)
     }
-  }
-
-  private loadHistory() {
-    this.clipboardHistory = this.store.get('history', []) as ClipboardItem[]
-  }
+    window.show()
+    window.focus()
+  },
 
-  private saveHistory() {
-    this.store.set('history', this.clipboardHistory.slice(0, 100)) // Keep last 100 items
-  }
-
-  private addToHistory(content: string, type: 'text' | 'image' | 'html') {
-    if (!content) return
+  hide: () => liveWindow()?.hide(),
 
-    if (this.isInternalCopy) {
-      return
-    }
+  setSize: (width, height) => liveWindow()?.setSize(width, height),
 
-    const recentItems = this.clipboardHistory.slice(0, 3)
-    for (const item of recentItems) {
-      if (item.content === content && item.type === type) {
-        return
-      }
-    }
+  send: (channel, payload) => liveWindow()?.webContents.send(channel, payload),
 
-    const item: ClipboardItem = {
-      id: Date.now().toString(),
-      content,
-      type,
-      timestamp: Date.now(),
-      preview: type === 'text' ? content.substring(0, 100) : 
-               type === 'image' ? 'Image' : 
-               type === 'html' ? content.replace(/<[^>]*>/g, '').substring(0, 100) :
-               `${type} content`
-    }
+  setTrayTooltip: text => tray?.setToolTip(text),
 
-    this.clipboardHistory.unshift(item)
-    this.clipboardHistory = this.clipboardHistory.slice(0, 100)
-    this.saveHistory()
+  showSaveDialog: async ({ title, defaultName, filters }) => {
+    const options = { title, defaultPath: join(app.getPath('documents'), defaultName), filters }
+    const { canceled, filePath } = await withDialog(parent =>
+      parent ? dialog.showSaveDialog(parent, options) : dialog.showSaveDialog(options)
+    )
+    return canceled || !filePath ? null : filePath
+  },
 
-    if (this.mainWindow && !this.mainWindow.isDestroyed()) {
-      this.mainWindow.webContents.send('clipboard-updated', this.clipboardHistory)
-    }
+  showOpenDialog: async ({ title, filters, directory }) => {
+    const options: Electron.OpenDialogOptions = { title, filters, properties: [directory ? 'openDirectory' : 'openFile'] }
+    const { canceled, filePaths } = await withDialog(parent =>
+      parent ? dialog.showOpenDialog(parent, options) : dialog.showOpenDialog(options)
+    )
+    return canceled || filePaths.length === 0 ? null : filePaths[0]
   }
+}
 
-  private startClipboardMonitoring() {
-    this.lastTextContent = clipboard.readText()
-    this.lastHtmlContent = clipboard.readHTML()
-    
-    this.pollInterval = setInterval(() => {
-      if (this.isInternalCopy) {
-        return
-      }
-
-      let hasNewContent = false
-      
-      const image = clipboard.readImage()
-      if (!image.isEmpty()) {
-        const imageBuffer = image.toPNG()
-        const imageHash = createHash('md5').update(imageBuffer).digest('hex')
-        
-        if (imageHash !== this.lastImageHash) {
-          const imageBase64 = `data:image/png;base64,${imageBuffer.toString('base64')}`
-          this.addToHistory(imageBase64, 'image')
-          this.lastImageHash = imageHash
-          hasNewContent = true
-        }
-      }
-      
-      if (!hasNewContent) {
-        const html = clipboard.readHTML()
-        const text = clipboard.readText()
-        
-        const isActualHTML = html && 
-                            html.trim() && 
-                            html !== text && 
-                            html.includes('<') && 
-                            html.includes('>') &&
-                            (html.match(/<[^>]+>/g) || []).length > 2
-        
-        const currentContent = isActualHTML ? html : text
-        const contentType = isActualHTML ? 'html' : 'text'
-        
-        const lastContent = contentType === 'html' ? this.lastHtmlContent : this.lastTextContent
-        
-        if (currentContent && currentContent !== lastContent) {
-          this.addToHistory(currentContent, contentType as 'text' | 'html')
-          
-          if (contentType === 'html') {
-            this.lastHtmlContent = currentContent
-          } else {
-            this.lastTextContent = currentContent
-          }
-        }
-      }
-    }, 300)
-  }
-
-  private stopClipboardMonitoring() {
-    if (this.pollInterval) {
-      clearInterval(this.pollInterval)
-      this.pollInterval = null
-    }
-  }
-
-  createWindow() {
-    this.mainWindow = new BrowserWindow({
-      width: 600,
-      height: 700,
-      show: false, // Always start hidden for menu bar app
-      frame: false, // Frameless for a cleaner look
-      transparent: true,
-      resizable: true,
-      skipTaskbar: true, // Don't show in taskbar
-      alwaysOnTop: true, // Keep on top when shown
-      webPreferences: {
-        preload: join(__dirname, 'preload.js'),
-        nodeIntegration: false,
-        contextIsolation: true
-      }
-    })
-
-    if (process.env.NODE_ENV === 'development') {
-      this.mainWindow.loadURL('http://localhost:5173')
-      this.mainWindow.webContents.openDevTools()
-      this.mainWindow.show() // Show in development for easier debugging
-    } else {
-      this.mainWindow.loadFile(join(__dirname, '../dist/index.html'))
-    }
-
-    this.mainWindow.on('blur', () => {
-      this.hideWindow()
-    })
-  }
+// On Linux, focus is followed through xdotool or the compositor's own tool
+const windowTracker = process.platform === 'linux' ? selectWindowTracker() : null
 
-  createTray() {
-    // Create icon for menu bar with proper template image support
-    const icon = nativeImage.createFromPath(join(__dirname, '../public/clipboard.png'))
-    
-    // Ensure the icon is properly sized and set as template
-    const resizedIcon = icon.resize({ width: 16, height: 16 })
-    resizedIcon.setTemplateImage(true) // This makes it adapt to dark/light menu bar automatically
-    
-    this.tray = new Tray(resizedIcon)
-    
-    const contextMenu = Menu.buildFromTemplate([
-      {
-        label: 'Show Clipboard',
-        click: () => this.showWindow()
-      },
-      {
-        label: 'Clear History',
-        click: () => this.clearHistory()
-      },
-      { type: 'separator' },
-      {
-        label: 'Quit',
-        click: () => app.quit()
-      }
-    ])
-
-    this.tray.setContextMenu(contextMenu)
-    this.tray.setToolTip('Clipboard Manager')
-    
-    this.tray.on('click', () => {
-      this.toggleWindow()
-    })
+// The command the session runs at login. An AppImage is mounted somewhere new at every start,
+// so its entry has to point at the image itself.
+function loginCommand(): string[] {
+  if (!app.isPackaged) {
+    return [process.execPath, app.getAppPath()]
   }
+  return [process.env.APPIMAGE || process.execPath]
+}
 
-  showWindow() {
-    if (this.mainWindow) {
-      // Store the current active app before showing our window
-      this.storePreviousActiveApp()
-      this.mainWindow.show()
-      this.mainWindow.focus()
-      this.mainWindow.webContents.send('clipboard-updated', this.clipboardHistory)
+const autostart: AutostartDriver = process.platform === 'linux'
+  ? createDesktopAutostart({ name: 'Clipboard Manager', command: loginCommand() })
+  : {
+      isEnabled: () => app.getLoginItemSettings().openAtLogin,
+      setEnabled: enabled => app.setLoginItemSettings({ openAtLogin: enabled })
     }
-  }
 
-  hideWindow() {
-    if (this.mainWindow) {
-      this.mainWindow.hide()
+const clipboardManager: ClipboardManager = new ClipboardManager({
+  clipboard: createElectronClipboard(clipboard),
+  store: new Store<StoreSchema>({
+    name: 'clipboard-history',
+    defaults: {
+      history: [] as ClipboardItem[],
+      pinned: [] as ClipboardItem[],
+      collections: [] as Collection[]
     }
-  }
+  }),
+  dataDir: app.getPath('userData'),
+  keyProtector: safeStorageProtector,
+  window: windowDriver,
+  paste: createPasteDriver({
+    getDelays: () => clipboardManager.currentSettings,
+    ownAppNames: ['Clipboard Manager', app.getName()],
+    tracker: windowTracker
+  }),
+  shortcuts: globalShortcut,
+  ipc: ipcMain,
+  getFrontmostApp: () => getFrontmostApp(windowTracker),
+  appName: app.getName(),
+  primarySelection: process.platform === 'linux' ? createSelectionSource(() => clipboard.readText('selection')) : undefined,
+  autostart,
+  rpcEndpoint: defaultRpcEndpoint(),
+  textRecognizer: createTesseractRecognizer()
+})
 
-  toggleWindow() {
-    if (this.mainWindow?.isVisible()) {
-      this.hideWindow()
-    } else {
-      this.showWindow()
+function createWindow() {
+  const { windowWidth, windowHeight } = clipboardManager.currentSettings
+  mainWindow = new BrowserWindow({
+    width: windowWidth,
+    height: windowHeight,
+    show: false, // Always start hidden for menu bar app
+    frame: false, // Frameless for a cleaner look
+    transparent: true,
+    resizable: true,
+    skipTaskbar: true, // Don't show in taskbar
+    alwaysOnTop: true, // Keep on top when shown
+    webPreferences: {
+      preload: join(__dirname, 'preload.js'),
+      nodeIntegration: false,
+      contextIsolation: true
     }
+  })
+
+  if (process.env.NODE_ENV === 'development') {
+    mainWindow.loadURL('http://localhost:5173')
+    mainWindow.webContents.openDevTools()
+    mainWindow.show() // Show in development for easier debugging
+  } else {
+    mainWindow.loadFile(join(__dirname, '../dist/index.html'))
   }
 
-  clearHistory() {
-    this.clipboardHistory = []
-    this.saveHistory()
-    if (this.mainWindow) {
-      this.mainWindow.webContents.send('clipboard-updated', this.clipboardHistory)
+  mainWindow.on('blur', () => {
+    if (!isDialogOpen) {
+      clipboardManager.handleWindowBlur()
     }
-  }
+  })
+}
 
-  setupIPC() {
-    ipcMain.handle('get-clipboard-history', () => {
-      return this.clipboardHistory
-    })
-
-    ipcMain.handle('copy-to-clipboard', (_, item: { content: string, type: string }) => {
-      this.isInternalCopy = true
-      
-      if (item.type === 'image') {
-        const base64Data = item.content.replace('data:image/png;base64,', '')
-        const imageBuffer = Buffer.from(base64Data, 'base64')
-        const image = nativeImage.createFromBuffer(imageBuffer)
-        clipboard.writeImage(image)
-        this.lastImageHash = createHash('md5').update(imageBuffer).digest('hex')
-      } else if (item.type === 'html') {
-        clipboard.writeHTML(item.content)
-        this.lastHtmlContent = item.content
-        this.lastTextContent = item.content
-      } else {
-        clipboard.writeText(item.content)
-        this.lastTextContent = item.content
-      }
-      
-      setTimeout(() => {
-        this.isInternalCopy = false
-      }, 100)
-
-      this.hideWindow()
-      
-      if (this.autoPasteEnabled) {
-        this.simulatePaste()
-      }
-    })
-
-    ipcMain.handle('delete-clipboard-item', (_, id: string) => {
-      this.clipboardHistory = this.clipboardHistory.filter(item => item.id !== id)
-      this.saveHistory()
-      return this.clipboardHistory
-    })
-
-    ipcMain.handle('clear-clipboard-history', () => {
-      this.clearHistory()
-      return this.clipboardHistory
-    })
-
-    ipcMain.handle('hide-window', () => {
-      this.hideWindow()
-    })
-
-    ipcMain.handle('get-auto-paste-setting', () => {
-      return this.autoPasteEnabled
-    })
-
-    ipcMain.handle('set-auto-paste-setting', (_, enabled: boolean) => {
-      this.autoPasteEnabled = enabled
-      this.store.set('autoPaste', enabled)
-      return enabled
-    })
-  }
+// Tray actions have no renderer to report to, so failures get a native error box
+function runTrayAction(title: string, action: () => Promise<unknown>) {
+  action().catch(error => {
+    dialog.showErrorBox(title, error instanceof Error ? error.message : String(error))
+  })
+}
 
-  setupGlobalShortcuts() {
-    globalShortcut.register('CommandOrControl+Shift+V', () => {
-      this.toggleWindow()
-    })
-  }
+function createTray() {
+  // Create icon for menu bar with proper template image support
+  const icon = nativeImage.createFromPath(join(__dirname, '../public/clipboard.png'))
+
+  // Ensure the icon is properly sized and set as template
+  const resizedIcon = icon.resize({ width: 16, height: 16 })
+  resizedIcon.setTemplateImage(true) // This makes it adapt to dark/light menu bar automatically
+
+  tray = new Tray(resizedIcon)
+
+  const contextMenu = Menu.buildFromTemplate([
+    {
+      label: 'Show Clipboard',
+      click: () => clipboardManager.showWindow()
+    },
+    {
+      label: 'Clear History (Keep Pinned)',
+      click: () => clipboardManager.clearHistory()
+    },
+    { type: 'separator' },
+    {
+      label: 'Start Paste Stack',
+      click: () => clipboardManager.startPasteStack([])
+    },
+    {
+      label: 'Stop Paste Stack',
+      click: () => clipboardManager.stopPasteStack()
+    },
+    { type: 'separator' },
+    {
+      label: 'Export History…',
+      click: () => runTrayAction('Export failed', () => clipboardManager.exportHistory('archive'))
+    },
+    {
+      label: 'Export Text Items',
+      submenu: [
+        {
+          label: 'As JSON…',
+          click: () => runTrayAction('Export failed', () => clipboardManager.exportHistory('json'))
+        },
+        {
+          label: 'As CSV…',
+          click: () => runTrayAction('Export failed', () => clipboardManager.exportHistory('csv'))
+        }
+      ]
+    },
+    {
+      label: 'Import History…',
+      click: () => runTrayAction('Import failed', () => clipboardManager.previewImport())
+    },
+    { type: 'separator' },
+    {
+      label: 'Quit',
+      click: () => app.quit()
+    }
+  ])
 
-  init() {
-    this.createWindow()
-    this.createTray()
-    this.setupIPC()
-    this.setupGlobalShortcuts()
-    this.startClipboardMonitoring()
-  }
+  tray.setContextMenu(contextMenu)
+  tray.setToolTip('Clipboard Manager')
 
-  cleanup() {
-    this.stopClipboardMonitoring()
-    globalShortcut.unregisterAll()
-  }
+  tray.on('click', () => {
+    clipboardManager.toggleWindow()
+  })
 }
 
-const clipboardManager = new ClipboardManager()
-
 app.whenReady().then(() => {
   // Hide app from dock (menu bar app only)
   if (process.platform === 'darwin' && app.dock) {
     app.dock.hide()
   }
+  createWindow()
+  createTray()
   clipboardManager.init()
 })
 
@@ -451,8 +264,9 @@ app.on('before-quit', () => {
   clipboardManager.cleanup()
 })
 
+// The manager outlives its window, so only the window is recreated
 app.on('activate', () => {
   if (BrowserWindow.getAllWindows().length === 0) {
-    clipboardManager.init()
+    createWindow()
   }
-})
\ No newline at end of file
+})
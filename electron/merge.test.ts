@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { MergeError, mergeTexts } from './merge'
+
+describe('mergeTexts', () => {
+  it('joins with the chosen separator', () => {
+    expect(mergeTexts(['a', 'b', 'c'], { separator: 'newline', format: 'plain' })).toBe('a\nb\nc')
+    expect(mergeTexts(['a', 'b'], { separator: 'comma', format: 'plain' })).toBe('a, b')
+    expect(mergeTexts(['a', 'b'], { separator: 'space', format: 'plain' })).toBe('a b')
+  })
+
+  it('understands escapes in a custom separator', () => {
+    expect(mergeTexts(['a', 'b'], { separator: 'custom', customSeparator: ' | ', format: 'plain' })).toBe('a | b')
+    expect(mergeTexts(['a', 'b'], { separator: 'custom', customSeparator: '\\n---\\n', format: 'plain' })).toBe('a\n---\nb')
+    expect(mergeTexts(['a', 'b'], { separator: 'custom', customSeparator: '\\t', format: 'plain' })).toBe('a\tb')
+  })
+
+  it('formats a Markdown list, keeping multi-line items in their bullet', () => {
+    expect(mergeTexts(['first', 'second\nline', '  third  '], { separator: 'comma', format: 'markdown' }))
+      .toBe('- first\n- second\n  line\n- third')
+  })
+
+  it('formats a JSON array', () => {
+    expect(JSON.parse(mergeTexts(['a', 'say "hi"'], { separator: 'comma', format: 'json' }))).toEqual(['a', 'say "hi"'])
+  })
+
+  it('rejects an empty selection', () => {
+    expect(() => mergeTexts([], { separator: 'newline', format: 'plain' })).toThrow(MergeError)
+  })
+})
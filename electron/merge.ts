@@ -0,0 +1,41 @@
+import type { MergeOptions } from './types'
+
+export class MergeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MergeError'
+  }
+}
+
+const SEPARATORS: Record<Exclude<MergeOptions['separator'], 'custom'>, string> = {
+  newline: '\n',
+  comma: ', ',
+  space: ' '
+}
+
+// Custom separators are typed into a single-line field, so allow \n and \t escapes
+function unescapeSeparator(separator: string): string {
+  return separator.replace(/\\([nt\\])/g, (_, char: string) => char === 'n' ? '\n' : char === 't' ? '\t' : '\\')
+}
+
+// Joins the plain text of several items. Lists and arrays bring their own structure, so the
+// separator only applies to plain joins.
+export function mergeTexts(texts: string[], options: MergeOptions): string {
+  if (texts.length === 0) {
+    throw new MergeError('Nothing to merge')
+  }
+
+  switch (options.format) {
+    case 'markdown':
+      // Continuation lines are indented so multi-line items stay inside their bullet
+      return texts.map(text => `- ${text.trim().replace(/\r?\n/g, '\n  ')}`).join('\n')
+    case 'json':
+      return JSON.stringify(texts, null, 2)
+    default: {
+      const separator = options.separator === 'custom'
+        ? unescapeSeparator(options.customSeparator ?? '')
+        : SEPARATORS[options.separator]
+      return texts.join(separator)
+    }
+  }
+}
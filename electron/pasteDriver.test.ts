@@ -0,0 +1,144 @@
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { describe, expect, it } from 'vitest'
+import { findExecutable, type CommandRunner } from './commands'
+import {
+  createPasteDriver, KeystrokePasteDriver, macBackend, xdotoolBackend, type PasteDriverOptions
+} from './pasteDriver'
+
+const noDelays = () => ({ pasteDelay: 0, activateDelay: 0 })
+
+// Records every command line; `fail` returns an error message for the calls that should fail
+function recordingRunner(output = '', fail: (command: string, args: string[]) => string | null = () => null) {
+  const calls: string[][] = []
+  const runner: CommandRunner = {
+    run: async (command, args) => {
+      calls.push([command, ...args])
+      const error = fail(command, args)
+      if (error) throw new Error(error)
+      return output
+    },
+    // Blocking calls would stall the main process each time the window opens
+    runSync: command => {
+      throw new Error(`${command} was run synchronously`)
+    }
+  }
+  return { runner, calls }
+}
+
+const driverFor = (options: Partial<PasteDriverOptions> & { installed?: string[] }) => createPasteDriver({
+  getDelays: noDelays,
+  ownAppNames: ['Clipboard Manager'],
+  runner: recordingRunner().runner,
+  hasCommand: name => (options.installed ?? []).includes(name),
+  ...options
+})
+
+describe('createPasteDriver', () => {
+  it('picks the backend for the platform and session', () => {
+    expect(driverFor({ platform: 'darwin', env: {}, installed: ['osascript'] }).name).toBe('osascript')
+    expect(driverFor({ platform: 'win32', env: {}, installed: ['powershell'] }).name).toBe('powershell')
+    expect(driverFor({ platform: 'linux', env: { DISPLAY: ':0' }, installed: ['xdotool', 'wtype'] }).name).toBe('xdotool')
+    expect(driverFor({ platform: 'linux', env: { WAYLAND_DISPLAY: 'wayland-0' }, installed: ['xdotool', 'wtype'] }).name).toBe('wtype')
+    expect(driverFor({ platform: 'linux', env: { XDG_SESSION_TYPE: 'wayland' }, installed: ['ydotool'] }).name).toBe('ydotool')
+    expect(driverFor({ platform: 'linux', env: { WAYLAND_DISPLAY: 'wayland-0', DISPLAY: ':0' }, installed: ['xdotool'] }).name).toBe('xdotool')
+  })
+
+  it('reports what to install when no backend is available', async () => {
+    const driver = driverFor({ platform: 'linux', env: { WAYLAND_DISPLAY: 'wayland-0' }, installed: [] })
+    expect(driver.capability()).toEqual({ driver: 'none', available: false, message: 'Install wtype or ydotool to paste automatically' })
+    expect(await driver.paste(0)).toMatchObject({ success: false, error: 'unavailable' })
+  })
+
+  it('returns to the window the tracker saw, never to its own', async () => {
+    const { runner, calls } = recordingRunner()
+    let active = { id: '7', app: 'foot' }
+    const tracker = { name: 'sway', commands: ['swaymsg'], activeWindow: () => active, focus: async (id: string) => { calls.push(['focus', id]) } }
+    const driver = driverFor({ platform: 'linux', env: { WAYLAND_DISPLAY: 'wayland-1' }, installed: ['wtype'], runner, tracker })
+
+    driver.rememberTarget()
+    active = { id: '9', app: 'clipboard manager' }
+    driver.rememberTarget()
+    await driver.paste(0)
+    expect(calls).toEqual([['focus', '7'], ['wtype', '-M', 'ctrl', 'v', '-m', 'ctrl']])
+  })
+
+  it('uses the mock driver when asked to', () => {
+    expect(driverFor({ platform: 'linux', env: { CLIPBOARD_MANAGER_PASTE_DRIVER: 'mock' } }).name).toBe('mock')
+  })
+})
+
+describe('KeystrokePasteDriver', () => {
+  it('passes the app name to AppleScript as an argument, never as script source', async () => {
+    const name = 'Evil" to activate\ndo shell script "touch /tmp/pwned'
+    const { runner, calls } = recordingRunner(name)
+    const driver = new KeystrokePasteDriver(macBackend(runner, ['Clipboard Manager']), noDelays)
+
+    driver.rememberTarget()
+    expect(await driver.paste(0)).toEqual({ success: true, method: 'osascript', message: 'Content pasted successfully' })
+
+    const activation = calls[1]
+    expect(activation.at(-1)).toBe(name)
+    expect(activation.slice(0, -1).join(' ')).not.toContain('Evil')
+  })
+
+  it('does not return to itself', async () => {
+    const { runner, calls } = recordingRunner('Clipboard Manager')
+    const driver = new KeystrokePasteDriver(macBackend(runner, ['Clipboard Manager']), noDelays)
+    driver.rememberTarget()
+    await driver.paste(0)
+    expect(calls.map(call => call.join(' ')).some(call => call.includes('activate'))).toBe(false)
+  })
+
+  it('reactivates the remembered window, pastes and moves the caret', async () => {
+    const { runner, calls } = recordingRunner('4194312')
+    const driver = new KeystrokePasteDriver(xdotoolBackend(runner), noDelays)
+    driver.rememberTarget()
+    await driver.paste(3)
+
+    expect(calls).toEqual([
+      ['xdotool', 'getactivewindow'],
+      ['xdotool', 'windowactivate', '--sync', '4194312'],
+      ['xdotool', 'key', '--clearmodifiers', 'ctrl+v'],
+      ['xdotool', 'key', '--clearmodifiers', '--repeat', '3', 'Left']
+    ])
+  })
+
+  it('still pastes when the remembered window is gone', async () => {
+    const { runner, calls } = recordingRunner('42', (_, args) => args[0] === 'windowactivate' ? 'BadWindow' : null)
+    const driver = new KeystrokePasteDriver(xdotoolBackend(runner), noDelays)
+    driver.rememberTarget()
+    expect((await driver.paste(0)).success).toBe(true)
+    expect(calls.at(-1)).toEqual(['xdotool', 'key', '--clearmodifiers', 'ctrl+v'])
+  })
+
+  it('reports a failed keystroke with advice', async () => {
+    const { runner } = recordingRunner('', () => 'System Events got an error: osascript is not allowed to send keystrokes. (1002)')
+    const driver = new KeystrokePasteDriver(macBackend(runner, []), noDelays)
+    const feedback = await driver.paste(0)
+    expect(feedback).toMatchObject({ success: false, error: 'failed', method: 'osascript' })
+    expect(feedback.message).toContain('Accessibility')
+  })
+
+  it('reports a paste whose caret could not be placed as a success', async () => {
+    const { runner } = recordingRunner('', (_, args) => args.includes('Left') ? 'failed' : null)
+    const driver = new KeystrokePasteDriver(xdotoolBackend(runner), noDelays)
+    expect(await driver.paste(2)).toEqual({ success: true, method: 'xdotool', message: 'Content pasted, but the cursor could not be placed' })
+  })
+})
+
+describe('findExecutable', () => {
+  it('finds executables on the PATH', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'paste-driver-'))
+    try {
+      const tool = join(dir, 'wtype')
+      writeFileSync(tool, '#!/bin/sh\n')
+      chmodSync(tool, 0o755)
+      expect(findExecutable('wtype', { PATH: dir }, 'linux')).toBe(true)
+      expect(findExecutable('ydotool', { PATH: dir }, 'linux')).toBe(false)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,308 @@
+import { isWaylandSession, type WindowTracker } from './activeApp'
+import { findExecutable, systemRunner, type CommandRunner } from './commands'
+import type { PasteDriver } from './drivers'
+import type { PasteCapability, PasteFeedback } from './types'
+
+// Linux evdev key codes, for ydotool
+const KEY_LEFTCTRL = 29
+const KEY_V = 47
+const KEY_LEFT = 105
+
+const ACCESSIBILITY_HINT = 'Allow Clipboard Manager in System Settings → Privacy & Security → Accessibility'
+
+export interface PasteDelays {
+  // Wait before pasting, so the window has time to hide
+  pasteDelay: number
+  // Wait after bringing the target app back to the front
+  activateDelay: number
+}
+
+// How one tool sends keystrokes. The driver around it handles delays and feedback.
+export interface KeystrokeBackend {
+  name: string
+  // Programs that must be installed
+  commands: string[]
+  // Identifies the window or app in front, when the backend can bring it back later
+  captureTarget?: () => Promise<string | null>
+  activate?: (target: string) => Promise<void>
+  sendPaste: () => Promise<void>
+  moveCaretLeft: (count: number) => Promise<void>
+  // Turns a failure into advice for the user
+  describeFailure?: (error: Error) => string
+}
+
+export function macBackend(runner: CommandRunner, ownAppNames: string[]): KeystrokeBackend {
+  const osascript = (...lines: string[]) => lines.flatMap(line => ['-e', line])
+  return {
+    name: 'osascript',
+    commands: ['osascript'],
+    captureTarget: async () => {
+      try {
+        const name = await runner.run('osascript', osascript('tell application "System Events" to return name of first application process whose frontmost is true'))
+        return name && !ownAppNames.includes(name) ? name : null
+      } catch {
+        return null
+      }
+    },
+    // The app name is passed as an argument to the script, never spliced into its source
+    activate: async target => {
+      await runner.run('osascript', [...osascript('on run argv', 'tell application (item 1 of argv) to activate', 'end run'), target])
+    },
+    sendPaste: async () => {
+      await runner.run('osascript', osascript('tell application "System Events" to keystroke "v" using command down'))
+    },
+    moveCaretLeft: async count => {
+      await runner.run('osascript', [
+        ...osascript('on run argv', 'repeat (item 1 of argv as integer) times', 'tell application "System Events" to key code 123', 'end repeat', 'end run'),
+        String(count)
+      ])
+    },
+    describeFailure: error => /not allowed|1002|assistive/i.test(error.message)
+      ? `Paste failed - ${ACCESSIBILITY_HINT}`
+      : 'Paste failed - please try pasting manually (Cmd+V)'
+  }
+}
+
+export function windowsBackend(runner: CommandRunner): KeystrokeBackend {
+  const sendKeys = (keys: string) => runner.run('powershell', [
+    '-NoProfile', '-NonInteractive', '-Command',
+    `Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait('${keys}')`
+  ])
+  return {
+    name: 'powershell',
+    commands: ['powershell'],
+    sendPaste: async () => {
+      await sendKeys('^v')
+    },
+    // `count` is a number, so nothing but digits reaches the script
+    moveCaretLeft: async count => {
+      await sendKeys(`{LEFT ${Math.floor(count)}}`)
+    }
+  }
+}
+
+export function xdotoolBackend(runner: CommandRunner): KeystrokeBackend {
+  return {
+    name: 'xdotool',
+    commands: ['xdotool'],
+    captureTarget: async () => {
+      try {
+        const id = await runner.run('xdotool', ['getactivewindow'])
+        return /^\d+$/.test(id) ? id : null
+      } catch {
+        return null
+      }
+    },
+    activate: async target => {
+      await runner.run('xdotool', ['windowactivate', '--sync', target])
+    },
+    sendPaste: async () => {
+      await runner.run('xdotool', ['key', '--clearmodifiers', 'ctrl+v'])
+    },
+    moveCaretLeft: async count => {
+      await runner.run('xdotool', ['key', '--clearmodifiers', '--repeat', String(count), 'Left'])
+    }
+  }
+}
+
+export function wtypeBackend(runner: CommandRunner): KeystrokeBackend {
+  return {
+    name: 'wtype',
+    commands: ['wtype'],
+    sendPaste: async () => {
+      await runner.run('wtype', ['-M', 'ctrl', 'v', '-m', 'ctrl'])
+    },
+    moveCaretLeft: async count => {
+      await runner.run('wtype', Array.from({ length: count }, () => ['-k', 'Left']).flat())
+    },
+    describeFailure: () => 'Paste failed - the compositor may not support virtual keyboards; try ydotool'
+  }
+}
+
+export function ydotoolBackend(runner: CommandRunner): KeystrokeBackend {
+  return {
+    name: 'ydotool',
+    commands: ['ydotool'],
+    sendPaste: async () => {
+      await runner.run('ydotool', ['key', `${KEY_LEFTCTRL}:1`, `${KEY_V}:1`, `${KEY_V}:0`, `${KEY_LEFTCTRL}:0`])
+    },
+    moveCaretLeft: async count => {
+      await runner.run('ydotool', ['key', ...Array.from({ length: count }, () => [`${KEY_LEFT}:1`, `${KEY_LEFT}:0`]).flat()])
+    },
+    describeFailure: () => 'Paste failed - make sure the ydotoold service is running'
+  }
+}
+
+// Lets a window tracker remember and refocus the target, for backends that only type keys.
+// Windows owned by this app are never remembered, so a paste does not return to the picker itself.
+export function withWindowTracker(backend: KeystrokeBackend, tracker: WindowTracker, ownAppNames: string[]): KeystrokeBackend {
+  const focus = tracker.focus
+  if (!focus) {
+    return backend
+  }
+  const ownNames = ownAppNames.map(name => name.toLowerCase())
+  return {
+    ...backend,
+    captureTarget: async () => {
+      const window = tracker.activeWindow()
+      return window && !ownNames.includes(window.app?.toLowerCase() ?? '') ? window.id : null
+    },
+    activate: focus
+  }
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const toError = (error: unknown) => error instanceof Error ? error : new Error(String(error))
+
+// Pastes by sending the system paste keystroke to the app that was in front before the window opened
+export class KeystrokePasteDriver implements PasteDriver {
+  private readonly backend: KeystrokeBackend
+  private readonly getDelays: () => PasteDelays
+  private target: string | null = null
+  // The capture in flight, which a paste waits for before returning to the target
+  private capturing: Promise<void> = Promise.resolve()
+
+  constructor(backend: KeystrokeBackend, getDelays: () => PasteDelays) {
+    this.backend = backend
+    this.getDelays = getDelays
+  }
+
+  get name() {
+    return this.backend.name
+  }
+
+  capability(): PasteCapability {
+    return { driver: this.backend.name, available: true }
+  }
+
+  rememberTarget() {
+    const captured = this.backend.captureTarget?.() ?? Promise.resolve(null)
+    // Chained so that overlapping captures land in the order they were asked for
+    this.capturing = Promise.all([this.capturing, captured]).then(([, target]) => {
+      this.target = target ?? this.target
+    })
+    return this.capturing
+  }
+
+  async paste(caretOffset: number): Promise<PasteFeedback> {
+    const { pasteDelay, activateDelay } = this.getDelays()
+    const method = this.backend.name
+    await Promise.all([wait(pasteDelay), this.capturing])
+
+    try {
+      if (this.target && this.backend.activate) {
+        try {
+          await this.backend.activate(this.target)
+          await wait(activateDelay)
+        } catch {
+          // The app may have quit; paste into whatever is in front instead
+          this.target = null
+        }
+      }
+      await this.backend.sendPaste()
+    } catch (error) {
+      const message = this.backend.describeFailure?.(toError(error)) ?? 'Paste failed - please try pasting manually'
+      return { success: false, error: 'failed', method, message }
+    }
+
+    if (caretOffset > 0) {
+      try {
+        await this.backend.moveCaretLeft(caretOffset)
+      } catch {
+        return { success: true, method, message: 'Content pasted, but the cursor could not be placed' }
+      }
+    }
+    return { success: true, method, message: 'Content pasted successfully' }
+  }
+}
+
+// Stands in when no backend is installed, so the user learns what is missing
+export class UnavailablePasteDriver implements PasteDriver {
+  readonly name = 'none'
+  private readonly message: string
+
+  constructor(message: string) {
+    this.message = message
+  }
+
+  capability(): PasteCapability {
+    return { driver: this.name, available: false, message: this.message }
+  }
+
+  async rememberTarget() {}
+
+  async paste(): Promise<PasteFeedback> {
+    return { success: false, error: 'unavailable', method: this.name, message: this.message }
+  }
+}
+
+// Records pastes instead of sending keystrokes. Used by tests, and selected at runtime with
+// CLIPBOARD_MANAGER_PASTE_DRIVER=mock so the paste flow can run on machines without a desktop.
+export class MockPasteDriver implements PasteDriver {
+  readonly name = 'mock'
+  readonly pastes: number[] = []
+  targetsRemembered = 0
+  // Replaces the successful result, to play a failing paste
+  nextResult: PasteFeedback | null = null
+
+  capability(): PasteCapability {
+    return { driver: this.name, available: true }
+  }
+
+  async rememberTarget() {
+    this.targetsRemembered++
+  }
+
+  async paste(caretOffset: number): Promise<PasteFeedback> {
+    this.pastes.push(caretOffset)
+    const result = this.nextResult ?? { success: true, method: this.name, message: 'Content pasted successfully' }
+    this.nextResult = null
+    return result
+  }
+}
+
+export interface PasteDriverOptions {
+  getDelays: () => PasteDelays
+  // Names this app runs under, which are never captured as the paste target
+  ownAppNames: string[]
+  platform?: NodeJS.Platform
+  env?: NodeJS.ProcessEnv
+  runner?: CommandRunner
+  hasCommand?: (name: string) => boolean
+  // Follows focus on Linux, where the keystroke tools cannot find their way back on their own
+  tracker?: WindowTracker | null
+}
+
+// Backends to try, best first. Under Wayland, xdotool still reaches apps running on XWayland.
+function candidateBackends(platform: NodeJS.Platform, env: NodeJS.ProcessEnv, runner: CommandRunner, ownAppNames: string[]): KeystrokeBackend[] {
+  switch (platform) {
+    case 'darwin':
+      return [macBackend(runner, ownAppNames)]
+    case 'win32':
+      return [windowsBackend(runner)]
+    default:
+      return isWaylandSession(env)
+        ? [wtypeBackend(runner), ydotoolBackend(runner), ...(env.DISPLAY ? [xdotoolBackend(runner)] : [])]
+        : [xdotoolBackend(runner)]
+  }
+}
+
+// Picks the first backend whose tools are installed
+export function createPasteDriver(options: PasteDriverOptions): PasteDriver {
+  const platform = options.platform ?? process.platform
+  const env = options.env ?? process.env
+  if (env.CLIPBOARD_MANAGER_PASTE_DRIVER === 'mock') {
+    return new MockPasteDriver()
+  }
+
+  const hasCommand = options.hasCommand ?? (name => findExecutable(name, env, platform))
+  const candidates = candidateBackends(platform, env, options.runner ?? systemRunner, options.ownAppNames)
+  const backend = candidates.find(candidate => candidate.commands.every(hasCommand))
+  if (backend) {
+    const tracked = options.tracker ? withWindowTracker(backend, options.tracker, options.ownAppNames) : backend
+    return new KeystrokePasteDriver(tracked, options.getDelays)
+  }
+  const tools = [...new Set(candidates.flatMap(candidate => candidate.commands))]
+  return new UnavailablePasteDriver(`Install ${tools.join(' or ')} to paste automatically`)
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { PasteStack } from './pasteStack'
+import type { ClipboardItem } from './types'
+
+const item = (id: string): ClipboardItem => ({ id, content: id, type: 'text', timestamp: Number(id) })
+
+describe('PasteStack', () => {
+  it('hands out items in first-in, first-out order', () => {
+    const stack = new PasteStack()
+    stack.start([item('1'), item('2')])
+    stack.push(item('3'))
+    expect([stack.next('fifo'), stack.next('fifo'), stack.next('fifo')].map(next => next?.id)).toEqual(['1', '2', '3'])
+    expect(stack.next('fifo')).toBeUndefined()
+  })
+
+  it('hands out items in last-in, first-out order', () => {
+    const stack = new PasteStack()
+    stack.start([item('1'), item('2')])
+    stack.push(item('3'))
+    expect([stack.next('lifo'), stack.next('lifo'), stack.next('lifo')].map(next => next?.id)).toEqual(['3', '2', '1'])
+  })
+
+  it('only collects copies while active', () => {
+    const stack = new PasteStack()
+    stack.push(item('1'))
+    expect(stack.size).toBe(0)
+
+    stack.start([])
+    stack.push(item('2'))
+    expect(stack.getState('fifo')).toEqual({ active: true, order: 'fifo', items: [item('2')] })
+
+    stack.stop()
+    expect(stack.getState('fifo')).toEqual({ active: false, order: 'fifo', items: [] })
+  })
+
+  it('lists the remaining items next one first', () => {
+    const stack = new PasteStack()
+    stack.start([item('1'), item('2'), item('3')])
+    expect(stack.getState('lifo').items.map(next => next.id)).toEqual(['3', '2', '1'])
+  })
+
+  it('drops items that are no longer kept', () => {
+    const stack = new PasteStack()
+    stack.start([item('1'), item('2'), item('3')])
+    stack.retain(next => next.id !== '2')
+    expect(stack.getState('fifo').items.map(next => next.id)).toEqual(['1', '3'])
+  })
+})
@@ -0,0 +1,50 @@
+import type { ClipboardItem, PasteStackState } from './types'
+
+// Items queued for pasting one at a time with the paste stack shortcut. While the stack is
+// active, new copies are added to it as well.
+export class PasteStack {
+  private items: ClipboardItem[] = []
+  private active = false
+
+  get isActive() {
+    return this.active
+  }
+
+  get size() {
+    return this.items.length
+  }
+
+  // Items are queued in the order given, which is the order they were selected in
+  start(items: ClipboardItem[]) {
+    this.items = [...items]
+    this.active = true
+  }
+
+  stop() {
+    this.items = []
+    this.active = false
+  }
+
+  push(item: ClipboardItem) {
+    if (this.active) {
+      this.items.push(item)
+    }
+  }
+
+  next(order: PasteStackState['order']): ClipboardItem | undefined {
+    return order === 'fifo' ? this.items.shift() : this.items.pop()
+  }
+
+  // Drops items that were deleted from the history since they were queued
+  retain(keep: (item: ClipboardItem) => boolean) {
+    this.items = this.items.filter(keep)
+  }
+
+  getState(order: PasteStackState['order']): PasteStackState {
+    return {
+      active: this.active,
+      order,
+      items: order === 'fifo' ? [...this.items] : [...this.items].reverse()
+    }
+  }
+}
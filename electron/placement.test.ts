@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { placeWindow } from './placement'
+
+const size = { width: 600, height: 700 }
+// A second monitor to the right of the first, below a 32px panel
+const workArea = { x: 1920, y: 32, width: 2560, height: 1408 }
+
+describe('placeWindow', () => {
+  it('opens below and to the right of the pointer', () => {
+    expect(placeWindow('cursor', { x: 2000, y: 100 }, size, workArea)).toEqual({ x: 2000, y: 100 })
+  })
+
+  it('flips to the other side of the pointer near the edges of the screen', () => {
+    expect(placeWindow('cursor', { x: 4400, y: 1400 }, size, workArea)).toEqual({ x: 3800, y: 700 })
+  })
+
+  it('stays inside the work area', () => {
+    expect(placeWindow('cursor', { x: 2000, y: 10 }, size, workArea)).toEqual({ x: 2000, y: 32 })
+    expect(placeWindow('cursor', { x: 2000, y: 500 }, { width: 600, height: 2000 }, workArea)).toEqual({ x: 2000, y: 32 })
+  })
+
+  it('centers on the display', () => {
+    expect(placeWindow('center', { x: 2000, y: 100 }, size, workArea)).toEqual({ x: 2900, y: 386 })
+  })
+})
@@ -0,0 +1,31 @@
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface Rect extends Point {
+  width: number
+  height: number
+}
+
+// Where the window opens, given the pointer and the work area of the display it is on. Next to
+// the pointer, the window opens below and to the right of it, flipping to the other side where
+// it would not fit, and is always kept inside the work area so panels and docks never cover it.
+export function placeWindow(placement: 'cursor' | 'center', cursor: Point, size: { width: number, height: number }, workArea: Rect): Point {
+  const clamp = (value: number, start: number, length: number, extent: number) =>
+    Math.round(Math.max(start, Math.min(value, start + length - extent)))
+
+  if (placement === 'center') {
+    return {
+      x: clamp(workArea.x + (workArea.width - size.width) / 2, workArea.x, workArea.width, size.width),
+      y: clamp(workArea.y + (workArea.height - size.height) / 2, workArea.y, workArea.height, size.height)
+    }
+  }
+
+  const x = cursor.x + size.width <= workArea.x + workArea.width ? cursor.x : cursor.x - size.width
+  const y = cursor.y + size.height <= workArea.y + workArea.height ? cursor.y : cursor.y - size.height
+  return {
+    x: clamp(x, workArea.x, workArea.width, size.width),
+    y: clamp(y, workArea.y, workArea.height, size.height)
+  }
+}
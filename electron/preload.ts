@@ -1,23 +1,69 @@
+import type {
+  ClipboardItem, Collection, CopyOptions, EncryptionStatus, ExportFilter, ExportFormat, ExportResult, HttpApiStatus, ImportPreview, ItemDetail, ImportResult, MergeOptions, PasteCapability, PasteFeedback, PasteStackState, PinnedState,
+  ScriptingStatus, SearchResult, SnippetDraft, StorageUsage, SyncStatus, TransformInfo, TransformOptions
+} from './types'
+import type { Settings } from './settings'
+import type { KeySource } from './vault'
+
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const { contextBridge, ipcRenderer } = require('electron')
 
-interface ClipboardItem {
-  id: string
-  content: string
-  type: 'text' | 'image' | 'html'
-  timestamp: number
-  preview?: string
-}
-
 const electronAPI = {
+  // Lets the renderer hide options that only apply to one operating system
+  platform: process.platform,
+
   getClipboardHistory: (): Promise<ClipboardItem[]> => {
     return ipcRenderer.invoke('get-clipboard-history')
   },
   
-  copyToClipboard: (item: ClipboardItem): Promise<void> => {
-    return ipcRenderer.invoke('copy-to-clipboard', item)
+  getItemContent: (id: string): Promise<string> => {
+    return ipcRenderer.invoke('get-item-content', id)
+  },
+
+  getItemDetail: (id: string): Promise<ItemDetail> => {
+    return ipcRenderer.invoke('get-item-detail', id)
+  },
+
+  copyToClipboard: (item: ClipboardItem, options?: CopyOptions): Promise<void> => {
+    return ipcRenderer.invoke('copy-to-clipboard', item, options)
+  },
+
+  copyRecognizedText: (id: string, options?: CopyOptions): Promise<void> => {
+    return ipcRenderer.invoke('copy-recognized-text', id, options)
+  },
+
+  getTemplateInputs: (id: string): Promise<string[]> => {
+    return ipcRenderer.invoke('get-template-inputs', id)
+  },
+
+  saveSnippet: (draft: SnippetDraft): Promise<PinnedState> => {
+    return ipcRenderer.invoke('save-snippet', draft)
   },
   
+  getPasteStack: (): Promise<PasteStackState> => {
+    return ipcRenderer.invoke('get-paste-stack')
+  },
+
+  startPasteStack: (ids: string[]): Promise<PasteStackState> => {
+    return ipcRenderer.invoke('start-paste-stack', ids)
+  },
+
+  stopPasteStack: (): Promise<PasteStackState> => {
+    return ipcRenderer.invoke('stop-paste-stack')
+  },
+
+  listTransforms: (): Promise<TransformInfo[]> => {
+    return ipcRenderer.invoke('list-transforms')
+  },
+
+  transformAndCopy: (id: string, transformId: string, options?: TransformOptions): Promise<void> => {
+    return ipcRenderer.invoke('transform-and-copy', id, transformId, options)
+  },
+
+  mergeAndCopy: (ids: string[], options: MergeOptions): Promise<void> => {
+    return ipcRenderer.invoke('merge-and-copy', ids, options)
+  },
+
   deleteClipboardItem: (id: string): Promise<ClipboardItem[]> => {
     return ipcRenderer.invoke('delete-clipboard-item', id)
   },
@@ -26,10 +72,126 @@ const electronAPI = {
     return ipcRenderer.invoke('clear-clipboard-history')
   },
   
+  searchHistory: (query: string): Promise<SearchResult[]> => {
+    return ipcRenderer.invoke('search-history', query)
+  },
+
+  getPinnedItems: (): Promise<PinnedState> => {
+    return ipcRenderer.invoke('get-pinned-items')
+  },
+
+  pinClipboardItem: (id: string, collectionId?: string): Promise<PinnedState> => {
+    return ipcRenderer.invoke('pin-clipboard-item', id, collectionId)
+  },
+
+  unpinClipboardItem: (id: string): Promise<PinnedState> => {
+    return ipcRenderer.invoke('unpin-clipboard-item', id)
+  },
+
+  createCollection: (name: string): Promise<Collection> => {
+    return ipcRenderer.invoke('create-collection', name)
+  },
+
+  renameCollection: (collectionId: string, name: string): Promise<PinnedState> => {
+    return ipcRenderer.invoke('rename-collection', collectionId, name)
+  },
+
+  deleteCollection: (collectionId: string): Promise<PinnedState> => {
+    return ipcRenderer.invoke('delete-collection', collectionId)
+  },
+
+  moveItemToCollection: (id: string, collectionId: string | null): Promise<PinnedState> => {
+    return ipcRenderer.invoke('move-item-to-collection', id, collectionId)
+  },
+  
+  exportHistory: (format: ExportFormat, filter?: ExportFilter): Promise<ExportResult | null> => {
+    return ipcRenderer.invoke('export-history', format, filter)
+  },
+
+  previewImport: (): Promise<ImportPreview | null> => {
+    return ipcRenderer.invoke('preview-import')
+  },
+
+  applyImport: (): Promise<ImportResult> => {
+    return ipcRenderer.invoke('apply-import')
+  },
+
+  cancelImport: (): Promise<void> => {
+    return ipcRenderer.invoke('cancel-import')
+  },
+
+  getEncryptionStatus: (): Promise<EncryptionStatus> => {
+    return ipcRenderer.invoke('get-encryption-status')
+  },
+
+  unlockHistory: (passphrase: string): Promise<EncryptionStatus> => {
+    return ipcRenderer.invoke('unlock-history', passphrase)
+  },
+
+  lockHistory: (): Promise<EncryptionStatus> => {
+    return ipcRenderer.invoke('lock-history')
+  },
+
+  enableEncryption: (keySource: KeySource, passphrase?: string): Promise<EncryptionStatus> => {
+    return ipcRenderer.invoke('enable-encryption', keySource, passphrase)
+  },
+
+  disableEncryption: (passphrase?: string): Promise<EncryptionStatus> => {
+    return ipcRenderer.invoke('disable-encryption', passphrase)
+  },
+
+  resetEncryptedHistory: (): Promise<EncryptionStatus> => {
+    return ipcRenderer.invoke('reset-encrypted-history')
+  },
+
   hideWindow: (): Promise<void> => {
     return ipcRenderer.invoke('hide-window')
   },
 
+  getPasteCapability: (): Promise<PasteCapability> => {
+    return ipcRenderer.invoke('get-paste-capability')
+  },
+
+  getScriptingStatus: (): Promise<ScriptingStatus> => {
+    return ipcRenderer.invoke('get-scripting-status')
+  },
+
+  getHttpApiStatus: (): Promise<HttpApiStatus> => {
+    return ipcRenderer.invoke('get-http-api-status')
+  },
+
+  resetHttpApiToken: (): Promise<HttpApiStatus> => {
+    return ipcRenderer.invoke('reset-http-api-token')
+  },
+
+  getSyncStatus: (): Promise<SyncStatus> => {
+    return ipcRenderer.invoke('get-sync-status')
+  },
+
+  enableSync: (folder: string, passphrase: string): Promise<SyncStatus> => {
+    return ipcRenderer.invoke('enable-sync', folder, passphrase)
+  },
+
+  disableSync: (): Promise<SyncStatus> => {
+    return ipcRenderer.invoke('disable-sync')
+  },
+
+  syncNow: (): Promise<SyncStatus> => {
+    return ipcRenderer.invoke('sync-now')
+  },
+
+  chooseSyncFolder: (): Promise<string | null> => {
+    return ipcRenderer.invoke('choose-sync-folder')
+  },
+
+  getStorageUsage: (): Promise<StorageUsage> => {
+    return ipcRenderer.invoke('get-storage-usage')
+  },
+
+  compactHistory: (): Promise<StorageUsage> => {
+    return ipcRenderer.invoke('compact-history')
+  },
+
   getAutoPasteSetting: (): Promise<boolean> => {
     return ipcRenderer.invoke('get-auto-paste-setting')
   },
@@ -38,6 +200,14 @@ const electronAPI = {
     return ipcRenderer.invoke('set-auto-paste-setting', enabled)
   },
 
+  getSettings: (): Promise<Settings> => {
+    return ipcRenderer.invoke('get-settings')
+  },
+
+  updateSettings: (patch: Partial<Settings>): Promise<Settings> => {
+    return ipcRenderer.invoke('update-settings', patch)
+  },
+
   onClipboardUpdated: (callback: (history: ClipboardItem[]) => void) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     ipcRenderer.on('clipboard-updated', (_event: any, history: ClipboardItem[]) => {
@@ -48,9 +218,93 @@ const electronAPI = {
     }
   },
 
-  onPasteFeedback: (callback: (feedback: { success: boolean, message: string }) => void) => {
+  onPinnedUpdated: (callback: (state: PinnedState) => void) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ipcRenderer.on('pinned-updated', (_event: any, state: PinnedState) => {
+      callback(state)
+    })
+    return () => {
+      ipcRenderer.removeAllListeners('pinned-updated')
+    }
+  },
+
+  onSettingsUpdated: (callback: (settings: Settings) => void) => {
+    // Several views subscribe to settings, so only remove this particular listener
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const listener = (_event: any, settings: Settings) => {
+      callback(settings)
+    }
+    ipcRenderer.on('settings-updated', listener)
+    return () => {
+      ipcRenderer.removeListener('settings-updated', listener)
+    }
+  },
+
+  onImportPreview: (callback: (preview: ImportPreview) => void) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ipcRenderer.on('import-preview', (_event: any, preview: ImportPreview) => {
+      callback(preview)
+    })
+    return () => {
+      ipcRenderer.removeAllListeners('import-preview')
+    }
+  },
+
+  onEncryptionStatusUpdated: (callback: (status: EncryptionStatus) => void) => {
+    // Both the lock screen and the preferences view follow the status
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const listener = (_event: any, status: EncryptionStatus) => {
+      callback(status)
+    }
+    ipcRenderer.on('encryption-status-updated', listener)
+    return () => {
+      ipcRenderer.removeListener('encryption-status-updated', listener)
+    }
+  },
+
+  onPasteStackUpdated: (callback: (state: PasteStackState) => void) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ipcRenderer.on('paste-stack-updated', (_event: any, state: PasteStackState) => {
+      callback(state)
+    })
+    return () => {
+      ipcRenderer.removeAllListeners('paste-stack-updated')
+    }
+  },
+
+  onScriptingStatus: (callback: (status: ScriptingStatus) => void) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ipcRenderer.on('scripting-status', (_event: any, status: ScriptingStatus) => {
+      callback(status)
+    })
+    return () => {
+      ipcRenderer.removeAllListeners('scripting-status')
+    }
+  },
+
+  onHttpApiStatus: (callback: (status: HttpApiStatus) => void) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ipcRenderer.on('http-api-status', (_event: any, status: HttpApiStatus) => {
+      callback(status)
+    })
+    return () => {
+      ipcRenderer.removeAllListeners('http-api-status')
+    }
+  },
+
+  onSyncStatus: (callback: (status: SyncStatus) => void) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ipcRenderer.on('sync-status', (_event: any, status: SyncStatus) => {
+      callback(status)
+    })
+    return () => {
+      ipcRenderer.removeAllListeners('sync-status')
+    }
+  },
+
+  onPasteFeedback: (callback: (feedback: PasteFeedback) => void) => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    ipcRenderer.on('paste-feedback', (_event: any, feedback: { success: boolean, message: string }) => {
+    ipcRenderer.on('paste-feedback', (_event: any, feedback: PasteFeedback) => {
       callback(feedback)
     })
     return () => {
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { detectLanguage, highlight } from './highlight'
+import { sanitizeHtml } from './html'
+import { describeCapture, describeText, findColors, textStats } from './previewers'
+
+describe('detectLanguage', () => {
+  it('recognizes common languages', () => {
+    expect(detectLanguage('const total = items.reduce((sum, item) => sum + item.size, 0);\nconsole.log(total)')).toBe('javascript')
+    expect(detectLanguage('def area(self, r):\n    return self.pi * r ** 2\n')).toBe('python')
+    expect(detectLanguage('{"name": "clip", "version": 2}')).toBe('json')
+    expect(detectLanguage('SELECT id, name FROM users WHERE active = 1 ORDER BY name')).toBe('sql')
+    expect(detectLanguage('#!/bin/bash\nnpm install && echo "${HOME}" | tee log')).toBe('shell')
+    expect(detectLanguage('.button {\n  color: #fff;\n  padding: 4px;\n}')).toBe('css')
+    expect(detectLanguage('<ul><li>one</li></ul>')).toBe('html')
+  })
+
+  it('leaves prose alone, even when it uses keywords', () => {
+    expect(detectLanguage('Please select a card from the deck where you can see it')).toBeUndefined()
+    expect(detectLanguage('Meet at noon (or later); bring the keys')).toBeUndefined()
+  })
+})
+
+describe('highlight', () => {
+  it('splits tokens into lines, keeping multi-line comments coloured on every line', () => {
+    const lines = highlight('/* a\n b */ return "x" // done', 'javascript')
+    expect(lines).toEqual([
+      [{ text: '/* a', kind: 'comment' }],
+      [{ text: ' b */', kind: 'comment' }, { text: ' ' }, { text: 'return', kind: 'keyword' }, { text: ' ' }, { text: '"x"', kind: 'string' }, { text: ' ' }, { text: '// done', kind: 'comment' }]
+    ])
+  })
+
+  it('does not find keywords inside identifiers', () => {
+    expect(highlight('format(interval)', 'javascript')).toEqual([[{ text: 'format(interval)' }]])
+  })
+
+  it('returns plain lines without a language', () => {
+    expect(highlight('one\r\n\ntwo')).toEqual([[{ text: 'one' }], [], [{ text: 'two' }]])
+  })
+})
+
+describe('sanitizeHtml', () => {
+  it('keeps formatting and drops anything that could run or load', () => {
+    const html = '<p onclick="steal()">Hi <b>there</b><script>alert(1)</script><img src="https://tracker.example/p.gif">' +
+      '<a href="javascript:alert(1)">bad</a> <a href="https://example.com" style="color:red">good</a></p><style>p{}</style>'
+    expect(sanitizeHtml(html)).toBe(
+      '<p>Hi <b>there</b><img><a>bad</a> <a href="https://example.com" rel="noopener noreferrer">good</a></p>'
+    )
+  })
+
+  it('balances tags and escapes text', () => {
+    expect(sanitizeHtml('<ul><li>a &lt; b<li>c</ul></div>')).toBe('<ul><li>a &lt; b<li>c</li></li></ul>')
+    expect(sanitizeHtml('<em>1 < 2')).toBe('<em>1 &lt; 2</em>')
+  })
+})
+
+describe('previewers', () => {
+  it('finds colour values once each, skipping numbers that look like issue references', () => {
+    expect(findColors('Use #1E90FF or rgb(255, 0, 0); not #123. Again: #1e90ff, hsl(120 50% 50%)'))
+      .toEqual(['#1E90FF', 'rgb(255, 0, 0)', 'hsl(120 50% 50%)'])
+  })
+
+  it('counts characters, words and lines', () => {
+    expect(textStats('héllo wörld\nagain')).toEqual({ chars: 17, words: 3, lines: 2 })
+    expect(textStats('')).toEqual({ chars: 0, words: 0, lines: 0 })
+  })
+
+  it('describes captures by type', () => {
+    expect(describeCapture({ type: 'text', content: 'x = {"a": 1};\nconsole.log(x)', alternates: {} })).toEqual({
+      preview: 'x = {"a": 1};\nconsole.log(x)',
+      metadata: { stats: { chars: 28, words: 5, lines: 2 }, language: 'javascript' }
+    })
+    expect(describeCapture({ type: 'html', content: '<p style="color: #ff0000">Red</p>', alternates: {} })).toEqual({
+      preview: 'Red',
+      metadata: { stats: { chars: 3, words: 1, lines: 1 }, colors: ['#ff0000'] }
+    })
+    expect(describeCapture({ type: 'files', content: '/a/one.txt\n/b/two.txt', alternates: {} }))
+      .toEqual({ preview: 'one.txt and 1 more', metadata: {} })
+  })
+
+  it('caps previews of long links and their titles', () => {
+    const url = `https://example.com/search?q=${'a'.repeat(200)}`
+    expect(describeCapture({ type: 'url', content: url, alternates: {} }).preview).toBe(url.substring(0, 100))
+    expect(describeCapture({ type: 'url', content: url, alternates: {}, title: 'Results' }).preview)
+      .toBe(`Results — ${url}`.substring(0, 100))
+  })
+
+  it('shows markup both rendered and as highlighted source', () => {
+    const detail = describeText('html', '<p>Hi</p>', 'Hi')
+    expect(detail).toMatchObject({ language: 'html', sanitizedHtml: '<p>Hi</p>', stats: { chars: 2 } })
+    expect(detail.lines?.[0]?.[0]).toEqual({ text: '<p', kind: 'tag' })
+  })
+})
@@ -0,0 +1,109 @@
+import type { CapturedContent } from './formats'
+import { detectLanguage, highlight } from './highlight'
+import { sanitizeHtml, stripHtml } from './html'
+import { rtfToText } from './rtf'
+import type { ClipboardItem, ItemDetail, ItemMetadata, TextStats } from './types'
+
+// How items describe themselves: the one-line preview the list shows, the metadata stored with
+// the item when it is captured, and the full detail the detail pane asks for. Each captured type
+// has a previewer; images are described by the watcher, which already knows their dimensions.
+
+const PREVIEW_LENGTH = 100
+const MAX_COLORS = 12
+// The detail pane shows this many lines at most
+const MAX_DETAIL_LINES = 5000
+
+const COLOR_PATTERN = /#(?:[\da-f]{8}|[\da-f]{6}|[\da-f]{3,4})\b|\b(?:rgb|hsl)a?\(\s*-?[\d.]+(?:deg|%)?(?:\s*[,/]?\s*[\d.]+%?){2,3}\s*\)/gi
+
+export interface ItemDescription {
+  preview: string
+  metadata: ItemMetadata
+}
+
+interface Previewer {
+  // What the item reads as, which the statistics are counted on
+  readText(captured: CapturedContent): string
+  preview(captured: CapturedContent, text: string): string
+}
+
+const titled = (captured: CapturedContent, text: string) => captured.title ? `${captured.title} — ${text}` : text
+
+const PREVIEWERS: Record<CapturedContent['type'], Previewer> = {
+  text: {
+    readText: captured => captured.content,
+    // Only snippets carry a title on text
+    preview: (captured, text) => titled(captured, text).substring(0, PREVIEW_LENGTH)
+  },
+  url: {
+    readText: captured => captured.content,
+    preview: (captured, text) => titled(captured, text).substring(0, PREVIEW_LENGTH)
+  },
+  html: {
+    readText: captured => captured.alternates.text ?? stripHtml(captured.content),
+    preview: (_, text) => text.substring(0, PREVIEW_LENGTH)
+  },
+  rtf: {
+    readText: captured => captured.alternates.text ?? rtfToText(captured.content),
+    preview: (_, text) => text.substring(0, PREVIEW_LENGTH)
+  },
+  files: {
+    readText: captured => captured.content,
+    preview: (_, text) => {
+      const names = text.split('\n').map(path => path.split(/[\\/]/).pop() || path)
+      return names.length > 1 ? `${names[0]} and ${names.length - 1} more` : names[0]
+    }
+  }
+}
+
+export function textStats(text: string): TextStats {
+  return {
+    chars: [...text].length,
+    words: text.match(/\S+/g)?.length ?? 0,
+    lines: text ? text.split(/\r\n?|\n/).length : 0
+  }
+}
+
+// Colour values in the text, each once. Hex values made of digits only are left out, since those
+// are far more often issue or order numbers.
+export function findColors(text: string): string[] {
+  const colors = new Map<string, string>()
+  for (const [match] of text.matchAll(COLOR_PATTERN)) {
+    if (/^#\d+$/.test(match)) continue
+    const key = match.toLowerCase().replace(/\s+/g, '')
+    if (!colors.has(key)) colors.set(key, match)
+    if (colors.size === MAX_COLORS) break
+  }
+  return [...colors.values()]
+}
+
+export function describeCapture(captured: CapturedContent): ItemDescription {
+  const previewer = PREVIEWERS[captured.type]
+  const text = previewer.readText(captured)
+  const metadata: ItemMetadata = {}
+  if (captured.type !== 'url' && captured.type !== 'files') {
+    metadata.stats = textStats(text)
+    const language = captured.type === 'text' ? detectLanguage(text) : undefined
+    if (language) metadata.language = language
+    // Markup keeps its colours in the source, in inline styles
+    const colors = findColors(captured.type === 'html' ? captured.content : text)
+    if (colors.length > 0) metadata.colors = colors
+  }
+  return { preview: previewer.preview(captured, text), metadata }
+}
+
+// The detail of a text-like item: its source with line numbers, highlighted when it is code or
+// markup, and the rendered markup for HTML
+export function describeText(type: Exclude<ClipboardItem['type'], 'image'>, source: string, plainText: string): Omit<ItemDetail, 'id' | 'type'> {
+  const language = type === 'html' ? 'html' : type === 'text' ? detectLanguage(source) : undefined
+  const lines = highlight(source, language)
+  const truncated = lines.length > MAX_DETAIL_LINES
+  const colors = type === 'url' || type === 'files' ? [] : findColors(type === 'html' ? source : plainText)
+  return {
+    lines: truncated ? lines.slice(0, MAX_DETAIL_LINES) : lines,
+    ...(truncated ? { truncated } : {}),
+    ...(language ? { language } : {}),
+    ...(type === 'html' ? { sanitizedHtml: sanitizeHtml(source) } : {}),
+    stats: textStats(plainText),
+    ...(colors.length > 0 ? { colors } : {})
+  }
+}
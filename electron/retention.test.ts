@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { selectEvictions, summarizeUsage, type RetentionPolicy } from './retention'
+import type { ClipboardItem } from './types'
+
+const DAY = 24 * 60 * 60 * 1000
+const NOW = 100 * DAY
+
+const item = (id: string, timestamp: number, extra: Partial<ClipboardItem> = {}): ClipboardItem => ({
+  id, type: 'text', content: id, timestamp, size: 10, ...extra
+})
+
+const policy = (extra: Partial<RetentionPolicy> = {}): RetentionPolicy => ({
+  maxItems: 100, typeLimits: {}, maxBytes: 0, maxAge: 0, ...extra
+})
+
+const evicted = (history: ClipboardItem[], extra: Partial<RetentionPolicy>) => {
+  return selectEvictions(history, policy(extra), NOW).map(entry => entry.id)
+}
+
+describe('selectEvictions', () => {
+  it('evicts the least recently used items past the item limit', () => {
+    const history = [item('c', 30), item('b', 20, { lastUsedAt: 40 }), item('a', 10)]
+    expect(evicted(history, { maxItems: 2 })).toEqual(['a'])
+    expect(evicted(history, { maxItems: 1 })).toEqual(['c', 'a'])
+  })
+
+  it('counts each type against its own limit', () => {
+    const history = [item('url 2', 40, { type: 'url' }), item('text 2', 30), item('url 1', 20, { type: 'url' }), item('text 1', 10)]
+    expect(evicted(history, { typeLimits: { url: 1 } })).toEqual(['url 1'])
+    expect(evicted(history, { typeLimits: { url: 1, text: 1 } })).toEqual(['url 1', 'text 1'])
+  })
+
+  it('drops the least recently used items until the rest fits in the byte limit', () => {
+    const history = [item('small', 30, { size: 10 }), item('screenshot', 20, { size: 900, thumbnail: 'x'.repeat(50) }), item('note', 10, { size: 10 })]
+    expect(evicted(history, { maxBytes: 960 })).toEqual(['note'])
+    expect(evicted(history, { maxBytes: 500 })).toEqual(['note', 'screenshot'])
+  })
+
+  it('evicts items not used within the maximum age', () => {
+    const history = [item('recent', NOW - DAY), item('reused', NOW - 40 * DAY, { lastUsedAt: NOW - 2 * DAY }), item('stale', NOW - 40 * DAY)]
+    expect(evicted(history, { maxAge: 30 * DAY })).toEqual(['stale'])
+    expect(evicted(history, {})).toEqual([])
+  })
+})
+
+describe('summarizeUsage', () => {
+  it('totals history and pinned items by type', () => {
+    const usage = summarizeUsage(
+      [item('a', 1, { size: 100 }), item('b', 2, { type: 'image', size: 5000, thumbnail: 'x'.repeat(200) })],
+      [item('c', 3, { size: 50, pinned: true })],
+      4096
+    )
+    expect(usage.byType.text).toEqual({ count: 2, bytes: 150 })
+    expect(usage.byType.image).toEqual({ count: 1, bytes: 5200 })
+    expect(usage.byType.url).toEqual({ count: 0, bytes: 0 })
+    expect(usage.history).toEqual({ count: 2, bytes: 5300 })
+    expect(usage.pinned).toEqual({ count: 1, bytes: 50 })
+    expect(usage.diskBytes).toBe(4096)
+  })
+})
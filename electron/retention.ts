@@ -0,0 +1,80 @@
+import type { Settings } from './settings'
+import type { ClipboardItem, StorageUsage, UsageTotals } from './types'
+
+// Which history items the retention settings allow to stay. Pinned items are never passed in:
+// they are kept until removed by hand.
+
+export interface RetentionPolicy {
+  maxItems: number
+  typeLimits: Settings['typeLimits']
+  // 0 means no limit, for both
+  maxBytes: number
+  maxAge: number
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+export function retentionPolicy(settings: Settings): RetentionPolicy {
+  return {
+    maxItems: settings.maxHistoryItems,
+    typeLimits: settings.typeLimits,
+    maxBytes: settings.maxHistoryMegabytes * 1024 * 1024,
+    maxAge: settings.maxAgeDays * DAY
+  }
+}
+
+// What an item costs in storage: its payload and its thumbnail. Alternate representations are
+// not counted, since their size is only known by reading them.
+export function itemSize(item: ClipboardItem): number {
+  return (item.size ?? Buffer.byteLength(item.content)) + (item.thumbnail?.length ?? 0)
+}
+
+// When the item was last copied, or pasted from the history
+export function lastUsed(item: ClipboardItem): number {
+  return Math.max(item.timestamp, item.lastUsedAt ?? 0)
+}
+
+// The items that have to go, least recently used last. Age is counted from the last use, so an
+// old item that is still pasted often stays.
+export function selectEvictions(history: ClipboardItem[], policy: RetentionPolicy, now: number): ClipboardItem[] {
+  const kept: ClipboardItem[] = []
+  const evicted: ClipboardItem[] = []
+  const counts = new Map<ClipboardItem['type'], number>()
+  for (const item of [...history].sort((a, b) => lastUsed(b) - lastUsed(a))) {
+    const count = counts.get(item.type) ?? 0
+    const typeLimit = policy.typeLimits[item.type]
+    if ((policy.maxAge > 0 && now - lastUsed(item) > policy.maxAge) ||
+        kept.length >= policy.maxItems ||
+        (typeLimit !== undefined && count >= typeLimit)) {
+      evicted.push(item)
+    } else {
+      kept.push(item)
+      counts.set(item.type, count + 1)
+    }
+  }
+
+  if (policy.maxBytes > 0) {
+    let total = kept.reduce((sum, item) => sum + itemSize(item), 0)
+    while (total > policy.maxBytes && kept.length > 0) {
+      const item = kept.pop()!
+      total -= itemSize(item)
+      evicted.push(item)
+    }
+  }
+  return evicted
+}
+
+function totals(items: ClipboardItem[]): UsageTotals {
+  return { count: items.length, bytes: items.reduce((sum, item) => sum + itemSize(item), 0) }
+}
+
+export function summarizeUsage(history: ClipboardItem[], pinned: ClipboardItem[], diskBytes: number): StorageUsage {
+  const all = [...history, ...pinned]
+  const types: ClipboardItem['type'][] = ['text', 'url', 'html', 'rtf', 'files', 'image']
+  return {
+    byType: Object.fromEntries(types.map(type => [type, totals(all.filter(item => item.type === type))])) as StorageUsage['byType'],
+    history: totals(history),
+    pinned: totals(pinned),
+    diskBytes
+  }
+}
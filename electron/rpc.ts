@@ -0,0 +1,181 @@
+import { readFileSync } from 'fs'
+import { connect, type Socket } from 'net'
+import { homedir, tmpdir, userInfo } from 'os'
+import { join } from 'path'
+
+// The scripting protocol: JSON-RPC 2.0 over a Unix domain socket (a named pipe on Windows), one
+// JSON message per line. Methods are IPC channel names, and params are the arguments the renderer
+// would pass. A connection must first call `authenticate` with the token the app writes next to
+// the socket, which only the user who runs the app can read.
+
+export type RpcAccess = 'read' | 'write'
+
+// Every channel scripts may call. Encryption, settings and the file dialogs stay out of reach.
+export const RPC_METHODS = {
+  'get-clipboard-history': 'read',
+  'get-item-content': 'read',
+  'search-history': 'read',
+  'get-pinned-items': 'read',
+  'copy-to-clipboard': 'write',
+  'add-text-item': 'write',
+  'delete-clipboard-item': 'write',
+  'clear-clipboard-history': 'write',
+  'pin-clipboard-item': 'write',
+  'unpin-clipboard-item': 'write'
+} as const satisfies Record<string, RpcAccess>
+
+export type RpcMethod = keyof typeof RPC_METHODS
+
+export const RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  // The handler itself failed, e.g. for an unknown item
+  failed: -32000,
+  unauthenticated: -32001,
+  forbidden: -32002
+} as const
+
+export interface RpcRequest {
+  jsonrpc: '2.0'
+  id: number | string | null
+  method: string
+  params?: unknown[]
+}
+
+export interface RpcResponse {
+  jsonrpc: '2.0'
+  id: number | string | null
+  result?: unknown
+  error?: { code: number, message: string }
+}
+
+export class RpcError extends Error {
+  readonly code: number
+
+  constructor(code: number, message: string) {
+    super(message)
+    this.name = 'RpcError'
+    this.code = code
+  }
+}
+
+// Where the socket and its token live
+export interface RpcEndpoint {
+  // Holds the token, and the socket outside Windows; only its owner may enter it
+  dir: string
+  socketPath: string
+  tokenPath: string
+}
+
+// The same for the app and the CLI, so the CLI finds the app without being told where it is
+export function defaultRpcEndpoint(env: NodeJS.ProcessEnv = process.env, platform: NodeJS.Platform = process.platform): RpcEndpoint {
+  if (platform === 'win32') {
+    const dir = join(env.LOCALAPPDATA || join(homedir(), 'AppData', 'Local'), 'clipboard-manager')
+    return { dir, socketPath: `\\\\.\\pipe\\clipboard-manager-${userInfo().username}`, tokenPath: join(dir, 'token') }
+  }
+  const dir = env.XDG_RUNTIME_DIR
+    ? join(env.XDG_RUNTIME_DIR, 'clipboard-manager')
+    : join(tmpdir(), `clipboard-manager-${userInfo().uid}`)
+  return { dir, socketPath: join(dir, 'clip.sock'), tokenPath: join(dir, 'token') }
+}
+
+// Splits a stream into lines, for both ends of the connection
+export function onLines(socket: Socket, maxLength: number, handle: (line: string) => void) {
+  let buffer = ''
+  socket.setEncoding('utf8')
+  socket.on('data', (chunk: string) => {
+    buffer += chunk
+    let newline = buffer.indexOf('\n')
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim()
+      buffer = buffer.slice(newline + 1)
+      if (line) handle(line)
+      newline = buffer.indexOf('\n')
+    }
+    if (buffer.length > maxLength) {
+      socket.destroy()
+    }
+  })
+}
+
+// Responses can carry a whole history, including large items
+const MAX_RESPONSE_LENGTH = 256 * 1024 * 1024
+
+export class RpcClient {
+  private readonly socket: Socket
+  private nextId = 1
+  private pending = new Map<number, { resolve: (value: unknown) => void, reject: (error: Error) => void }>()
+
+  private constructor(socket: Socket) {
+    this.socket = socket
+    onLines(socket, MAX_RESPONSE_LENGTH, line => this.receive(line))
+    socket.on('close', () => this.failPending(new RpcError(RPC_ERRORS.failed, 'Clipboard Manager closed the connection')))
+    socket.on('error', error => this.failPending(error))
+  }
+
+  // Connects and authenticates with the token the app wrote
+  static async connect(endpoint: RpcEndpoint = defaultRpcEndpoint()): Promise<RpcClient> {
+    let token: string
+    try {
+      token = readFileSync(endpoint.tokenPath, 'utf8').trim()
+    } catch {
+      throw new RpcError(RPC_ERRORS.unauthenticated, 'Clipboard Manager is not running, or command line access is turned off in its preferences')
+    }
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const socket = connect(endpoint.socketPath)
+      socket.once('connect', () => resolve(socket))
+      socket.once('error', () => reject(new RpcError(RPC_ERRORS.failed, `Could not connect to Clipboard Manager at ${endpoint.socketPath}`)))
+    })
+    const client = new RpcClient(socket)
+    try {
+      await client.request('authenticate', [token])
+    } catch (error) {
+      client.close()
+      throw error
+    }
+    return client
+  }
+
+  call<T = unknown>(method: RpcMethod, ...params: unknown[]): Promise<T> {
+    return this.request(method, params) as Promise<T>
+  }
+
+  close() {
+    this.socket.end()
+  }
+
+  private request(method: string, params: unknown[]): Promise<unknown> {
+    const id = this.nextId++
+    const message: RpcRequest = { jsonrpc: '2.0', id, method, params }
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      this.socket.write(JSON.stringify(message) + '\n')
+    })
+  }
+
+  private receive(line: string) {
+    let response: RpcResponse
+    try {
+      response = JSON.parse(line)
+    } catch {
+      this.failPending(new RpcError(RPC_ERRORS.parseError, 'Clipboard Manager sent an unreadable response'))
+      return
+    }
+    const waiting = typeof response.id === 'number' ? this.pending.get(response.id) : undefined
+    if (!waiting) return
+    this.pending.delete(response.id as number)
+    if (response.error) {
+      waiting.reject(new RpcError(response.error.code, response.error.message))
+    } else {
+      waiting.resolve(response.result)
+    }
+  }
+
+  private failPending(error: Error) {
+    for (const { reject } of this.pending.values()) {
+      reject(error)
+    }
+    this.pending.clear()
+  }
+}
@@ -0,0 +1,118 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs'
+import { connect } from 'net'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { RpcClient, RpcError, RPC_ERRORS, type RpcEndpoint } from './rpc'
+import { HandlerTable, RpcServer, type ScriptingAccess } from './rpcServer'
+import { FakeIpc } from './testHarness'
+
+describe('RpcServer', () => {
+  let root: string
+  let endpoint: RpcEndpoint
+  let access: ScriptingAccess
+  let ipc: FakeIpc
+  let server: RpcServer
+  const clients: RpcClient[] = []
+
+  const client = async () => {
+    const connected = await RpcClient.connect(endpoint)
+    clients.push(connected)
+    return connected
+  }
+
+  beforeEach(async () => {
+    root = mkdtempSync(join(tmpdir(), 'rpc-'))
+    endpoint = { dir: join(root, 'run'), socketPath: join(root, 'run', 'clip.sock'), tokenPath: join(root, 'run', 'token') }
+    access = 'full'
+    ipc = new FakeIpc()
+    const handlers = new HandlerTable(ipc)
+    const history = ['alpha', 'beta']
+    handlers.handle('get-clipboard-history', () => history)
+    handlers.handle('add-text-item', (_, text: string) => history.unshift(text))
+    handlers.handle('get-item-content', (_, id: string) => {
+      throw new Error(`Clipboard item not found: ${id}`)
+    })
+    handlers.handle('unlock-history', () => 'unlocked')
+    server = new RpcServer(endpoint, { handlers, access: () => access })
+    await server.start()
+  })
+
+  afterEach(async () => {
+    clients.splice(0).forEach(connected => connected.close())
+    await server.stop()
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('serves the handlers the renderer uses', async () => {
+    const connected = await client()
+    await connected.call('add-text-item', 'gamma')
+    expect(await connected.call('get-clipboard-history')).toEqual(['gamma', 'alpha', 'beta'])
+    // Registered once, reachable from both sides
+    expect(await ipc.invoke('get-clipboard-history')).toEqual(['gamma', 'alpha', 'beta'])
+  })
+
+  it('keeps the token and socket private to the user', () => {
+    expect(statSync(endpoint.dir).mode & 0o777).toBe(0o700)
+    expect(statSync(endpoint.tokenPath).mode & 0o777).toBe(0o600)
+    expect(readFileSync(endpoint.tokenPath, 'utf8')).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('hangs up on calls before authentication and on a wrong token', async () => {
+    const exchange = async (request: object) => {
+      const socket = connect(endpoint.socketPath)
+      let received = ''
+      socket.setEncoding('utf8')
+      socket.on('data', (chunk: string) => {
+        received += chunk
+      })
+      await new Promise(resolve => {
+        socket.on('close', resolve)
+        socket.write(JSON.stringify({ jsonrpc: '2.0', id: 1, ...request }) + '\n')
+      })
+      return JSON.parse(received).error?.code
+    }
+
+    expect(await exchange({ method: 'get-clipboard-history' })).toBe(RPC_ERRORS.unauthenticated)
+    expect(await exchange({ method: 'authenticate', params: ['0'.repeat(64)] })).toBe(RPC_ERRORS.unauthenticated)
+  })
+
+  it('refuses methods outside the scripting allowlist', async () => {
+    const connected = await client()
+    await expect(connected.call('unlock-history' as never)).rejects.toMatchObject({ code: RPC_ERRORS.methodNotFound })
+  })
+
+  it('checks the access level on every call', async () => {
+    const connected = await client()
+    access = 'read'
+    expect(await connected.call('get-clipboard-history')).toHaveLength(2)
+    await expect(connected.call('add-text-item', 'nope')).rejects.toMatchObject({ code: RPC_ERRORS.forbidden })
+    access = 'off'
+    await expect(connected.call('get-clipboard-history')).rejects.toThrow('turned off')
+  })
+
+  it('passes handler errors on', async () => {
+    const connected = await client()
+    const error = await connected.call('get-item-content', '42').catch(error => error)
+    expect(error).toBeInstanceOf(RpcError)
+    expect(error).toMatchObject({ code: RPC_ERRORS.failed, message: 'Clipboard item not found: 42' })
+  })
+
+  it('issues a new token on every start and cleans up when stopped', async () => {
+    const oldToken = readFileSync(endpoint.tokenPath, 'utf8')
+    await server.stop()
+    expect(() => statSync(endpoint.socketPath)).toThrow()
+    await expect(RpcClient.connect(endpoint)).rejects.toThrow('not running')
+
+    // A socket file left behind by a crash does not block the next start
+    writeFileSync(endpoint.socketPath, '')
+    await server.start()
+    expect(readFileSync(endpoint.tokenPath, 'utf8')).not.toBe(oldToken)
+    expect(await (await client()).call('get-clipboard-history')).toHaveLength(2)
+  })
+
+  it('will not run twice on the same socket', async () => {
+    const second = new RpcServer(endpoint, { handlers: new HandlerTable(new FakeIpc()), access: () => 'full' })
+    await expect(second.start()).rejects.toThrow('already serving')
+  })
+})
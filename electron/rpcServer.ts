@@ -0,0 +1,207 @@
+import { randomBytes, timingSafeEqual } from 'crypto'
+import { chmodSync, lstatSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { connect, createServer, type Server, type Socket } from 'net'
+import type { IpcRegistrar } from './drivers'
+import { onLines, RPC_ERRORS, RPC_METHODS, RpcError, type RpcEndpoint, type RpcRequest, type RpcResponse } from './rpc'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Handler = (event: unknown, ...args: any[]) => unknown
+
+// Keeps every handler registered on it and passes it on, so setupIPC serves the renderer and
+// scripts from the same table
+export class HandlerTable implements IpcRegistrar {
+  private readonly forward: IpcRegistrar
+  private readonly handlers = new Map<string, Handler>()
+
+  constructor(forward: IpcRegistrar) {
+    this.forward = forward
+  }
+
+  handle(channel: string, listener: Handler) {
+    this.forward.handle(channel, listener)
+    this.handlers.set(channel, listener)
+  }
+
+  get(channel: string): Handler | undefined {
+    return this.handlers.get(channel)
+  }
+}
+
+// What scripts may do: nothing, look, or also change the history
+export type ScriptingAccess = 'off' | 'read' | 'full'
+
+export interface RpcServerOptions {
+  handlers: HandlerTable
+  access: () => ScriptingAccess
+}
+
+// Requests carry whole clipboard entries piped in from the command line
+const MAX_REQUEST_LENGTH = 64 * 1024 * 1024
+
+const isNamedPipe = (path: string) => path.startsWith('\\\\.\\pipe\\')
+
+// Refuses a directory someone else created or can look into, as could happen in a shared /tmp
+function prepareDirectory(dir: string) {
+  mkdirSync(dir, { recursive: true, mode: 0o700 })
+  if (process.platform === 'win32') return
+  const stats = lstatSync(dir)
+  if (!stats.isDirectory() || stats.uid !== process.getuid?.()) {
+    throw new Error(`${dir} is not a directory owned by this user`)
+  }
+  chmodSync(dir, 0o700)
+}
+
+// A socket file left behind by a crash accepts no connections and can be replaced; one that does
+// belongs to another running copy of the app
+function isSocketInUse(path: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const probe = connect(path)
+    probe.once('connect', () => {
+      probe.destroy()
+      resolve(true)
+    })
+    probe.once('error', () => resolve(false))
+  })
+}
+
+export class RpcServer {
+  private readonly endpoint: RpcEndpoint
+  private readonly options: RpcServerOptions
+  private server: Server | null = null
+  private token: Buffer | null = null
+  private readonly sockets = new Set<Socket>()
+
+  constructor(endpoint: RpcEndpoint, options: RpcServerOptions) {
+    this.endpoint = endpoint
+    this.options = options
+  }
+
+  get isRunning() {
+    return this.server !== null
+  }
+
+  // Writes a fresh token, so one read from an earlier run stops working
+  async start() {
+    if (this.server) return
+    const { dir, socketPath, tokenPath } = this.endpoint
+    prepareDirectory(dir)
+    if (!isNamedPipe(socketPath)) {
+      if (await isSocketInUse(socketPath)) {
+        throw new Error('Another copy of Clipboard Manager is already serving scripts')
+      }
+      rmSync(socketPath, { force: true })
+    }
+
+    const token = randomBytes(32)
+    rmSync(tokenPath, { force: true })
+    writeFileSync(tokenPath, token.toString('hex'), { mode: 0o600 })
+
+    const server = createServer(socket => this.accept(socket))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(socketPath, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+    if (!isNamedPipe(socketPath)) {
+      chmodSync(socketPath, 0o600)
+    }
+    this.server = server
+    this.token = token
+  }
+
+  async stop() {
+    const server = this.server
+    if (!server) return
+    this.server = null
+    this.token = null
+    // Gone before anything is awaited, so no new client can authenticate meanwhile
+    rmSync(this.endpoint.tokenPath, { force: true })
+    for (const socket of this.sockets) {
+      socket.destroy()
+    }
+    await new Promise<void>(resolve => server.close(() => resolve()))
+    if (!isNamedPipe(this.endpoint.socketPath)) {
+      rmSync(this.endpoint.socketPath, { force: true })
+    }
+  }
+
+  private accept(socket: Socket) {
+    this.sockets.add(socket)
+    socket.on('close', () => this.sockets.delete(socket))
+    socket.on('error', () => socket.destroy())
+
+    let authenticated = false
+    // Answered in order, one at a time, like the renderer's awaited calls
+    let queue = Promise.resolve()
+    onLines(socket, MAX_REQUEST_LENGTH, line => {
+      queue = queue.then(async () => {
+        const response = await this.respond(line, authenticated, () => {
+          authenticated = true
+        })
+        if (!socket.destroyed) {
+          socket.write(JSON.stringify(response) + '\n')
+          if (response.error?.code === RPC_ERRORS.unauthenticated) {
+            socket.end()
+          }
+        }
+      })
+    })
+  }
+
+  private async respond(line: string, authenticated: boolean, authenticate: () => void): Promise<RpcResponse> {
+    let request: RpcRequest
+    try {
+      request = JSON.parse(line)
+    } catch {
+      return { jsonrpc: '2.0', id: null, error: { code: RPC_ERRORS.parseError, message: 'Invalid JSON' } }
+    }
+    const id = request?.id ?? null
+    try {
+      return { jsonrpc: '2.0', id, result: await this.dispatch(request, authenticated, authenticate) }
+    } catch (error) {
+      const code = error instanceof RpcError ? error.code : RPC_ERRORS.failed
+      return { jsonrpc: '2.0', id, error: { code, message: error instanceof Error ? error.message : String(error) } }
+    }
+  }
+
+  private async dispatch(request: RpcRequest, authenticated: boolean, authenticate: () => void): Promise<unknown> {
+    if (request?.jsonrpc !== '2.0' || typeof request.method !== 'string' ||
+        (request.params !== undefined && !Array.isArray(request.params))) {
+      throw new RpcError(RPC_ERRORS.invalidRequest, 'Invalid request')
+    }
+    const params = request.params ?? []
+
+    if (request.method === 'authenticate') {
+      if (!this.checkToken(params[0])) {
+        throw new RpcError(RPC_ERRORS.unauthenticated, 'Invalid token')
+      }
+      authenticate()
+      return true
+    }
+    if (!authenticated) {
+      throw new RpcError(RPC_ERRORS.unauthenticated, 'Call authenticate first')
+    }
+
+    const required = Object.hasOwn(RPC_METHODS, request.method) ? RPC_METHODS[request.method as keyof typeof RPC_METHODS] : undefined
+    const handler = required && this.options.handlers.get(request.method)
+    if (!handler) {
+      throw new RpcError(RPC_ERRORS.methodNotFound, `Unknown method: ${request.method}`)
+    }
+    const access = this.options.access()
+    if (access === 'off' || (required === 'write' && access !== 'full')) {
+      throw new RpcError(RPC_ERRORS.forbidden, access === 'off'
+        ? 'Command line access is turned off'
+        : 'Command line access is read-only; allow changes in the preferences')
+    }
+    return await handler({}, ...params)
+  }
+
+  private checkToken(candidate: unknown): boolean {
+    if (!this.token || typeof candidate !== 'string') return false
+    const given = Buffer.from(candidate, 'utf8')
+    const expected = Buffer.from(this.token.toString('hex'), 'utf8')
+    return given.length === expected.length && timingSafeEqual(given, expected)
+  }
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { rtfToText } from './rtf'
+
+const document = (body: string, header = '\\ansi\\ansicpg1252') =>
+  `{\\rtf1${header}\\deff0{\\fonttbl{\\f0\\fswiss Helvetica;}}{\\colortbl;\\red255\\green0\\blue0;}\n` +
+  `{\\*\\generator Riched20 10.0;}\\f0\\fs24 ${body}}`
+
+describe('rtfToText', () => {
+  it('keeps the text and drops formatting, tables of fonts and colours, and ignorable groups', () => {
+    expect(rtfToText(document('Hello {\\b bold}\\par\nsecond\\tab line\\line third\\par'))).toBe('Hello bold\nsecond\tline\nthird')
+  })
+
+  it('unescapes braces and backslashes', () => {
+    expect(rtfToText(document('a \\{b\\} c\\\\d'))).toBe('a {b} c\\d')
+  })
+
+  it('reads \\u escapes and skips their fallback characters', () => {
+    expect(rtfToText(document('caf\\u233?, {\\uc2\\u8364 EU} and \\u-10179?\\u-8704? face'))).toBe('café, € and 😀 face')
+    expect(rtfToText(document('\\u8220\\\'93quoted\\u8221\\\'94'))).toBe('\u201cquoted\u201d')
+  })
+
+  it('decodes \\\'xx escapes in the document code page', () => {
+    expect(rtfToText(document("\\'93smart\\'94 \\'80 5 \\'96 caf\\'e9"))).toBe('\u201csmart\u201d € 5 – café')
+    expect(rtfToText(document("\\'cf\\'f0\\'e8\\'e2\\'e5\\'f2", '\\ansi\\ansicpg1251'))).toBe('Привет')
+    expect(rtfToText(document("\\'82\\'b1\\'82\\'f1", '\\ansi\\ansicpg932'))).toBe('こん')
+    expect(rtfToText(document("\\'d2rich\\'d3", '\\mac'))).toBe('\u201crich\u201d')
+  })
+})
@@ -0,0 +1,141 @@
+// Destinations whose text is metadata rather than document content
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'footer',
+  'headerl', 'headerr', 'footerl', 'footerr', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'themedata'
+])
+
+// \ansicpg values whose WHATWG encoding name is not simply windows-<number>
+const CODEPAGE_ENCODINGS: Record<number, string> = {
+  866: 'ibm866', 932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5', 10000: 'macintosh', 65001: 'utf-8'
+}
+
+// Windows-1252 bytes 0x80-0x9f, where it differs from Latin-1; Node's decoder for it is plain Latin-1
+const CP1252_HIGH = '€\x81‚ƒ„…†‡ˆ‰Š‹Œ\x8dŽ\x8f\x90‘’“”•–—˜™š›œ\x9džŸ'
+
+type BytesDecoder = (bytes: Uint8Array) => string
+
+const decodeCp1252: BytesDecoder = bytes =>
+  Array.from(bytes, byte => byte >= 0x80 && byte < 0xa0 ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte)).join('')
+
+// Decoder for the code page \'xx escapes are written in; Windows-1252 when it is unknown
+function codepageDecoder(codepage: number): BytesDecoder {
+  if (codepage === 1252) return decodeCp1252
+  try {
+    const decoder = new TextDecoder(CODEPAGE_ENCODINGS[codepage] ?? `windows-${codepage}`)
+    return bytes => decoder.decode(bytes)
+  } catch {
+    return decodeCp1252
+  }
+}
+
+interface GroupState {
+  skip: boolean
+  // Number of fallback characters that follow each \u escape
+  unicodeSkip: number
+}
+
+// Returns the visible text of an RTF document; formatting and embedded objects are dropped
+export function rtfToText(rtf: string): string {
+  const stack: GroupState[] = []
+  let state: GroupState = { skip: false, unicodeSkip: 1 }
+  let pendingSkip = 0
+  let output = ''
+  let decode = codepageDecoder(1252)
+  // \'xx bytes are collected and decoded together, since double-byte code pages split characters across them
+  let bytes: number[] = []
+
+  const flush = () => {
+    if (bytes.length === 0) return
+    output += decode(Uint8Array.from(bytes))
+    bytes = []
+  }
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--
+      return
+    }
+    if (!state.skip) {
+      flush()
+      output += text
+    }
+  }
+
+  const emitByte = (byte: number) => {
+    if (pendingSkip > 0) {
+      pendingSkip--
+      return
+    }
+    if (!state.skip && !Number.isNaN(byte)) bytes.push(byte)
+  }
+
+  for (let i = 0; i < rtf.length; i++) {
+    const char = rtf[i]
+
+    if (char === '{') {
+      stack.push(state)
+      state = { ...state }
+      continue
+    }
+    if (char === '}') {
+      state = stack.pop() ?? state
+      continue
+    }
+    if (char === '\r' || char === '\n') {
+      continue
+    }
+    if (char !== '\\') {
+      emit(char)
+      continue
+    }
+
+    const next = rtf[i + 1]
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next)
+      i++
+    } else if (next === '\'') {
+      emitByte(parseInt(rtf.substr(i + 2, 2), 16))
+      i += 3
+    } else if (next === '*') {
+      // Ignorable destination: skip the group unless it is understood, which none are here
+      state.skip = true
+      i++
+    } else if (next === '~') {
+      emit(' ')
+      i++
+    } else if (next === '\n' || next === '\r') {
+      emit('\n')
+      i++
+    } else {
+      const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40))
+      if (!match) {
+        i++
+        continue
+      }
+      i += match[0].length
+      const [, word, param] = match
+      if (SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true
+      } else if (word === 'ansicpg' && param !== undefined) {
+        flush()
+        decode = codepageDecoder(Number(param))
+      } else if (word === 'mac') {
+        flush()
+        decode = codepageDecoder(10000)
+      } else if (word === 'par' || word === 'line') {
+        emit('\n')
+      } else if (word === 'tab') {
+        emit('\t')
+      } else if (word === 'uc' && param !== undefined) {
+        state.unicodeSkip = Number(param)
+      } else if (word === 'u' && param !== undefined) {
+        const code = Number(param)
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code))
+        pendingSkip = state.unicodeSkip
+      }
+    }
+  }
+
+  flush()
+  return output.replace(/\n+$/, '')
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { parseQuery, SearchIndex } from './search'
+import type { ClipboardItem } from './types'
+
+const item = (id: string, content: string, extra: Partial<ClipboardItem> = {}): ClipboardItem => ({
+  id,
+  content,
+  type: 'text',
+  timestamp: Number(id),
+  ...extra
+})
+
+function indexOf(...items: ClipboardItem[]) {
+  const index = new SearchIndex(entry => entry.content)
+  index.sync(items)
+  return index
+}
+
+describe('parseQuery', () => {
+  it('has nothing to match for an empty query', () => {
+    expect(parseQuery('')).toEqual({ terms: [], filters: { types: [], apps: [] } })
+    expect(parseQuery('   ')).toEqual({ terms: [], filters: { types: [], apps: [] } })
+  })
+
+  it('keeps quoted values together, for terms and operators alike', () => {
+    expect(parseQuery('"Hello World" app:"Visual Studio Code" type:URL')).toEqual({
+      terms: ['hello world'],
+      filters: { types: ['url'], apps: ['visual studio code'] }
+    })
+  })
+
+  it('reads dates and pinned state', () => {
+    expect(parseQuery('after:2024-01-02 before:2024-02-01 pinned:yes').filters).toEqual({
+      types: [],
+      apps: [],
+      after: new Date(2024, 0, 2).getTime(),
+      before: new Date(2024, 1, 1).getTime(),
+      pinned: true
+    })
+  })
+
+  it('searches for unknown operators and unreadable values as text', () => {
+    expect(parseQuery('type:video foo:bar before:yesterday app:')).toEqual({
+      terms: ['type:video', 'foo:bar', 'before:yesterday', 'app:'],
+      filters: { types: [], apps: [] }
+    })
+  })
+})
+
+describe('SearchIndex', () => {
+  it('lists everything newest first for an empty query', () => {
+    const results = indexOf(item('1', 'older'), item('2', 'newer')).search('')
+    expect(results.map(result => [result.snippet, result.highlights])).toEqual([['newer', []], ['older', []]])
+  })
+
+  it('filters by source app and type', () => {
+    const index = indexOf(
+      item('1', 'const a = 1', { sourceApp: 'Visual Studio Code' }),
+      item('2', 'https://example.com', { type: 'url', sourceApp: 'Safari' }),
+      item('3', 'const b = 2', { sourceApp: 'Terminal' })
+    )
+    expect(index.search('app:code').map(result => result.item.id)).toEqual(['1'])
+    expect(index.search('app:"visual studio" const').map(result => result.item.id)).toEqual(['1'])
+    expect(index.search('type:url').map(result => result.item.id)).toEqual(['2'])
+    expect(index.search('type:url const')).toEqual([])
+  })
+
+  it('needs every term to match and highlights each of them', () => {
+    const index = indexOf(item('1', 'Meeting notes for Tuesday'), item('2', 'Notes'))
+    const [result, ...rest] = index.search('notes tues')
+    expect(rest).toEqual([])
+    expect(result.highlights).toEqual([[8, 13], [18, 22]])
+  })
+
+  it('matches a quoted phrase only where it appears as written', () => {
+    const index = indexOf(item('1', 'hello world'), item('2', 'world, hello'))
+    expect(index.search('"hello world"').map(result => [result.item.id, result.highlights])).toEqual([['1', [[0, 11]]]])
+  })
+
+  it('highlights the letters of an abbreviation and a word with a typo', () => {
+    const index = indexOf(item('1', 'clipboard manager'))
+    expect(index.search('clpbrd')[0].highlights).toEqual([[0, 9]])
+    expect(index.search('manqger')[0].highlights).toEqual([[10, 17]])
+  })
+
+  it('moves the snippet to a match beyond the preview and shifts its highlight along', () => {
+    const text = 'x '.repeat(100) + 'needle'
+    const [result] = indexOf(item('1', text)).search('needle')
+    expect(result.snippet).toBe('…' + text.substring(170, 270))
+    expect(result.highlights).toEqual([[31, 37]])
+    expect(result.snippet.slice(31, 37)).toBe('needle')
+  })
+})
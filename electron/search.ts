@@ -0,0 +1,290 @@
+import type { ClipboardItem, SearchResult } from './types'
+
+type Range = [number, number]
+
+interface SearchFilters {
+  types: ClipboardItem['type'][]
+  apps: string[]
+  before?: number
+  after?: number
+  pinned?: boolean
+}
+
+export interface ParsedQuery {
+  terms: string[]
+  filters: SearchFilters
+}
+
+interface IndexedDoc {
+  item: ClipboardItem
+  key: string
+  text: string
+  lower: string
+  words?: { start: number, word: string }[]
+}
+
+interface TermMatch {
+  score: number
+  range: Range
+}
+
+const ITEM_TYPES: ClipboardItem['type'][] = ['text', 'image', 'html', 'rtf', 'url', 'files']
+const MAX_INDEXED_LENGTH = 50_000
+const PREVIEW_LENGTH = 100
+const SNIPPET_LEAD = 30
+
+function parseDate(value: string): number | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return undefined
+  // Interpreted as local midnight, which is what people mean when typing a date
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime()
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  if (['true', 'yes', '1'].includes(value)) return true
+  if (['false', 'no', '0'].includes(value)) return false
+  return undefined
+}
+
+function tokenize(query: string): string[] {
+  const tokens: string[] = []
+  const pattern = /(\w+:)?"([^"]*)"|\S+/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(query)) !== null) {
+    tokens.push(match[2] !== undefined ? `${match[1] ?? ''}${match[2]}` : match[0])
+  }
+  return tokens
+}
+
+// Splits a query into free-text terms and `key:value` operators.
+// Unknown operators and unparseable values are treated as plain search terms.
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], filters: { types: [], apps: [] } }
+
+  for (const token of tokenize(query)) {
+    const separator = token.indexOf(':')
+    const key = separator > 0 ? token.slice(0, separator).toLowerCase() : ''
+    const value = separator > 0 ? token.slice(separator + 1) : ''
+    const lowerValue = value.toLowerCase()
+
+    if (key === 'type' && ITEM_TYPES.includes(lowerValue as ClipboardItem['type'])) {
+      parsed.filters.types.push(lowerValue as ClipboardItem['type'])
+    } else if (key === 'app' && value) {
+      parsed.filters.apps.push(lowerValue)
+    } else if (key === 'before' && parseDate(value) !== undefined) {
+      parsed.filters.before = parseDate(value)
+    } else if (key === 'after' && parseDate(value) !== undefined) {
+      parsed.filters.after = parseDate(value)
+    } else if (key === 'pinned' && parseBoolean(lowerValue) !== undefined) {
+      parsed.filters.pinned = parseBoolean(lowerValue)
+    } else if (token) {
+      parsed.terms.push(token.toLowerCase())
+    }
+  }
+
+  return parsed
+}
+
+function matchesFilters(item: ClipboardItem, filters: SearchFilters): boolean {
+  if (filters.types.length > 0 && !filters.types.includes(item.type)) return false
+  if (filters.apps.length > 0) {
+    const app = item.sourceApp?.toLowerCase() ?? ''
+    if (!filters.apps.some(filter => app.includes(filter))) return false
+  }
+  if (filters.before !== undefined && item.timestamp >= filters.before) return false
+  if (filters.after !== undefined && item.timestamp < filters.after) return false
+  if (filters.pinned !== undefined && Boolean(item.pinned) !== filters.pinned) return false
+  return true
+}
+
+function isBoundary(text: string, index: number) {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1])
+}
+
+// Edit distance (with adjacent transpositions) capped at `max`; returns max + 1 when exceeded
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1)
+      }
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    beforePrevious = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function getWords(doc: IndexedDoc) {
+  if (!doc.words) {
+    doc.words = []
+    const pattern = /[\p{L}\p{N}_]+/gu
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(doc.lower)) !== null) {
+      doc.words.push({ start: match.index, word: match[0] })
+    }
+  }
+  return doc.words
+}
+
+// Scores a single term against a document: exact substrings rank highest, then
+// in-word subsequences ("clpbrd" -> "clipboard"), then single-typo word matches.
+function matchTerm(doc: IndexedDoc, term: string): TermMatch | null {
+  const index = doc.lower.indexOf(term)
+  if (index !== -1) {
+    let score = 100 + term.length * 2
+    if (isBoundary(doc.lower, index)) score += 20
+    if (index === 0) score += 10
+    return { score, range: [index, index + term.length] }
+  }
+
+  if (term.length < 3) return null
+
+  let best: TermMatch | null = null
+  for (const { start, word } of getWords(doc)) {
+    if (word.length < term.length - 1) continue
+
+    let position = 0
+    let first = -1
+    let last = -1
+    for (let i = 0; i < word.length && position < term.length; i++) {
+      if (word[i] === term[position]) {
+        if (first === -1) first = i
+        last = i
+        position++
+      }
+    }
+    if (position === term.length) {
+      const span = last - first + 1
+      if (span <= term.length * 2) {
+        const score = 60 - (span - term.length) * 4 - first * 2
+        if (!best || score > best.score) {
+          best = { score, range: [start + first, start + last + 1] }
+        }
+        continue
+      }
+    }
+
+    if (term.length >= 4) {
+      const candidate = word.slice(0, term.length)
+      if (editDistance(term, candidate, 1) <= 1) {
+        const score = 40
+        if (!best || score > best.score) {
+          best = { score, range: [start, start + candidate.length] }
+        }
+      }
+    }
+  }
+  return best
+}
+
+function mergeRanges(ranges: Range[]): Range[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: Range[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([range[0], range[1]])
+    }
+  }
+  return merged
+}
+
+// Picks the text shown in the result list: the normal preview when the matches fall
+// inside it, otherwise a window around the first match.
+function buildSnippet(text: string, ranges: Range[]): { snippet: string, highlights: Range[] } {
+  if (ranges.length === 0 || ranges[0][1] <= PREVIEW_LENGTH) {
+    const snippet = text.substring(0, PREVIEW_LENGTH)
+    return { snippet, highlights: ranges.filter(([, end]) => end <= PREVIEW_LENGTH) }
+  }
+
+  const start = Math.max(0, ranges[0][0] - SNIPPET_LEAD)
+  const prefix = start > 0 ? '…' : ''
+  const snippet = prefix + text.substring(start, start + PREVIEW_LENGTH)
+  const offset = prefix.length - start
+  const highlights = ranges
+    .filter(([from, to]) => from >= start && to <= start + PREVIEW_LENGTH)
+    .map(([from, to]): Range => [from + offset, to + offset])
+  return { snippet, highlights }
+}
+
+// In-memory index over the searchable text of every history and pinned item.
+// Documents are cached by item id, content hash and title so only new or edited items are re-indexed.
+export class SearchIndex {
+  private docs = new Map<string, IndexedDoc>()
+  private readonly getText: (item: ClipboardItem) => string
+
+  constructor(getText: (item: ClipboardItem) => string) {
+    this.getText = getText
+  }
+
+  sync(items: ClipboardItem[]) {
+    const seen = new Set<string>()
+    for (const item of items) {
+      seen.add(item.id)
+      const key = `${item.contentHash ?? item.content}\n${item.title ?? ''}\n${item.recognizedText ?? ''}`
+      const existing = this.docs.get(item.id)
+      if (existing && existing.key === key) {
+        existing.item = item
+        continue
+      }
+      let text = ''
+      try {
+        text = this.getText(item).substring(0, MAX_INDEXED_LENGTH)
+      } catch {
+        text = item.preview ?? ''
+      }
+      this.docs.set(item.id, { item, key, text, lower: text.toLowerCase() })
+    }
+    for (const id of this.docs.keys()) {
+      if (!seen.has(id)) {
+        this.docs.delete(id)
+      }
+    }
+  }
+
+  search(query: string, limit = 200): SearchResult[] {
+    const { terms, filters } = parseQuery(query)
+    const results: SearchResult[] = []
+
+    for (const doc of this.docs.values()) {
+      if (!matchesFilters(doc.item, filters)) continue
+
+      let score = 0
+      const ranges: Range[] = []
+      let matchedAll = true
+      for (const term of terms) {
+        const match = matchTerm(doc, term)
+        if (!match) {
+          matchedAll = false
+          break
+        }
+        score += match.score
+        ranges.push(match.range)
+      }
+      if (!matchedAll) continue
+
+      const { snippet, highlights } = buildSnippet(doc.text, mergeRanges(ranges))
+      results.push({ item: doc.item, score, snippet, highlights })
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || b.item.timestamp - a.item.timestamp)
+      .slice(0, limit)
+  }
+}
@@ -0,0 +1,83 @@
+export interface SensitiveMatch {
+  kind: string
+  label: string
+  // The matched text, used to build a masked preview
+  value: string
+}
+
+interface Detector {
+  kind: string
+  label: string
+  pattern: RegExp
+  verify?: (match: string) => boolean
+}
+
+// Clipboard formats that password managers set to ask clipboard tools not to record an entry
+export const CONCEALED_FORMATS = [
+  'org.nspasteboard.ConcealedType',
+  'org.nspasteboard.TransientType',
+  'org.nspasteboard.AutoGeneratedType',
+  'x-kde-passwordManagerHint',
+  'ExcludeClipboardContentFromMonitorProcessing'
+]
+
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '')
+  if (digits.length < 13 || digits.length > 19) return false
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const DETECTORS: Detector[] = [
+  { kind: 'private-key', label: 'Private key', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/ },
+  { kind: 'aws-access-key', label: 'AWS access key', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/ },
+  { kind: 'aws-secret-key', label: 'AWS secret key', pattern: /aws_secret_access_key\s*[=:]\s*["']?[A-Za-z0-9/+=]{40}/i },
+  { kind: 'github-token', label: 'GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/ },
+  { kind: 'jwt', label: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/ },
+  { kind: 'credit-card', label: 'Credit card number', pattern: /\b\d(?:[ -]?\d){12,18}\b/, verify: passesLuhn }
+]
+
+function findAll(pattern: RegExp, text: string): string[] {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g')
+  return Array.from(text.matchAll(global), match => match[0])
+}
+
+// Runs the built-in detectors, then the user's own patterns, and returns the first hit
+export function detectSensitive(text: string, customPatterns: string[] = []): SensitiveMatch | null {
+  for (const detector of DETECTORS) {
+    const candidates = detector.verify ? findAll(detector.pattern, text) : [detector.pattern.exec(text)?.[0]]
+    const value = candidates.find(candidate => candidate && (!detector.verify || detector.verify(candidate)))
+    if (value) {
+      return { kind: detector.kind, label: detector.label, value }
+    }
+  }
+
+  for (const source of customPatterns) {
+    try {
+      const match = new RegExp(source).exec(text)
+      if (match && match[0]) {
+        return { kind: 'custom', label: 'Custom rule', value: match[0] }
+      }
+    } catch {
+      // Invalid patterns are rejected when saved; ignore any that slipped through
+    }
+  }
+
+  return null
+}
+
+// Builds a preview that says what was detected without revealing it
+export function maskPreview(match: SensitiveMatch): string {
+  const visible = match.kind === 'credit-card'
+    ? `•••• ${match.value.replace(/\D/g, '').slice(-4)}`
+    : `${match.value.slice(0, 4)}••••••••`
+  return `${match.label}: ${visible}`
+}
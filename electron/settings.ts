@@ -0,0 +1,324 @@
+import type { ClipboardItem } from './types'
+
+// A capture rule for one application, matched case-insensitively on its name
+export interface AppRule {
+  app: string
+  action: 'ignore' | 'plainText' | 'expire'
+  // Minutes before items from the app are deleted, for the 'expire' action
+  expireMinutes?: number
+}
+
+export interface Settings {
+  autoPaste: boolean
+  maxHistoryItems: number
+  pollInterval: number
+  globalShortcut: string
+  windowWidth: number
+  windowHeight: number
+  hideOnBlur: boolean
+  // Delay before the paste keystroke is sent, giving the window time to hide
+  pasteDelay: number
+  // Delay after re-activating the previous app, before pasting into it
+  activateDelay: number
+  sensitiveDetection: boolean
+  // Whether detected secrets are dropped or kept with a masked preview
+  sensitiveAction: 'mask' | 'skip'
+  // Minutes before a masked secret is deleted; 0 keeps it until removed by hand
+  sensitiveTtlMinutes: number
+  // Extra regular expressions that mark content as sensitive
+  sensitivePatterns: string[]
+  // Skip entries that password managers flag as concealed or transient
+  ignoreConcealed: boolean
+  appRules: AppRule[]
+  // Pastes the next item of an active paste stack
+  pasteStackShortcut: string
+  // Whether the paste stack hands out the first or the last collected item next
+  pasteStackOrder: 'fifo' | 'lifo'
+  launchAtLogin: boolean
+  // Also record text that is merely selected (the PRIMARY selection), on Linux only
+  capturePrimarySelection: boolean
+  // Where the window opens: next to the mouse pointer, or centered on the screen the pointer is on
+  windowPlacement: 'cursor' | 'center'
+  // What the `clip` command line tool may do: nothing, read the history, or also change it
+  scriptingAccess: 'off' | 'read' | 'full'
+  // Serves the history to editor and browser extensions on 127.0.0.1
+  httpApi: boolean
+  httpApiPort: number
+  // Web origins, such as chrome-extension://<id>, allowed to call the HTTP API
+  httpApiOrigins: string[]
+  // What never leaves this machine through folder sync: item types, and detected secrets
+  syncExclude: ('text' | 'html' | 'rtf' | 'url' | 'files' | 'image' | 'sensitive')[]
+  // Most items of each type the history keeps; types without an entry only count towards maxHistoryItems
+  typeLimits: Partial<Record<ClipboardItem['type'], number>>
+  // Total size of the history; the least recently used items go first. 0 means no limit.
+  maxHistoryMegabytes: number
+  // Days since an item was last used before it is deleted; 0 keeps items regardless of age
+  maxAgeDays: number
+  // How the picker orders the history and search results
+  sortOrder: 'recent' | 'mostUsed' | 'frecency'
+  // Reads the text in copied images, on this machine, so screenshots can be searched
+  recognizeImageText: boolean
+}
+
+export interface StoredSettings {
+  version: number
+  values: Partial<Settings>
+}
+
+export const SETTINGS_VERSION = 1
+
+export const DEFAULT_SETTINGS: Settings = {
+  autoPaste: true,
+  maxHistoryItems: 100,
+  pollInterval: 300,
+  globalShortcut: 'CommandOrControl+Shift+V',
+  windowWidth: 600,
+  windowHeight: 700,
+  hideOnBlur: true,
+  pasteDelay: 300,
+  activateDelay: 500,
+  sensitiveDetection: true,
+  sensitiveAction: 'mask',
+  sensitiveTtlMinutes: 60,
+  sensitivePatterns: [],
+  ignoreConcealed: true,
+  appRules: [],
+  pasteStackShortcut: 'CommandOrControl+Alt+V',
+  pasteStackOrder: 'fifo',
+  launchAtLogin: false,
+  capturePrimarySelection: false,
+  windowPlacement: 'cursor',
+  scriptingAccess: 'off',
+  httpApi: false,
+  httpApiPort: 47823,
+  httpApiOrigins: [],
+  syncExclude: ['sensitive'],
+  typeLimits: {},
+  maxHistoryMegabytes: 500,
+  maxAgeDays: 0,
+  sortOrder: 'recent',
+  recognizeImageText: true
+}
+
+export class SettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SettingsError'
+  }
+}
+
+type FieldRule =
+  | { type: 'boolean' }
+  | { type: 'integer', min: number, max: number }
+  | { type: 'accelerator' }
+  | { type: 'enum', values: readonly string[] }
+  | { type: 'enumList', values: readonly string[] }
+  | { type: 'patterns' }
+  | { type: 'origins' }
+  | { type: 'appRules' }
+  | { type: 'typeLimits', max: number }
+
+const RULES: { [K in keyof Settings]: FieldRule } = {
+  autoPaste: { type: 'boolean' },
+  maxHistoryItems: { type: 'integer', min: 10, max: 5000 },
+  pollInterval: { type: 'integer', min: 100, max: 5000 },
+  globalShortcut: { type: 'accelerator' },
+  windowWidth: { type: 'integer', min: 320, max: 3840 },
+  windowHeight: { type: 'integer', min: 320, max: 2160 },
+  hideOnBlur: { type: 'boolean' },
+  pasteDelay: { type: 'integer', min: 0, max: 5000 },
+  activateDelay: { type: 'integer', min: 0, max: 5000 },
+  sensitiveDetection: { type: 'boolean' },
+  sensitiveAction: { type: 'enum', values: ['mask', 'skip'] },
+  sensitiveTtlMinutes: { type: 'integer', min: 0, max: 60 * 24 * 30 },
+  sensitivePatterns: { type: 'patterns' },
+  ignoreConcealed: { type: 'boolean' },
+  appRules: { type: 'appRules' },
+  pasteStackShortcut: { type: 'accelerator' },
+  pasteStackOrder: { type: 'enum', values: ['fifo', 'lifo'] },
+  launchAtLogin: { type: 'boolean' },
+  capturePrimarySelection: { type: 'boolean' },
+  windowPlacement: { type: 'enum', values: ['cursor', 'center'] },
+  scriptingAccess: { type: 'enum', values: ['off', 'read', 'full'] },
+  httpApi: { type: 'boolean' },
+  httpApiPort: { type: 'integer', min: 1024, max: 65535 },
+  httpApiOrigins: { type: 'origins' },
+  syncExclude: { type: 'enumList', values: ['text', 'html', 'rtf', 'url', 'files', 'image', 'sensitive'] },
+  typeLimits: { type: 'typeLimits', max: 5000 },
+  maxHistoryMegabytes: { type: 'integer', min: 0, max: 100 * 1024 },
+  maxAgeDays: { type: 'integer', min: 0, max: 3650 },
+  sortOrder: { type: 'enum', values: ['recent', 'mostUsed', 'frecency'] },
+  recognizeImageText: { type: 'boolean' }
+}
+
+const MODIFIERS = new Set([
+  'command', 'cmd', 'control', 'ctrl', 'commandorcontrol', 'cmdorctrl',
+  'alt', 'option', 'altgr', 'shift', 'super', 'meta'
+])
+const KEY_PATTERN = /^([a-z0-9]|f([1-9]|1[0-9]|2[0-4])|space|tab|backspace|delete|insert|return|enter|up|down|left|right|home|end|pageup|pagedown|escape|esc|plus|[`\-=[\]\\;',./])$/i
+
+const ITEM_TYPES: readonly ClipboardItem['type'][] = ['text', 'image', 'html', 'rtf', 'url', 'files']
+
+// scheme://host[:port] with nothing after it, as browsers send in the Origin header
+const ORIGIN_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/[^/\s?#]+$/i
+
+// Accepts Electron accelerator strings such as "CommandOrControl+Shift+V"
+export function isValidAccelerator(value: string): boolean {
+  const parts = value.split('+')
+  const key = parts.pop()
+  if (!key || parts.length === 0) return false
+  return parts.every(part => MODIFIERS.has(part.toLowerCase())) && KEY_PATTERN.test(key)
+}
+
+function validateField<K extends keyof Settings>(key: K, value: unknown): string | null {
+  const rule = RULES[key]
+  switch (rule.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false'
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) return 'must be a whole number'
+      if (value < rule.min || value > rule.max) return `must be between ${rule.min} and ${rule.max}`
+      return null
+    case 'accelerator':
+      return typeof value === 'string' && isValidAccelerator(value) ? null : 'is not a valid shortcut'
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value) ? null : `must be one of ${rule.values.join(', ')}`
+    case 'enumList':
+      if (!Array.isArray(value)) return 'must be a list'
+      for (const entry of value) {
+        if (typeof entry !== 'string' || !rule.values.includes(entry)) return `may only contain ${rule.values.join(', ')}`
+      }
+      return null
+    case 'patterns':
+      if (!Array.isArray(value) || !value.every(pattern => typeof pattern === 'string')) return 'must be a list of patterns'
+      for (const pattern of value) {
+        try {
+          new RegExp(pattern)
+        } catch {
+          return `contains an invalid pattern: ${pattern}`
+        }
+      }
+      return null
+    case 'origins':
+      if (!Array.isArray(value)) return 'must be a list of origins'
+      for (const origin of value) {
+        if (typeof origin !== 'string' || !ORIGIN_PATTERN.test(origin)) return `contains an invalid origin: ${origin}`
+      }
+      return null
+    case 'typeLimits':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return 'must map item types to limits'
+      for (const [type, limit] of Object.entries(value)) {
+        if (!ITEM_TYPES.includes(type as ClipboardItem['type'])) return `has an unknown item type: ${type}`
+        if (!Number.isInteger(limit) || limit < 1 || limit > rule.max) return `must keep between 1 and ${rule.max} ${type} items`
+      }
+      return null
+    case 'appRules':
+      if (!Array.isArray(value)) return 'must be a list of rules'
+      for (const rule of value as AppRule[]) {
+        if (!rule || typeof rule.app !== 'string' || !rule.app.trim()) return 'must name an application in every rule'
+        if (!['ignore', 'plainText', 'expire'].includes(rule.action)) return `has an unknown action for ${rule.app}`
+        if (rule.action === 'expire' &&
+            (!Number.isInteger(rule.expireMinutes) || rule.expireMinutes! < 1 || rule.expireMinutes! > 60 * 24 * 30)) {
+          return `needs an expiry between 1 and ${60 * 24 * 30} minutes for ${rule.app}`
+        }
+      }
+      return null
+  }
+}
+
+// The first rule naming the app applies
+export function findAppRule(rules: AppRule[], app: string | undefined): AppRule | undefined {
+  if (!app) return undefined
+  const name = app.toLowerCase()
+  return rules.find(rule => rule.app.trim().toLowerCase() === name)
+}
+
+// Checks a partial update, rejecting unknown keys and out-of-range values
+export function validateSettings(patch: Record<string, unknown>): Partial<Settings> {
+  const errors: string[] = []
+  for (const [key, value] of Object.entries(patch)) {
+    if (!(key in RULES)) {
+      errors.push(`Unknown setting "${key}"`)
+      continue
+    }
+    const error = validateField(key as keyof Settings, value)
+    if (error) {
+      errors.push(`${key} ${error}`)
+    }
+  }
+  if (errors.length > 0) {
+    throw new SettingsError(errors.join('; '))
+  }
+  return patch as Partial<Settings>
+}
+
+// Each entry upgrades stored settings from version `index` to `index + 1`
+const MIGRATIONS: ((stored: StoredSettings, legacy: Record<string, unknown>) => StoredSettings)[] = [
+  // v0 -> v1: the auto-paste flag used to be a top-level key of the history store
+  (stored, legacy) => ({
+    version: 1,
+    values: typeof legacy.autoPaste === 'boolean' ? { ...stored.values, autoPaste: legacy.autoPaste } : stored.values
+  })
+]
+
+export function migrateSettings(raw: StoredSettings | undefined, legacy: Record<string, unknown> = {}): StoredSettings {
+  let stored: StoredSettings = raw ?? { version: 0, values: {} }
+  while (stored.version < SETTINGS_VERSION) {
+    stored = MIGRATIONS[stored.version](stored, legacy)
+  }
+  return stored
+}
+
+// Drops stored values that no longer validate, so a bad hand-edit cannot break startup
+function sanitize(values: Partial<Settings>): Settings {
+  const settings: Settings = { ...DEFAULT_SETTINGS }
+  for (const key of Object.keys(RULES) as (keyof Settings)[]) {
+    if (key in values && validateField(key, values[key]) === null) {
+      Object.assign(settings, { [key]: values[key] })
+    }
+  }
+  return settings
+}
+
+type SettingsListener = (settings: Settings, previous: Settings) => void
+
+export class SettingsManager {
+  private settings: Settings
+  private listeners = new Set<SettingsListener>()
+  private readonly save: (stored: StoredSettings) => void
+
+  constructor(stored: StoredSettings | undefined, save: (stored: StoredSettings) => void, legacy: Record<string, unknown> = {}) {
+    this.save = save
+    const migrated = migrateSettings(stored, legacy)
+    this.settings = sanitize(migrated.values)
+    if (!stored || stored.version !== migrated.version) {
+      this.persist()
+    }
+  }
+
+  private persist() {
+    this.save({ version: SETTINGS_VERSION, values: this.settings })
+  }
+
+  get(): Settings {
+    return { ...this.settings }
+  }
+
+  update(patch: Record<string, unknown>): Settings {
+    const valid = validateSettings(patch)
+    const previous = this.settings
+    this.settings = { ...previous, ...valid }
+    this.persist()
+    for (const listener of this.listeners) {
+      listener(this.get(), previous)
+    }
+    return this.get()
+  }
+
+  onChange(listener: SettingsListener) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import type { ClipboardItem, Collection } from './types'
+
+export interface LibraryData {
+  history: ClipboardItem[]
+  pinned: ClipboardItem[]
+  collections: Collection[]
+}
+
+// Where the history, pinned items and collections are persisted
+export interface LibraryStorage {
+  load(): LibraryData
+  save(data: LibraryData): void
+}
+
+interface KeyValueStore {
+  get(key: keyof LibraryData): unknown
+  set(values: Partial<LibraryData>): void
+}
+
+export function emptyLibrary(): LibraryData {
+  return { history: [], pinned: [], collections: [] }
+}
+
+// Stores the library as plain JSON alongside the settings in electron-store
+export class PlainLibraryStorage implements LibraryStorage {
+  private readonly store: KeyValueStore
+
+  constructor(store: KeyValueStore) {
+    this.store = store
+  }
+
+  load(): LibraryData {
+    return {
+      history: (this.store.get('history') ?? []) as ClipboardItem[],
+      pinned: (this.store.get('pinned') ?? []) as ClipboardItem[],
+      collections: (this.store.get('collections') ?? []) as Collection[]
+    }
+  }
+
+  save(data: LibraryData) {
+    this.store.set(data)
+  }
+}
@@ -0,0 +1,155 @@
+import { appendFileSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { compactRecords, mergeRecords, SyncFolder, unlockSyncFolder, type SyncChange, type SyncItem, type SyncRecord } from './sync'
+
+const text = (content: string, timestamp: number): SyncItem => ({ type: 'text', content, timestamp })
+const add = (key: string, item: SyncItem): SyncChange => ({ op: 'add', key, item })
+
+describe('mergeRecords', () => {
+  const record = (device: string, seq: number, clock: number, change: SyncChange): SyncRecord => ({ device, seq, clock, change })
+
+  it('reaches the same state whatever order the logs are read in', () => {
+    const records = [
+      record('a', 1, 1, add('text:aa', text('alpha', 100))),
+      record('b', 1, 1, add('text:bb', text('beta', 200))),
+      // Concurrent: b deletes alpha while a pins it. The device id breaks the tie, so b wins.
+      record('a', 2, 2, { op: 'pin', key: 'text:aa', pinned: true }),
+      record('b', 2, 2, { op: 'delete', key: 'text:aa' })
+    ]
+    const forward = mergeRecords(records)
+    const backward = mergeRecords([...records].reverse())
+    expect(forward).toEqual(backward)
+    expect(forward.entries.map(entry => entry.key)).toEqual(['text:bb'])
+    expect(forward.known).toEqual(new Set(['text:aa', 'text:bb']))
+  })
+
+  it('keeps one entry per content, moved up when copied again', () => {
+    const state = mergeRecords([
+      record('a', 1, 1, add('text:aa', text('alpha', 100))),
+      record('b', 1, 2, add('text:bb', text('beta', 200))),
+      record('b', 2, 3, add('text:aa', text('alpha', 300)))
+    ])
+    expect(state.entries.map(entry => [entry.key, entry.item.timestamp])).toEqual([['text:aa', 300], ['text:bb', 200]])
+  })
+
+  it('clears everything but pinned items', () => {
+    const state = mergeRecords([
+      record('a', 1, 1, add('text:aa', text('alpha', 100))),
+      record('a', 2, 2, add('text:bb', text('beta', 200))),
+      record('a', 3, 3, { op: 'pin', key: 'text:aa', pinned: true }),
+      record('b', 1, 4, { op: 'clear' }),
+      record('a', 4, 5, add('text:cc', text('gamma', 300)))
+    ])
+    expect(state.entries.map(entry => [entry.key, entry.pinned])).toEqual([['text:cc', false], ['text:aa', true]])
+  })
+})
+
+describe('compactRecords', () => {
+  it('keeps only what still decides the state of each item', () => {
+    // A long, fixed but unpatterned run of changes from three devices over a handful of items
+    let seed = 7
+    const next = (limit: number) => (seed = (seed * 48271) % 2147483647) % limit
+    const keys = ['text:aa', 'text:bb', 'text:cc', 'text:dd', 'text:ee']
+    const records: SyncRecord[] = []
+    const seqs = new Map<string, number>()
+    for (let clock = 1; clock <= 2000; clock++) {
+      const device = ['a', 'b', 'c'][next(3)]
+      const key = keys[next(keys.length)]
+      const roll = next(100)
+      const change: SyncChange = roll < 60 ? add(key, text(key, next(1000)))
+        : roll < 80 ? { op: 'pin', key, pinned: next(2) === 0 }
+          : roll < 97 ? { op: 'delete', key }
+            : { op: 'clear' }
+      const seq = (seqs.get(device) ?? 0) + 1
+      seqs.set(device, seq)
+      records.push({ device, seq, clock: clock - next(2), change })
+    }
+
+    const compacted = compactRecords(records)
+    expect(mergeRecords(compacted)).toEqual(mergeRecords(records))
+    expect(compacted.length).toBeLessThanOrEqual(keys.length * 6 + 1)
+  })
+})
+
+describe('SyncFolder', () => {
+  let folder: string
+
+  beforeEach(() => {
+    folder = mkdtempSync(join(tmpdir(), 'sync-'))
+  })
+
+  afterEach(() => {
+    rmSync(folder, { recursive: true, force: true })
+  })
+
+  it('shares changes between devices through encrypted logs', () => {
+    const laptop = new SyncFolder(folder, 'laptop', unlockSyncFolder(folder, 'correct horse'))
+    const desktop = new SyncFolder(folder, 'desktop', unlockSyncFolder(folder, 'correct horse'))
+
+    laptop.append([add('text:aa', text('meet at noon', 100))])
+    desktop.append([add('text:bb', text('buy milk', 200))])
+    expect(laptop.read().map(record => record.device).sort()).toEqual(['desktop', 'laptop'])
+    expect(mergeRecords(desktop.read())).toEqual(mergeRecords(laptop.read()))
+    expect(laptop.devices().sort()).toEqual(['desktop', 'laptop'])
+
+    // The folder host only ever sees ciphertext
+    const logs = readdirSync(join(folder, 'clipboard-sync')).map(name => readFileSync(join(folder, 'clipboard-sync', name), 'utf8'))
+    expect(logs.join()).not.toContain('meet at noon')
+    expect(logs.join()).not.toContain('buy milk')
+  })
+
+  it('orders a device after everything it has seen', () => {
+    const key = unlockSyncFolder(folder, 'correct horse')
+    const laptop = new SyncFolder(folder, 'laptop', key)
+    const desktop = new SyncFolder(folder, 'desktop', key)
+    laptop.append([add('text:aa', text('alpha', 100)), add('text:bb', text('beta', 100))])
+    desktop.append([{ op: 'delete', key: 'text:aa' }])
+
+    const records = new SyncFolder(folder, 'laptop', key).read()
+    expect(records.find(record => record.device === 'desktop')).toMatchObject({ seq: 1, clock: 3 })
+    expect(mergeRecords(records).entries.map(entry => entry.key)).toEqual(['text:bb'])
+  })
+
+  it('rejects a wrong passphrase', () => {
+    unlockSyncFolder(folder, 'correct horse')
+    expect(() => unlockSyncFolder(folder, 'battery staple')).toThrow('Wrong sync passphrase')
+    expect(() => unlockSyncFolder(join(folder, 'missing'), 'correct horse')).toThrow('does not exist')
+  })
+
+  it('rewrites its own log once most of it is superseded, and others read it again', () => {
+    const key = unlockSyncFolder(folder, 'correct horse')
+    const laptop = new SyncFolder(folder, 'laptop', key)
+    const desktop = new SyncFolder(folder, 'desktop', key)
+    const log = join(folder, 'clipboard-sync', 'laptop.log')
+    const copies = (from: number) => Array.from({ length: 600 }, (_, index) => add('text:aa', text('alpha', from + index)))
+
+    laptop.append(copies(0))
+    desktop.read()
+    laptop.append(copies(600))
+    expect(readFileSync(log, 'utf8').split('\n')).toHaveLength(1201)
+
+    laptop.append([add('text:bb', text('beta', 2000))])
+    expect(readFileSync(log, 'utf8').split('\n').length).toBeLessThan(10)
+    expect(mergeRecords(desktop.read())).toEqual(mergeRecords(laptop.read()))
+    expect(mergeRecords(new SyncFolder(folder, 'phone', key).read())).toEqual(mergeRecords(laptop.read()))
+    expect(mergeRecords(laptop.read()).entries.map(entry => [entry.key, entry.item.timestamp]))
+      .toEqual([['text:bb', 2000], ['text:aa', 1199]])
+  })
+
+  it('waits for lines still being copied in and skips damaged ones', () => {
+    const key = unlockSyncFolder(folder, 'correct horse')
+    const laptop = new SyncFolder(folder, 'laptop', key)
+    laptop.append([add('text:aa', text('alpha', 100))])
+    const log = join(folder, 'clipboard-sync', 'laptop.log')
+    const [line] = readFileSync(log, 'utf8').split('\n')
+
+    const desktop = new SyncFolder(folder, 'desktop', key)
+    appendFileSync(log, 'not a record\n' + line.slice(0, 10))
+    expect(desktop.read()).toHaveLength(1)
+    expect(desktop.skippedLines).toBe(1)
+    appendFileSync(log, line.slice(10) + '\n')
+    expect(desktop.read()).toHaveLength(2)
+  })
+})
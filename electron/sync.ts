@@ -0,0 +1,420 @@
+import { appendFileSync, closeSync, existsSync, fstatSync, mkdirSync, openSync, readdirSync, readFileSync, readSync, renameSync, writeFileSync } from 'fs'
+import { randomBytes } from 'crypto'
+import { join } from 'path'
+import type { Settings } from './settings'
+import type { ClipboardItem, Representation } from './types'
+import { createBlobCipher, derivePassphraseKey, type BlobCipher } from './vault'
+
+// Shares the history between machines through a folder that something else keeps in sync, such
+// as a cloud drive or a network mount. Every device appends its changes to a log file of its own,
+// so no file ever has two writers and the folder never sees a write conflict. Each line of a log
+// is one change, encrypted with a key derived from the sync passphrase, so whoever hosts the
+// folder only sees ciphertext.
+//
+// All devices read all logs and replay them in the same order, so they arrive at the same
+// history. Items are identified by type and content hash, which makes the same text copied on
+// two machines one item.
+
+export type SyncCategory = Settings['syncExclude'][number]
+
+// The portable form of an item, with every payload inline
+export interface SyncItem {
+  type: ClipboardItem['type']
+  // Text, markup or paths; a base64 PNG for images
+  content: string
+  timestamp: number
+  preview?: string
+  title?: string
+  sourceApp?: string
+  sensitive?: string
+  template?: boolean
+  alternates?: Partial<Record<Representation, string>>
+}
+
+export type SyncChange =
+  | { op: 'add', key: string, item: SyncItem }
+  | { op: 'delete', key: string }
+  | { op: 'pin', key: string, pinned: boolean }
+  // Removes every item that is not pinned, as clearing the history does
+  | { op: 'clear' }
+
+export interface SyncRecord {
+  device: string
+  // Position in the device's own log
+  seq: number
+  // Lamport clock: higher than every record the device had seen when it wrote this one
+  clock: number
+  change: SyncChange
+}
+
+export interface SyncEntry {
+  key: string
+  item: SyncItem
+  pinned: boolean
+}
+
+export interface SyncState {
+  // Items present after every change was applied, newest first
+  entries: SyncEntry[]
+  // Every key any log has mentioned, including items deleted since
+  known: Set<string>
+}
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SyncError'
+  }
+}
+
+const SYNC_DIR = 'clipboard-sync'
+const KEY_FILE = 'sync.json'
+const LOG_EXTENSION = '.log'
+// A device rewrites its log once it holds this many lines and most of them are superseded
+const COMPACT_MIN_LINES = 1000
+const CHECK_PLAINTEXT = 'clipboard-sync-check'
+// Type and content hash; the hash doubles as a blob id on every device
+const KEY_PATTERN = /^(text|image|html|rtf|url|files):[a-f0-9]+$/
+
+interface KeyFile {
+  format: 'clipboard-sync'
+  version: 1
+  salt: string
+  // A known value encrypted with the key, so a wrong passphrase is caught before anything is written
+  check: string
+}
+
+export function syncKey(type: ClipboardItem['type'], contentHash: string): string {
+  return `${type}:${contentHash}`
+}
+
+// Items that expire are meant to be short-lived and never leave the machine
+export function isSyncable(item: Pick<ClipboardItem, 'type' | 'sensitive' | 'expiresAt'>, exclude: SyncCategory[]): boolean {
+  return item.expiresAt === undefined && !exclude.includes(item.type) && !(item.sensitive && exclude.includes('sensitive'))
+}
+
+function isValidChange(change: SyncChange | undefined): boolean {
+  switch (change?.op) {
+    case 'add':
+      return KEY_PATTERN.test(change.key) && typeof change.item?.content === 'string' &&
+        change.key.startsWith(`${change.item.type}:`) && Number.isFinite(change.item.timestamp)
+    case 'delete':
+    case 'pin':
+      return KEY_PATTERN.test(change.key)
+    case 'clear':
+      return true
+    default:
+      return false
+  }
+}
+
+// Orders records the same way on every device: by clock, then by device and position
+function compareRecords(a: SyncRecord, b: SyncRecord): number {
+  return a.clock - b.clock || (a.device < b.device ? -1 : a.device > b.device ? 1 : 0) || a.seq - b.seq
+}
+
+export function mergeRecords(records: SyncRecord[]): SyncState {
+  const entries = new Map<string, SyncEntry>()
+  const known = new Set<string>()
+  for (const { change } of [...records].sort(compareRecords)) {
+    switch (change.op) {
+      case 'add': {
+        const existing = entries.get(change.key)
+        // Copying an item again moves it to the top, wherever that happened
+        const item = existing && existing.item.timestamp > change.item.timestamp ? existing.item : change.item
+        entries.set(change.key, { key: change.key, item, pinned: existing?.pinned ?? false })
+        known.add(change.key)
+        break
+      }
+      case 'delete':
+        entries.delete(change.key)
+        break
+      case 'pin': {
+        const entry = entries.get(change.key)
+        if (entry) entry.pinned = change.pinned
+        break
+      }
+      case 'clear':
+        for (const [key, entry] of entries) {
+          if (!entry.pinned) entries.delete(key)
+        }
+        break
+    }
+  }
+  const sorted = [...entries.values()].sort((a, b) => b.item.timestamp - a.item.timestamp || (a.key < b.key ? -1 : 1))
+  return { entries: sorted, known }
+}
+
+// What still decides the state of one item
+interface ItemTrail {
+  present: boolean
+  lastAdd: SyncRecord
+  // Only set while the item is present: the add that brought it back, the add with the newest
+  // copy, the latest pin, and the pin that carried it through the latest clear
+  created?: SyncRecord
+  newest?: SyncRecord
+  newestTimestamp: number
+  pin?: SyncRecord
+  pinAtClear?: SyncRecord
+}
+
+// Drops the records that no longer change anything, so merging what is kept reaches the same state
+// as merging every record read so far. Without this, the records of a long-lived folder grow with
+// every copy ever made; with it, they grow with the number of distinct items.
+export function compactRecords(records: SyncRecord[]): SyncRecord[] {
+  const trails = new Map<string, ItemTrail>()
+  const deletes = new Map<string, SyncRecord>()
+  let lastClear: SyncRecord | undefined
+
+  for (const record of [...records].sort(compareRecords)) {
+    const { change } = record
+    switch (change.op) {
+      case 'add': {
+        const trail = trails.get(change.key)
+        if (trail?.present) {
+          trail.lastAdd = record
+          // Later copies win ties, as in mergeRecords
+          if (change.item.timestamp >= trail.newestTimestamp) {
+            trail.newest = record
+            trail.newestTimestamp = change.item.timestamp
+          }
+        } else {
+          trails.set(change.key, { present: true, lastAdd: record, created: record, newest: record, newestTimestamp: change.item.timestamp })
+        }
+        break
+      }
+      case 'delete': {
+        // Kept even when nothing is there to delete, in case the add it answers arrives late
+        deletes.set(change.key, record)
+        const trail = trails.get(change.key)
+        if (trail?.present) {
+          trails.set(change.key, { present: false, lastAdd: trail.lastAdd, newestTimestamp: 0 })
+        }
+        break
+      }
+      case 'pin': {
+        const trail = trails.get(change.key)
+        if (trail?.present) trail.pin = record
+        break
+      }
+      case 'clear':
+        lastClear = record
+        for (const [key, trail] of trails) {
+          if (!trail.present) continue
+          if (trail.pin?.change.op === 'pin' && trail.pin.change.pinned) {
+            trail.pinAtClear = trail.pin
+          } else {
+            trails.set(key, { present: false, lastAdd: trail.lastAdd, newestTimestamp: 0 })
+          }
+        }
+        break
+    }
+  }
+
+  const kept = new Set<SyncRecord>(deletes.values())
+  if (lastClear) kept.add(lastClear)
+  for (const trail of trails.values()) {
+    // The latest add of every item keeps it known, so devices that still hold a deleted item drop it
+    for (const record of [trail.lastAdd, trail.created, trail.newest, trail.pin, trail.pinAtClear]) {
+      if (record) kept.add(record)
+    }
+  }
+  return records.filter(record => kept.has(record))
+}
+
+// Derives the key of a sync folder from its passphrase. The first device to use a folder sets it
+// up; every other one has to give the same passphrase.
+export function unlockSyncFolder(folder: string, passphrase: string): Buffer {
+  if (!passphrase) {
+    throw new SyncError('A sync passphrase is required')
+  }
+  if (!existsSync(folder)) {
+    throw new SyncError(`The sync folder does not exist: ${folder}`)
+  }
+  const dir = join(folder, SYNC_DIR)
+  const keyPath = join(dir, KEY_FILE)
+  mkdirSync(dir, { recursive: true })
+
+  if (!existsSync(keyPath)) {
+    const salt = randomBytes(16)
+    const key = derivePassphraseKey(passphrase, salt)
+    const keyFile: KeyFile = {
+      format: 'clipboard-sync',
+      version: 1,
+      salt: salt.toString('base64'),
+      check: createBlobCipher(key).encrypt(Buffer.from(CHECK_PLAINTEXT)).toString('base64')
+    }
+    writeFileSync(keyPath, JSON.stringify(keyFile))
+    return key
+  }
+
+  let keyFile: KeyFile
+  try {
+    keyFile = JSON.parse(readFileSync(keyPath, 'utf8'))
+  } catch {
+    throw new SyncError('The sync folder settings could not be read')
+  }
+  if (keyFile?.format !== 'clipboard-sync' || typeof keyFile.salt !== 'string' || typeof keyFile.check !== 'string') {
+    throw new SyncError('The sync folder settings are damaged')
+  }
+  const key = derivePassphraseKey(passphrase, Buffer.from(keyFile.salt, 'base64'))
+  try {
+    if (createBlobCipher(key).decrypt(Buffer.from(keyFile.check, 'base64')).toString('utf8') !== CHECK_PLAINTEXT) throw new Error()
+  } catch {
+    throw new SyncError('Wrong sync passphrase')
+  }
+  return key
+}
+
+// The logs of one sync folder, as seen by one device. Logs are read incrementally: only what was
+// appended since the last read is decrypted. Superseded records are dropped after every read, and
+// a device rewrites its own log once most of it is superseded.
+export class SyncFolder {
+  private readonly dir: string
+  private readonly device: string
+  private readonly cipher: BlobCipher
+  private records: SyncRecord[] = []
+  // How far each log has been read, in bytes
+  private readonly offsets = new Map<string, number>()
+  // The first line of each log, which changes when its device rewrites it
+  private readonly heads = new Map<string, Buffer>()
+  // Lines in this device's own log, superseded ones included
+  private ownLines = 0
+  private clock = 0
+  private seq = 0
+  // Lines that could not be decrypted or made no sense, such as ones damaged in transfer
+  private skipped = 0
+
+  constructor(folder: string, device: string, key: Buffer) {
+    this.dir = join(folder, SYNC_DIR)
+    this.device = device
+    this.cipher = createBlobCipher(key)
+  }
+
+  get deviceId() {
+    return this.device
+  }
+
+  get skippedLines() {
+    return this.skipped
+  }
+
+  // Devices with a log in the folder, this one included once it has written anything
+  devices(): string[] {
+    return [...this.offsets.keys()].map(name => name.slice(0, -LOG_EXTENSION.length))
+  }
+
+  // Every record in the folder, including ones read earlier
+  read(): SyncRecord[] {
+    if (!existsSync(this.dir)) {
+      throw new SyncError(`The sync folder is not available: ${this.dir}`)
+    }
+    for (const name of readdirSync(this.dir)) {
+      if (name.endsWith(LOG_EXTENSION)) {
+        this.readLog(name)
+      }
+    }
+    this.records = compactRecords(this.records)
+    return this.records
+  }
+
+  append(changes: SyncChange[]) {
+    if (changes.length === 0) return
+    // Picks up the clock of everything seen so far, and this device's own position
+    this.read()
+    this.compactLog()
+    const lines = changes.map(change => {
+      const record: SyncRecord = { device: this.device, seq: ++this.seq, clock: ++this.clock, change }
+      this.records.push(record)
+      return this.cipher.encrypt(Buffer.from(JSON.stringify(record))).toString('base64') + '\n'
+    })
+    const name = this.device + LOG_EXTENSION
+    const data = lines.join('')
+    appendFileSync(join(this.dir, name), data)
+    this.offsets.set(name, (this.offsets.get(name) ?? 0) + Buffer.byteLength(data))
+    this.ownLines += lines.length
+    if (!this.heads.has(name)) {
+      this.heads.set(name, Buffer.from(lines[0]))
+    }
+  }
+
+  // Replaces this device's log with the records of it that are still current. The new file is
+  // moved into place whole, so other devices never see it half written.
+  private compactLog() {
+    const own = this.records.filter(record => record.device === this.device)
+    if (this.ownLines < COMPACT_MIN_LINES || this.ownLines < own.length * 2) return
+
+    const name = this.device + LOG_EXTENSION
+    const data = own.map(record => this.cipher.encrypt(Buffer.from(JSON.stringify(record))).toString('base64') + '\n').join('')
+    const path = join(this.dir, name)
+    writeFileSync(`${path}.tmp`, data)
+    renameSync(`${path}.tmp`, path)
+    this.offsets.set(name, Buffer.byteLength(data))
+    this.ownLines = own.length
+    if (own.length > 0) {
+      this.heads.set(name, Buffer.from(data.slice(0, data.indexOf('\n') + 1)))
+    } else {
+      this.heads.delete(name)
+    }
+  }
+
+  private readLog(name: string) {
+    const device = name.slice(0, -LOG_EXTENSION.length)
+    const fd = openSync(join(this.dir, name), 'r')
+    let appended: Buffer
+    let offset: number
+    try {
+      const size = fstatSync(fd).size
+      // Lines are encrypted with a fresh IV each, so a rewritten log never starts like the old one
+      const head = this.heads.get(name)
+      if (head) {
+        const start = Buffer.alloc(head.length)
+        readSync(fd, start, 0, start.length, 0)
+        if (!start.equals(head)) this.forgetLog(name, device)
+      }
+      offset = this.offsets.get(name) ?? 0
+      appended = Buffer.alloc(Math.max(0, size - offset))
+      readSync(fd, appended, 0, appended.length, offset)
+    } finally {
+      closeSync(fd)
+    }
+    // A line still being copied in by the folder's sync client is read next time
+    const end = appended.lastIndexOf(0x0a) + 1
+    this.offsets.set(name, offset + end)
+    if (offset === 0 && end > 0) {
+      this.heads.set(name, Buffer.from(appended.subarray(0, appended.indexOf(0x0a) + 1)))
+    }
+    for (const line of appended.subarray(0, end).toString('utf8').split('\n')) {
+      if (line) this.addRecord(line, device)
+    }
+  }
+
+  // Drops what was read from a log that its device has since rewritten, so it is read again from the start
+  private forgetLog(name: string, device: string) {
+    this.offsets.delete(name)
+    this.heads.delete(name)
+    this.records = this.records.filter(record => record.device !== device)
+    if (device === this.device) this.ownLines = 0
+  }
+
+  private addRecord(line: string, device: string) {
+    let record: SyncRecord
+    try {
+      record = JSON.parse(this.cipher.decrypt(Buffer.from(line, 'base64')).toString('utf8'))
+    } catch {
+      this.skipped++
+      return
+    }
+    // Each device only writes its own log
+    if (record?.device !== device || !Number.isInteger(record.seq) || !Number.isInteger(record.clock) || !isValidChange(record.change)) {
+      this.skipped++
+      return
+    }
+    this.records.push(record)
+    this.clock = Math.max(this.clock, record.clock)
+    if (device === this.device) {
+      this.seq = Math.max(this.seq, record.seq)
+      this.ownLines++
+    }
+  }
+}
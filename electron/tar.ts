@@ -0,0 +1,86 @@
+// A minimal ustar reader and writer, enough for the flat archives written by the exporter
+
+export interface TarEntry {
+  name: string
+  data: Buffer
+}
+
+const BLOCK_SIZE = 512
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8')
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length)
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? length : end).toString('utf8')
+}
+
+function checksum(header: Buffer): number {
+  let sum = 0
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]
+  }
+  return sum
+}
+
+function padding(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE
+}
+
+export function createTar(entries: TarEntry[], mtime = Date.now()): Buffer {
+  const blocks: Buffer[] = []
+  for (const entry of entries) {
+    if (Buffer.byteLength(entry.name) > 100) {
+      throw new Error(`Archive entry name is too long: ${entry.name}`)
+    }
+    const header = Buffer.alloc(BLOCK_SIZE)
+    writeString(header, entry.name, 0, 100)
+    writeOctal(header, 0o644, 100, 8)
+    writeOctal(header, 0, 108, 8)
+    writeOctal(header, 0, 116, 8)
+    writeOctal(header, entry.data.length, 124, 12)
+    writeOctal(header, Math.floor(mtime / 1000), 136, 12)
+    writeString(header, '0', 156, 1)
+    writeString(header, 'ustar\0', 257, 6)
+    writeString(header, '00', 263, 2)
+    writeString(header, checksum(header).toString(8).padStart(6, '0') + '\0 ', 148, 8)
+    blocks.push(header, entry.data, Buffer.alloc(padding(entry.data.length)))
+  }
+  // Two empty blocks mark the end of the archive
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2))
+  return Buffer.concat(blocks)
+}
+
+// Returns the regular files of the archive; directories and other entry types are skipped
+export function readTar(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = []
+  let offset = 0
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE)
+    if (header.every(byte => byte === 0)) break
+
+    if (parseInt(readString(header, 148, 8).trim(), 8) !== checksum(header)) {
+      throw new Error('Archive header checksum mismatch')
+    }
+    const prefix = readString(header, 345, 155)
+    const name = prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100)
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8)
+    const type = readString(header, 156, 1)
+    const start = offset + BLOCK_SIZE
+    if (start + size > archive.length) {
+      throw new Error(`Archive entry is truncated: ${name}`)
+    }
+    if (type === '0' || type === '') {
+      entries.push({ name, data: archive.subarray(start, start + size) })
+    }
+    offset = start + size + padding(size)
+  }
+  return entries
+}
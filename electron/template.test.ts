@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { expandTemplate, formatDate, getTemplateInputs, isTemplate, parseTemplate, TemplateError } from './template'
+
+const NOW = new Date(2024, 2, 5, 14, 7, 9)
+
+function expand(source: string, inputs: Record<string, string> = {}, clipboard = 'copied') {
+  return expandTemplate(parseTemplate(source), { now: NOW, clipboard, inputs })
+}
+
+describe('parseTemplate', () => {
+  it('keeps plain text as a single node', () => {
+    expect(parseTemplate('Hello there')).toEqual([{ kind: 'text', value: 'Hello there' }])
+  })
+
+  it('splits text around placeholders', () => {
+    expect(parseTemplate('Hi {{input:Name}}, see {{clipboard}}{{cursor}}')).toEqual([
+      { kind: 'text', value: 'Hi ' },
+      { kind: 'input', label: 'Name' },
+      { kind: 'text', value: ', see ' },
+      { kind: 'clipboard' },
+      { kind: 'cursor' }
+    ])
+  })
+
+  it('defaults the date format and trims arguments', () => {
+    expect(parseTemplate('{{date}}{{ date : HH:mm }}')).toEqual([
+      { kind: 'date', format: 'YYYY-MM-DD' },
+      { kind: 'date', format: 'HH:mm' }
+    ])
+  })
+
+  it('treats escaped braces as literal text', () => {
+    expect(parseTemplate('\\{{clipboard}}')).toEqual([{ kind: 'text', value: '{{clipboard}}' }])
+  })
+
+  it('rejects unknown placeholders', () => {
+    expect(() => parseTemplate('{{weather}}')).toThrow(TemplateError)
+  })
+
+  it('rejects unclosed placeholders', () => {
+    expect(() => parseTemplate('Dear {{input:Name')).toThrow(/Unclosed placeholder \(at character 6\)/)
+  })
+
+  it('rejects inputs without a label', () => {
+    expect(() => parseTemplate('{{input}}')).toThrow(/needs a label/)
+    expect(() => parseTemplate('{{input: }}')).toThrow(/needs a label/)
+  })
+
+  it('rejects arguments on placeholders that take none', () => {
+    expect(() => parseTemplate('{{cursor:end}}')).toThrow(/does not take an argument/)
+  })
+
+  it('allows only one cursor', () => {
+    expect(() => parseTemplate('{{cursor}} and {{cursor}}')).toThrow(/only contain one/)
+  })
+})
+
+describe('getTemplateInputs', () => {
+  it('lists each label once in order of appearance', () => {
+    expect(getTemplateInputs(parseTemplate('{{input:B}} {{input:A}} {{input:B}}'))).toEqual(['B', 'A'])
+  })
+})
+
+describe('isTemplate', () => {
+  it('is true only when the text has placeholders', () => {
+    expect(isTemplate('plain')).toBe(false)
+    expect(isTemplate('\\{{date}}')).toBe(false)
+    expect(isTemplate('on {{date}}')).toBe(true)
+  })
+})
+
+describe('formatDate', () => {
+  it('formats every token', () => {
+    expect(formatDate(NOW, 'YYYY YY MMMM MMM MM M DD D')).toBe('2024 24 March Mar 03 3 05 5')
+    expect(formatDate(NOW, 'DDDD DDD')).toBe('Tuesday Tue')
+    expect(formatDate(NOW, 'HH H hh h mm ss A')).toBe('14 14 02 2 07 09 PM')
+  })
+
+  it('copies other characters through', () => {
+    expect(formatDate(NOW, 'DD.MM.YYYY, at HH:mm')).toBe('05.03.2024, at 14:07')
+  })
+
+  it('shows midnight as 12 AM', () => {
+    expect(formatDate(new Date(2024, 0, 1, 0, 30), 'h:mm A')).toBe('12:30 AM')
+  })
+})
+
+describe('expandTemplate', () => {
+  it('fills in dates, clipboard and inputs', () => {
+    expect(expand('{{date:DD/MM}} {{input:Name}}: {{clipboard}}', { Name: 'Ada' })).toEqual({
+      text: '05/03 Ada: copied',
+      cursorOffset: null
+    })
+  })
+
+  it('reuses one value for repeated inputs', () => {
+    expect(expand('{{input:X}}-{{input:X}}', { X: 'a' }).text).toBe('a-a')
+  })
+
+  it('reports where the cursor goes', () => {
+    expect(expand('<b>{{cursor}}</b>')).toEqual({ text: '<b></b>', cursorOffset: 3 })
+  })
+
+  it('fails when an input has no value', () => {
+    expect(() => expand('{{input:Name}}')).toThrow(/No value given for "Name"/)
+  })
+
+  it('accepts an empty value for an input', () => {
+    expect(expand('[{{input:Name}}]', { Name: '' }).text).toBe('[]')
+  })
+})
@@ -0,0 +1,180 @@
+// Snippet templates: text with {{placeholders}} that are filled in at paste time.
+//
+//   {{date}} / {{date:DD.MM.YYYY HH:mm}}  the current date and time
+//   {{clipboard}}                          the text of the newest history item
+//   {{cursor}}                             where the caret is left after pasting
+//   {{input:Ticket ID}}                    a value the user is asked for
+//
+// A backslash before the opening braces (\{{) keeps them literal.
+
+export type TemplateNode =
+  | { kind: 'text', value: string }
+  | { kind: 'date', format: string }
+  | { kind: 'clipboard' }
+  | { kind: 'cursor' }
+  | { kind: 'input', label: string }
+
+export interface ExpandContext {
+  now: Date
+  clipboard: string
+  inputs: Record<string, string>
+}
+
+export interface ExpandedTemplate {
+  text: string
+  // Offset into `text` of the {{cursor}} placeholder, if the template has one
+  cursorOffset: number | null
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD'
+const DATE_TOKENS = /YYYY|YY|MMMM|MMM|MM|M|DDDD|DDD|DD|D|HH|H|hh|h|mm|ss|A/g
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+// Formats a date with moment-style tokens; any other characters are copied through
+export function formatDate(date: Date, format: string): string {
+  const hours12 = date.getHours() % 12 || 12
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MMMM: MONTH_NAMES[date.getMonth()],
+    MMM: MONTH_NAMES[date.getMonth()].slice(0, 3),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    DDDD: DAY_NAMES[date.getDay()],
+    DDD: DAY_NAMES[date.getDay()].slice(0, 3),
+    DD: pad(date.getDate()),
+    D: String(date.getDate()),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    hh: pad(hours12),
+    h: String(hours12),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+    A: date.getHours() < 12 ? 'AM' : 'PM'
+  }
+  return format.replace(DATE_TOKENS, token => tokens[token])
+}
+
+function parsePlaceholder(body: string, position: number): TemplateNode {
+  const separator = body.indexOf(':')
+  const name = (separator === -1 ? body : body.slice(0, separator)).trim().toLowerCase()
+  const argument = separator === -1 ? null : body.slice(separator + 1).trim()
+
+  switch (name) {
+    case 'date':
+      return { kind: 'date', format: argument || DEFAULT_DATE_FORMAT }
+    case 'clipboard':
+    case 'cursor':
+      if (argument !== null) {
+        throw new TemplateError(`{{${name}}} does not take an argument (at character ${position + 1})`)
+      }
+      return { kind: name }
+    case 'input':
+      if (!argument) {
+        throw new TemplateError(`{{input}} needs a label, like {{input:Name}} (at character ${position + 1})`)
+      }
+      return { kind: 'input', label: argument }
+    default:
+      throw new TemplateError(`Unknown placeholder {{${body.trim()}}} (at character ${position + 1})`)
+  }
+}
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const nodes: TemplateNode[] = []
+  let text = ''
+  let index = 0
+  let hasCursor = false
+
+  while (index < source.length) {
+    if (source.startsWith('\\{{', index)) {
+      text += '{{'
+      index += 3
+      continue
+    }
+    if (!source.startsWith('{{', index)) {
+      text += source[index]
+      index++
+      continue
+    }
+
+    const end = source.indexOf('}}', index + 2)
+    if (end === -1) {
+      throw new TemplateError(`Unclosed placeholder (at character ${index + 1})`)
+    }
+    const node = parsePlaceholder(source.slice(index + 2, end), index)
+    if (node.kind === 'cursor') {
+      if (hasCursor) {
+        throw new TemplateError('A template can only contain one {{cursor}}')
+      }
+      hasCursor = true
+    }
+    if (text) {
+      nodes.push({ kind: 'text', value: text })
+      text = ''
+    }
+    nodes.push(node)
+    index = end + 2
+  }
+
+  if (text) {
+    nodes.push({ kind: 'text', value: text })
+  }
+  return nodes
+}
+
+// Labels of the values the user has to provide, in order of first appearance
+export function getTemplateInputs(nodes: TemplateNode[]): string[] {
+  const labels: string[] = []
+  for (const node of nodes) {
+    if (node.kind === 'input' && !labels.includes(node.label)) {
+      labels.push(node.label)
+    }
+  }
+  return labels
+}
+
+export function isTemplate(source: string): boolean {
+  return parseTemplate(source).some(node => node.kind !== 'text')
+}
+
+export function expandTemplate(nodes: TemplateNode[], context: ExpandContext): ExpandedTemplate {
+  let text = ''
+  let cursorOffset: number | null = null
+
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        text += node.value
+        break
+      case 'date':
+        text += formatDate(context.now, node.format)
+        break
+      case 'clipboard':
+        text += context.clipboard
+        break
+      case 'cursor':
+        cursorOffset = text.length
+        break
+      case 'input': {
+        const value = context.inputs[node.label]
+        if (value === undefined) {
+          throw new TemplateError(`No value given for "${node.label}"`)
+        }
+        text += value
+        break
+      }
+    }
+  }
+
+  return { text, cursorOffset }
+}
@@ -0,0 +1,246 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ClipboardManager } from './clipboardManager'
+import type { AppStore, AutostartDriver, IpcRegistrar, ShortcutRegistry, StoreSchema, TextRecognizer, WindowDriver } from './drivers'
+import { FakeClipboard } from './fakeClipboard'
+import { MockPasteDriver } from './pasteDriver'
+import type { RpcEndpoint } from './rpc'
+import type { KeyProtector } from './vault'
+
+// In-memory stand-ins for everything Electron provides, so the manager runs headless in tests
+
+export class MemoryStore implements AppStore {
+  private data: Partial<StoreSchema> = { history: [], pinned: [], collections: [] }
+
+  get<K extends keyof StoreSchema>(key: K): StoreSchema[K] {
+    // Copied like electron-store does, so the manager cannot change what was saved behind its back
+    const value = this.data[key]
+    return (value === undefined ? undefined : structuredClone(value)) as StoreSchema[K]
+  }
+
+  set(values: Partial<StoreSchema>) {
+    this.data = { ...this.data, ...structuredClone(values) }
+  }
+
+  delete(key: keyof StoreSchema) {
+    delete this.data[key]
+  }
+}
+
+export class FakeWindow implements WindowDriver {
+  visible = false
+  size: [number, number] | null = null
+  trayTooltip = ''
+  readonly sent: { channel: string, payload: unknown }[] = []
+  // What the next file dialog returns; null plays a cancelled dialog
+  nextDialogPath: string | null = null
+
+  isVisible() {
+    return this.visible
+  }
+
+  show() {
+    this.visible = true
+  }
+
+  hide() {
+    this.visible = false
+  }
+
+  setSize(width: number, height: number) {
+    this.size = [width, height]
+  }
+
+  send(channel: string, payload: unknown) {
+    this.sent.push({ channel, payload })
+  }
+
+  setTrayTooltip(text: string) {
+    this.trayTooltip = text
+  }
+
+  // The payload of the most recent message on a channel
+  lastSent(channel: string): unknown {
+    return this.sent.filter(message => message.channel === channel).pop()?.payload
+  }
+
+  async showSaveDialog() {
+    return this.nextDialogPath
+  }
+
+  async showOpenDialog() {
+    return this.nextDialogPath
+  }
+}
+
+export class FakeShortcuts implements ShortcutRegistry {
+  readonly registered = new Map<string, () => void>()
+  // Accelerators some other app already holds
+  readonly taken = new Set<string>()
+
+  register(accelerator: string, callback: () => void) {
+    if (this.taken.has(accelerator) || this.registered.has(accelerator)) {
+      return false
+    }
+    this.registered.set(accelerator, callback)
+    return true
+  }
+
+  unregister(accelerator: string) {
+    this.registered.delete(accelerator)
+  }
+
+  unregisterAll() {
+    this.registered.clear()
+  }
+
+  press(accelerator: string) {
+    const callback = this.registered.get(accelerator)
+    if (!callback) {
+      throw new Error(`No shortcut registered for ${accelerator}`)
+    }
+    callback()
+  }
+}
+
+export class FakeIpc implements IpcRegistrar {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private handlers = new Map<string, (event: unknown, ...args: any[]) => unknown>()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  handle(channel: string, listener: (event: unknown, ...args: any[]) => unknown) {
+    if (this.handlers.has(channel)) {
+      throw new Error(`Attempted to register a second handler for '${channel}'`)
+    }
+    this.handlers.set(channel, listener)
+  }
+
+  // Like ipcRenderer.invoke: always async, and errors become rejections
+  async invoke<T = unknown>(channel: string, ...args: unknown[]): Promise<T> {
+    const handler = this.handlers.get(channel)
+    if (!handler) {
+      throw new Error(`No handler registered for '${channel}'`)
+    }
+    return await handler({}, ...args) as T
+  }
+}
+
+export class FakeAutostart implements AutostartDriver {
+  enabled = false
+  // Makes the next change throw, like an unwritable autostart directory
+  failure: string | null = null
+
+  isEnabled() {
+    return this.enabled
+  }
+
+  setEnabled(enabled: boolean) {
+    if (this.failure) {
+      throw new Error(this.failure)
+    }
+    this.enabled = enabled
+  }
+}
+
+// Reads back the text registered for an image's bytes; any other image holds no text
+export class FakeTextRecognizer implements TextRecognizer {
+  readonly texts = new Map<string, string>()
+  // The images read so far, as their bytes decoded to text
+  readonly read: string[] = []
+  // Makes every read fail, like an engine that cannot start
+  failure: string | null = null
+
+  async recognize(png: Buffer) {
+    this.read.push(png.toString())
+    if (this.failure) {
+      throw new Error(this.failure)
+    }
+    return this.texts.get(png.toString()) ?? ''
+  }
+
+  async stop() {}
+}
+
+const unavailableProtector: KeyProtector = {
+  isAvailable: () => false,
+  encrypt: () => {
+    throw new Error('safeStorage is not available in tests')
+  },
+  decrypt: () => {
+    throw new Error('safeStorage is not available in tests')
+  }
+}
+
+export interface HarnessOptions {
+  // Pass the store and data directory of an earlier harness to reopen its library
+  store?: MemoryStore
+  dataDir?: string
+  frontmostApp?: string | null
+  // Serves scripts on this endpoint once scripting access is turned on
+  rpcEndpoint?: RpcEndpoint
+}
+
+export interface Harness {
+  manager: ClipboardManager
+  clipboard: FakeClipboard
+  // The PRIMARY selection, which only holds text
+  selection: FakeClipboard
+  store: MemoryStore
+  window: FakeWindow
+  paste: MockPasteDriver
+  shortcuts: FakeShortcuts
+  ipc: FakeIpc
+  autostart: FakeAutostart
+  recognizer: FakeTextRecognizer
+  dataDir: string
+  setFrontmostApp(name: string | null): void
+  // Stops the manager; `removeData` also deletes the data directory
+  close(removeData?: boolean): void
+}
+
+// Builds and starts a manager on fakes. The data directory is a fresh temporary one unless given.
+export function createHarness(options: HarnessOptions = {}): Harness {
+  const clipboard = new FakeClipboard()
+  const store = options.store ?? new MemoryStore()
+  const window = new FakeWindow()
+  const paste = new MockPasteDriver()
+  const shortcuts = new FakeShortcuts()
+  const ipc = new FakeIpc()
+  const selection = new FakeClipboard()
+  const autostart = new FakeAutostart()
+  const recognizer = new FakeTextRecognizer()
+  const dataDir = options.dataDir ?? mkdtempSync(join(tmpdir(), 'clipboard-manager-'))
+  let frontmostApp = options.frontmostApp ?? null
+
+  const manager = new ClipboardManager({
+    clipboard,
+    store,
+    dataDir,
+    keyProtector: unavailableProtector,
+    window,
+    paste,
+    shortcuts,
+    ipc,
+    getFrontmostApp: () => frontmostApp,
+    appName: 'Clipboard Manager',
+    primarySelection: selection,
+    autostart,
+    rpcEndpoint: options.rpcEndpoint,
+    textRecognizer: recognizer
+  })
+  manager.init()
+
+  return {
+    manager, clipboard, selection, store, window, paste, shortcuts, ipc, autostart, recognizer, dataDir,
+    setFrontmostApp: name => {
+      frontmostApp = name
+    },
+    close: (removeData = true) => {
+      manager.cleanup()
+      if (removeData) {
+        rmSync(dataDir, { recursive: true, force: true })
+      }
+    }
+  }
+}
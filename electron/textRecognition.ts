@@ -0,0 +1,71 @@
+import { createRequire } from 'module'
+import { dirname, join } from 'path'
+import Tesseract from 'tesseract.js'
+import type { TextRecognizer } from './drivers'
+
+// Reads text in images with tesseract.js, the Tesseract engine compiled to WebAssembly, which runs
+// in a worker thread of its own. The English model ships with the app in @tesseract.js-data/eng,
+// so nothing is downloaded and images never leave the machine.
+
+// The worker holds the model in memory, so it is stopped once no image has come in for this long
+const IDLE_TIMEOUT = 60 * 1000
+// Below this, what the engine reads in photos and drawings is mostly noise
+const MIN_CONFIDENCE = 40
+
+const require = createRequire(import.meta.url)
+
+// Worker threads cannot load scripts from inside the app archive, so packaged builds read them
+// from the copy electron-builder unpacks next to it
+const unpacked = (path: string) => path.replace(/([\\/])app\.asar([\\/])/, '$1app.asar.unpacked$2')
+
+// Trailing spaces and runs of blank lines are layout, not text
+export function tidyRecognizedText(text: string): string {
+  return text.split('\n').map(line => line.trimEnd()).join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+function startWorker(): Promise<Tesseract.Worker> {
+  return Tesseract.createWorker('eng', Tesseract.OEM.LSTM_ONLY, {
+    langPath: unpacked(join(dirname(require.resolve('@tesseract.js-data/eng/package.json')), '4.0.0_best_int')),
+    workerPath: unpacked(join(dirname(require.resolve('tesseract.js')), 'worker-script', 'node', 'index.js')),
+    gzip: true,
+    // The model is read straight from disk, so there is nothing to cache
+    cacheMethod: 'none'
+  })
+}
+
+export function createTesseractRecognizer(): TextRecognizer {
+  let worker: Promise<Tesseract.Worker> | null = null
+  let idleTimer: NodeJS.Timeout | null = null
+
+  const stop = async () => {
+    if (idleTimer) {
+      clearTimeout(idleTimer)
+      idleTimer = null
+    }
+    const stopping = worker
+    worker = null
+    await stopping?.then(current => current.terminate()).catch(() => {
+      // A worker that never started has nothing to end
+    })
+  }
+
+  return {
+    async recognize(png) {
+      if (idleTimer) {
+        clearTimeout(idleTimer)
+        idleTimer = null
+      }
+      const current = worker ??= startWorker()
+      try {
+        const { data } = await (await current).recognize(png)
+        idleTimer = setTimeout(() => void stop(), IDLE_TIMEOUT)
+        return data.confidence >= MIN_CONFIDENCE ? tidyRecognizedText(data.text) : ''
+      } catch (error) {
+        // A worker that failed to start or crashed is replaced by a fresh one on the next image
+        await stop()
+        throw error
+      }
+    },
+    stop
+  }
+}
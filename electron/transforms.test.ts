@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { createTransformRegistry, TransformError } from './transforms'
+
+const registry = createTransformRegistry()
+const apply = (id: string, text: string) => registry.get(id).apply(text)
+
+describe('built-in transforms', () => {
+  it('converts case, word by word and line by line', () => {
+    expect(apply('upper-case', 'Hello world')).toBe('HELLO WORLD')
+    expect(apply('lower-case', 'Hello World')).toBe('hello world')
+    expect(apply('title-case', 'the QUICK brown-fox (jumps)')).toBe('The Quick Brown-Fox (Jumps)')
+    expect(apply('camel-case', 'user_id\nHTTPServer error-code')).toBe('userId\nhttpServerErrorCode')
+    expect(apply('snake-case', 'fooBar baz-qux\nXMLHttpRequest')).toBe('foo_bar_baz_qux\nxml_http_request')
+  })
+
+  it('trims every line and the text as a whole', () => {
+    expect(apply('trim', '\n  one  \n\ttwo\t\n\n')).toBe('one\ntwo')
+  })
+
+  it('pretty-prints and minifies JSON, and rejects anything else', () => {
+    expect(apply('json-pretty', '{"a":[1,2]}')).toBe('{\n  "a": [\n    1,\n    2\n  ]\n}')
+    expect(apply('json-minify', '{\n  "a": [1, 2]\n}')).toBe('{"a":[1,2]}')
+    for (const id of ['json-pretty', 'json-minify']) {
+      expect(() => apply(id, "{a: 'b'}")).toThrow(TransformError)
+      expect(() => apply(id, "{a: 'b'}")).toThrow('The text is not valid JSON')
+    }
+  })
+
+  it('encodes and decodes URLs and Base64, and rejects malformed input', () => {
+    expect(apply('url-encode', 'a b&c=ü')).toBe('a%20b%26c%3D%C3%BC')
+    expect(apply('url-decode', 'a+b%26c%3D%C3%BC')).toBe('a b&c=ü')
+    expect(() => apply('url-decode', '100%')).toThrow('The text is not URL encoded')
+
+    expect(apply('base64-encode', 'héllo')).toBe('aMOpbGxv')
+    expect(apply('base64-decode', 'aMOp\nbGxv')).toBe('héllo')
+    expect(() => apply('base64-decode', 'not base64!')).toThrow('The text is not Base64')
+    expect(() => apply('base64-decode', '   ')).toThrow(TransformError)
+  })
+
+  it('quotes text for the shell and for JSON strings', () => {
+    expect(apply('escape-shell', "it's $HOME")).toBe(`'it'\\''s $HOME'`)
+    expect(apply('escape-shell', '')).toBe("''")
+    expect(apply('escape-json', 'say "hi"\n\\')).toBe('say \\"hi\\"\\n\\\\')
+  })
+
+  it('sorts lines and drops repeated ones, keeping the first of each', () => {
+    expect(apply('sort-lines', 'pear\napple\nBanana')).toBe('apple\nBanana\npear')
+    expect(apply('dedupe-lines', 'b\na\nb\n\na\n')).toBe('b\na\n')
+  })
+
+  it('reduces markup to its visible text', () => {
+    expect(registry.get('strip-html').input).toBe('markup')
+    expect(apply('strip-html', '<p>Hello <b>there</b></p>')).toBe('Hello there')
+  })
+})
+
+describe('TransformRegistry', () => {
+  it('lists what it holds and rejects unknown or repeated ids', () => {
+    expect(registry.list()).toContainEqual({ id: 'upper-case', label: 'UPPER CASE', group: 'Case' })
+    expect(() => registry.get('rot13')).toThrow('Unknown transform: rot13')
+    expect(() => createTransformRegistry().register({ id: 'trim', label: 'Trim', group: 'Whitespace', apply: text => text }))
+      .toThrow('already registered')
+  })
+})
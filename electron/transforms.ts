@@ -0,0 +1,131 @@
+import { stripHtml } from './html'
+import type { TransformInfo } from './types'
+
+export interface Transform extends TransformInfo {
+  // Transforms see the visible text of an item; 'markup' ones get the HTML source instead
+  input?: 'text' | 'markup'
+  apply(text: string): string
+}
+
+export class TransformError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TransformError'
+  }
+}
+
+// Splits identifiers and prose alike into lowercase words: "fooBar baz-qux" -> foo, bar, baz, qux
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(word => word.toLowerCase())
+}
+
+// Applies a word-based transform to each line, so multi-line selections keep their shape
+function perLine(text: string, transform: (line: string) => string): string {
+  return text.split('\n').map(transform).join('\n')
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new TransformError('The text is not valid JSON')
+  }
+}
+
+const BUILT_IN_TRANSFORMS: Transform[] = [
+  { id: 'upper-case', label: 'UPPER CASE', group: 'Case', apply: text => text.toUpperCase() },
+  { id: 'lower-case', label: 'lower case', group: 'Case', apply: text => text.toLowerCase() },
+  {
+    id: 'title-case',
+    label: 'Title Case',
+    group: 'Case',
+    apply: text => text.toLowerCase().replace(/(^|[\s\-_([{"'])(\p{L})/gu, (_, prefix: string, letter: string) => prefix + letter.toUpperCase())
+  },
+  {
+    id: 'camel-case',
+    label: 'camelCase',
+    group: 'Case',
+    apply: text => perLine(text, line => words(line).map((word, i) => i === 0 ? word : word[0].toUpperCase() + word.slice(1)).join(''))
+  },
+  { id: 'snake-case', label: 'snake_case', group: 'Case', apply: text => perLine(text, line => words(line).join('_')) },
+  {
+    id: 'trim',
+    label: 'Trim whitespace',
+    group: 'Whitespace',
+    apply: text => text.split('\n').map(line => line.trim()).join('\n').trim()
+  },
+  { id: 'json-pretty', label: 'Pretty-print JSON', group: 'JSON', apply: text => JSON.stringify(parseJson(text), null, 2) },
+  { id: 'json-minify', label: 'Minify JSON', group: 'JSON', apply: text => JSON.stringify(parseJson(text)) },
+  { id: 'url-encode', label: 'URL encode', group: 'Encoding', apply: text => encodeURIComponent(text) },
+  {
+    id: 'url-decode',
+    label: 'URL decode',
+    group: 'Encoding',
+    apply: text => {
+      try {
+        return decodeURIComponent(text.replace(/\+/g, ' '))
+      } catch {
+        throw new TransformError('The text is not URL encoded')
+      }
+    }
+  },
+  { id: 'base64-encode', label: 'Base64 encode', group: 'Encoding', apply: text => Buffer.from(text, 'utf8').toString('base64') },
+  {
+    id: 'base64-decode',
+    label: 'Base64 decode',
+    group: 'Encoding',
+    apply: text => {
+      const compact = text.replace(/\s+/g, '')
+      if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(compact) || compact.length === 0) {
+        throw new TransformError('The text is not Base64')
+      }
+      return Buffer.from(compact, 'base64').toString('utf8')
+    }
+  },
+  { id: 'strip-html', label: 'Strip HTML', group: 'Markup', input: 'markup', apply: text => stripHtml(text) },
+  {
+    id: 'sort-lines',
+    label: 'Sort lines',
+    group: 'Lines',
+    apply: text => text.split('\n').sort((a, b) => a.localeCompare(b)).join('\n')
+  },
+  { id: 'dedupe-lines', label: 'Remove duplicate lines', group: 'Lines', apply: text => Array.from(new Set(text.split('\n'))).join('\n') },
+  { id: 'escape-shell', label: 'Escape for shell', group: 'Escape', apply: text => `'${text.replace(/'/g, `'\\''`)}'` },
+  { id: 'escape-json', label: 'Escape for JSON string', group: 'Escape', apply: text => JSON.stringify(text).slice(1, -1) }
+]
+
+export class TransformRegistry {
+  private transforms = new Map<string, Transform>()
+
+  register(transform: Transform) {
+    if (this.transforms.has(transform.id)) {
+      throw new TransformError(`A transform with id "${transform.id}" is already registered`)
+    }
+    this.transforms.set(transform.id, transform)
+  }
+
+  get(id: string): Transform {
+    const transform = this.transforms.get(id)
+    if (!transform) {
+      throw new TransformError(`Unknown transform: ${id}`)
+    }
+    return transform
+  }
+
+  list(): TransformInfo[] {
+    return Array.from(this.transforms.values(), ({ id, label, group }) => ({ id, label, group }))
+  }
+}
+
+export function createTransformRegistry(): TransformRegistry {
+  const registry = new TransformRegistry()
+  for (const transform of BUILT_IN_TRANSFORMS) {
+    registry.register(transform)
+  }
+  return registry
+}
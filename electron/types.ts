@@ -0,0 +1,249 @@
+// Clipboard representations an item can carry besides its primary payload
+export type Representation = 'text' | 'html' | 'rtf'
+
+export interface ClipboardItem {
+  id: string
+  // Primary payload: the text, markup or RTF source, a URL, or newline-separated file paths
+  content: string
+  type: 'text' | 'image' | 'html' | 'rtf' | 'url' | 'files'
+  timestamp: number
+  preview?: string
+  pinned?: boolean
+  collectionId?: string
+  contentHash?: string
+  // Set when the payload lives in the blob store; `content` is empty in that case
+  blobId?: string
+  thumbnail?: string
+  size?: number
+  width?: number
+  height?: number
+  // Name of the application the item was copied from, when known
+  sourceApp?: string
+  // Label of the detected secret type; the preview is masked when set
+  sensitive?: string
+  expiresAt?: number
+  // Blob ids of the other representations the source offered, written back together on copy
+  alternates?: Partial<Record<Representation, string>>
+  // Page title of a copied link when the source provided one, or the name of a snippet
+  title?: string
+  // Snippets are pinned text items whose {{placeholders}} are filled in when pasted
+  template?: boolean
+  // When the item was last put back on the clipboard; retention evicts the least recently used
+  lastUsedAt?: number
+  // How many times it was put back on the clipboard from the picker
+  pasteCount?: number
+  // What the previewer found in the content when it was captured
+  metadata?: ItemMetadata
+  // Text read from an image, empty when none was found; unset until the image has been read
+  recognizedText?: string
+}
+
+export type CodeLanguage = 'javascript' | 'python' | 'json' | 'shell' | 'sql' | 'css' | 'html'
+
+export interface TextStats {
+  chars: number
+  words: number
+  lines: number
+}
+
+export interface ItemMetadata {
+  stats?: TextStats
+  // Set when the text looks like code in one of the languages the highlighter knows
+  language?: CodeLanguage
+  // Hex, rgb() and hsl() colour values in the order they first appear
+  colors?: string[]
+}
+
+export interface HighlightToken {
+  text: string
+  // Omitted for text that is not highlighted
+  kind?: 'keyword' | 'string' | 'number' | 'comment' | 'tag' | 'attribute' | 'operator' | 'literal'
+}
+
+// Everything the detail pane shows for one item, read in full from wherever the item lives
+export interface ItemDetail {
+  id: string
+  type: ClipboardItem['type']
+  // The text, markup or RTF source, URL or file list, one entry per line, highlighted when it is code
+  lines?: HighlightToken[][]
+  // Set when only the first lines are included
+  truncated?: boolean
+  language?: CodeLanguage
+  // Markup with everything that could run code or load something removed
+  sanitizedHtml?: string
+  image?: { dataUrl: string, width?: number, height?: number, bytes: number }
+  stats?: TextStats
+  colors?: string[]
+}
+
+export interface Collection {
+  id: string
+  name: string
+  createdAt: number
+}
+
+export interface PinnedState {
+  items: ClipboardItem[]
+  collections: Collection[]
+}
+
+export interface SearchResult {
+  item: ClipboardItem
+  score: number
+  // Text to display for the result, with [start, end) ranges of the matched characters
+  snippet: string
+  highlights: [number, number][]
+}
+
+export interface CopyOptions {
+  // Write HTML items as their visible text only
+  plainText?: boolean
+  // Values for the {{input:…}} fields of a snippet, keyed by label
+  inputs?: Record<string, string>
+  // False only writes the clipboard, whatever the auto-paste setting says
+  paste?: boolean
+}
+
+// Reported to the window after the app tried to paste into another one
+export interface PasteFeedback {
+  success: boolean
+  message: string
+  // The paste driver that handled it, such as 'xdotool'
+  method?: string
+  // Set when nothing was pasted: no way to send keystrokes, or sending them failed
+  error?: 'unavailable' | 'failed'
+}
+
+// Whether the app can paste into other apps on this system, and with what
+export interface PasteCapability {
+  driver: string
+  available: boolean
+  // What to install or allow when pasting is unavailable
+  message?: string
+}
+
+export interface PasteStackState {
+  active: boolean
+  order: 'fifo' | 'lifo'
+  // Remaining items, the next one to be pasted first
+  items: ClipboardItem[]
+}
+
+export interface SnippetDraft {
+  // Omitted when creating a new snippet
+  id?: string
+  title: string
+  content: string
+  collectionId?: string
+}
+
+export interface EncryptionStatus {
+  encrypted: boolean
+  keySource?: 'safeStorage' | 'passphrase'
+  locked: boolean
+  // Set when the encrypted file cannot be opened at all (damaged, or key unavailable)
+  error?: { code: string, message: string }
+  safeStorageAvailable: boolean
+}
+
+export type ExportFormat = 'archive' | 'json' | 'csv'
+
+export interface ExportFilter {
+  types?: ClipboardItem['type'][]
+  // Inclusive timestamp bounds
+  since?: number
+  until?: number
+  pinned?: 'all' | 'only' | 'exclude'
+  // Detected secrets are left out unless asked for
+  includeSensitive?: boolean
+}
+
+export interface ExportResult {
+  filePath: string
+  count: number
+}
+
+export interface ImportPreview {
+  fileName: string
+  exportedAt: number
+  total: number
+  // Items already in the library, matched by content hash
+  duplicates: number
+  added: Record<ClipboardItem['type'], number>
+  pinned: number
+  newCollections: string[]
+  samples: { type: ClipboardItem['type'], preview: string }[]
+}
+
+export interface ImportResult {
+  added: number
+  duplicates: number
+}
+
+export interface TransformInfo {
+  id: string
+  label: string
+  group?: string
+}
+
+export interface TransformOptions {
+  // Also record the result as a new history entry
+  saveAsNew?: boolean
+}
+
+export interface MergeOptions {
+  separator: 'newline' | 'comma' | 'space' | 'custom'
+  // Used with the 'custom' separator; \n and \t are understood
+  customSeparator?: string
+  // Markdown lists and JSON arrays ignore the separator
+  format: 'plain' | 'markdown' | 'json'
+  saveAsNew?: boolean
+}
+
+// Whether scripts can reach the app through the `clip` command line tool
+export interface ScriptingStatus {
+  running: boolean
+  socketPath?: string
+  // Why the server could not start
+  error?: string
+}
+
+// Streamed to clients of the HTTP API as the history changes
+export type ApiEvent =
+  | { type: 'item-added', item: ClipboardItem }
+  | { type: 'item-deleted', id: string }
+  | { type: 'history-cleared' }
+
+export interface UsageTotals {
+  count: number
+  bytes: number
+}
+
+export interface StorageUsage {
+  byType: Record<ClipboardItem['type'], UsageTotals>
+  history: UsageTotals
+  pinned: UsageTotals
+  // What the blob store takes on disk, where items with the same payload share one file
+  diskBytes: number
+}
+
+export interface SyncStatus {
+  enabled: boolean
+  folder?: string
+  // The passphrase has to be given again, as after a restart on systems without secure key storage
+  locked?: boolean
+  // Devices that have written to the folder, this one included
+  devices?: number
+  lastSync?: number
+  // Why the last sync failed
+  error?: string
+}
+
+export interface HttpApiStatus {
+  running: boolean
+  port?: number
+  // Shown so the user can paste it into an extension to pair it
+  token?: string
+  // Why the server could not start
+  error?: string
+}
@@ -0,0 +1,249 @@
+import { existsSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs'
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, scryptSync } from 'crypto'
+import type { LibraryData, LibraryStorage } from './storage'
+
+export type KeySource = 'safeStorage' | 'passphrase'
+
+export type VaultErrorCode = 'WRONG_KEY' | 'CORRUPTED' | 'UNAVAILABLE' | 'LOCKED'
+
+export class VaultError extends Error {
+  readonly code: VaultErrorCode
+
+  constructor(code: VaultErrorCode, message: string) {
+    super(message)
+    this.name = 'VaultError'
+    this.code = code
+  }
+}
+
+// OS-backed secret protection, i.e. Electron's safeStorage
+export interface KeyProtector {
+  isAvailable(): boolean
+  encrypt(plaintext: string): Buffer
+  decrypt(ciphertext: Buffer): string
+}
+
+interface Sealed {
+  iv: string
+  tag: string
+  ciphertext: string
+}
+
+interface VaultHeader {
+  keySource: KeySource
+  // scrypt salt, for passphrase-derived keys
+  salt?: string
+  // Random data key encrypted by the KeyProtector
+  wrappedKey?: string
+}
+
+interface Envelope extends VaultHeader {
+  format: 'clipboard-vault'
+  version: 1
+  // A known value sealed with the key, so a wrong key can be told apart from a damaged file
+  check: Sealed
+  data: Sealed
+}
+
+export interface BlobCipher {
+  encrypt(data: Buffer): Buffer
+  decrypt(data: Buffer): Buffer
+  // File name for a blob id. Ids are content hashes, so a plain id would let anyone with the
+  // directory listing test guesses at short secrets without the key.
+  nameFor(id: string): string
+}
+
+const CHECK_PLAINTEXT = 'clipboard-vault-check'
+const BLOB_MAGIC = Buffer.from('CMV1')
+const KEY_LENGTH = 32
+
+function seal(key: Buffer, plaintext: Buffer): Sealed {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  }
+}
+
+function unseal(key: Buffer, sealed: Sealed): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'))
+  return Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()])
+}
+
+export function derivePassphraseKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, KEY_LENGTH, { N: 1 << 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 })
+}
+
+function isSealed(value: unknown): value is Sealed {
+  const sealed = value as Sealed
+  return !!sealed && typeof sealed.iv === 'string' && typeof sealed.tag === 'string' && typeof sealed.ciphertext === 'string'
+}
+
+// Encrypts blob files with the vault key and names them by an HMAC under the same key. Encrypted
+// blobs carry a magic prefix, so plain and encrypted files can be read side by side while a
+// migration runs.
+export function createBlobCipher(key: Buffer): BlobCipher {
+  return {
+    encrypt(data) {
+      const iv = randomBytes(12)
+      const cipher = createCipheriv('aes-256-gcm', key, iv)
+      const ciphertext = Buffer.concat([cipher.update(data), cipher.final()])
+      return Buffer.concat([BLOB_MAGIC, iv, cipher.getAuthTag(), ciphertext])
+    },
+    decrypt(data) {
+      const offset = BLOB_MAGIC.length
+      const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(offset, offset + 12))
+      decipher.setAuthTag(data.subarray(offset + 12, offset + 28))
+      return Buffer.concat([decipher.update(data.subarray(offset + 28)), decipher.final()])
+    },
+    nameFor(id) {
+      return createHmac('sha256', key).update(`blob-name:${id}`).digest('hex')
+    }
+  }
+}
+
+export function isEncryptedBlob(data: Buffer): boolean {
+  return data.subarray(0, BLOB_MAGIC.length).equals(BLOB_MAGIC)
+}
+
+// The encrypted history file. It is always rewritten through a temp file so a crash
+// mid-write leaves the previous version intact.
+export class Vault {
+  private readonly path: string
+  private readonly protector: KeyProtector
+
+  constructor(path: string, protector: KeyProtector) {
+    this.path = path
+    this.protector = protector
+  }
+
+  exists(): boolean {
+    return existsSync(this.path)
+  }
+
+  private readEnvelope(): Envelope {
+    let envelope: Envelope
+    try {
+      envelope = JSON.parse(readFileSync(this.path, 'utf8'))
+    } catch {
+      throw new VaultError('CORRUPTED', 'The encrypted history file could not be read')
+    }
+    if (envelope?.format !== 'clipboard-vault' || !isSealed(envelope.check) || !isSealed(envelope.data)) {
+      throw new VaultError('CORRUPTED', 'The encrypted history file is damaged')
+    }
+    return envelope
+  }
+
+  keySource(): KeySource {
+    return this.readEnvelope().keySource
+  }
+
+  // Creates the data key for a new vault; the header records how to recover it later
+  createKey(keySource: KeySource, passphrase?: string): { key: Buffer, header: VaultHeader } {
+    if (keySource === 'passphrase') {
+      if (!passphrase) {
+        throw new VaultError('WRONG_KEY', 'A passphrase is required')
+      }
+      const salt = randomBytes(16)
+      return { key: derivePassphraseKey(passphrase, salt), header: { keySource, salt: salt.toString('base64') } }
+    }
+
+    if (!this.protector.isAvailable()) {
+      throw new VaultError('UNAVAILABLE', 'Secure key storage is not available on this system; use a passphrase instead')
+    }
+    const key = randomBytes(KEY_LENGTH)
+    const wrappedKey = this.protector.encrypt(key.toString('base64')).toString('base64')
+    return { key, header: { keySource, wrappedKey } }
+  }
+
+  // Recovers the key of the existing vault and checks it against the stored check value
+  unlockKey(passphrase?: string): { key: Buffer, header: VaultHeader } {
+    const envelope = this.readEnvelope()
+    const header: VaultHeader = { keySource: envelope.keySource, salt: envelope.salt, wrappedKey: envelope.wrappedKey }
+    let key: Buffer
+
+    if (envelope.keySource === 'passphrase') {
+      if (!passphrase) {
+        throw new VaultError('LOCKED', 'The clipboard history is locked')
+      }
+      if (!envelope.salt) {
+        throw new VaultError('CORRUPTED', 'The encrypted history file is missing its key salt')
+      }
+      key = derivePassphraseKey(passphrase, Buffer.from(envelope.salt, 'base64'))
+    } else {
+      if (!this.protector.isAvailable()) {
+        throw new VaultError('UNAVAILABLE', 'Secure key storage is not available, so the history cannot be decrypted')
+      }
+      try {
+        key = Buffer.from(this.protector.decrypt(Buffer.from(envelope.wrappedKey ?? '', 'base64')), 'base64')
+      } catch {
+        throw new VaultError('WRONG_KEY', 'The history was encrypted with a key from another user account or machine')
+      }
+    }
+
+    try {
+      if (unseal(key, envelope.check).toString('utf8') !== CHECK_PLAINTEXT) throw new Error()
+    } catch {
+      throw new VaultError('WRONG_KEY', envelope.keySource === 'passphrase' ? 'Wrong passphrase' : 'The stored key does not match this history file')
+    }
+    return { key, header }
+  }
+
+  read(key: Buffer): LibraryData {
+    const envelope = this.readEnvelope()
+    try {
+      const data = JSON.parse(unseal(key, envelope.data).toString('utf8')) as LibraryData
+      return { history: data.history ?? [], pinned: data.pinned ?? [], collections: data.collections ?? [] }
+    } catch {
+      throw new VaultError('CORRUPTED', 'The encrypted history file is damaged and cannot be decrypted')
+    }
+  }
+
+  write(key: Buffer, header: VaultHeader, data: LibraryData) {
+    const envelope: Envelope = {
+      format: 'clipboard-vault',
+      version: 1,
+      ...header,
+      check: seal(key, Buffer.from(CHECK_PLAINTEXT)),
+      data: seal(key, Buffer.from(JSON.stringify(data)))
+    }
+    const tempPath = `${this.path}.tmp`
+    writeFileSync(tempPath, JSON.stringify(envelope), { mode: 0o600 })
+    renameSync(tempPath, this.path)
+  }
+
+  remove() {
+    rmSync(this.path, { force: true })
+  }
+
+  // Moves a damaged file aside instead of deleting it, so it can still be recovered by hand
+  quarantine(): string {
+    const backupPath = `${this.path}.corrupt-${Date.now()}`
+    renameSync(this.path, backupPath)
+    return backupPath
+  }
+}
+
+export class EncryptedLibraryStorage implements LibraryStorage {
+  private readonly vault: Vault
+  private readonly key: Buffer
+  private readonly header: VaultHeader
+
+  constructor(vault: Vault, key: Buffer, header: VaultHeader) {
+    this.vault = vault
+    this.key = key
+    this.header = header
+  }
+
+  load(): LibraryData {
+    return this.vault.read(this.key)
+  }
+
+  save(data: LibraryData) {
+    this.vault.write(this.key, this.header, data)
+  }
+}
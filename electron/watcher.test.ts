@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { CapturedContent } from './formats'
+import { FakeClipboard } from './fakeClipboard'
+import { ClipboardWatcher, createSelectionSource, fingerprint, type ClipboardImage, type WatcherOptions } from './watcher'
+
+function setup(options: Partial<WatcherOptions> = {}) {
+  const source = new FakeClipboard()
+  const captured: CapturedContent[] = []
+  const images: ClipboardImage[] = []
+  const watcher = new ClipboardWatcher(source, {
+    onImage: image => images.push(image),
+    onContent: content => captured.push(content)
+  }, {
+    minInterval: () => 300,
+    isPaused: () => false,
+    ignoreConcealed: () => true,
+    ...options
+  })
+  watcher.markSeen()
+  return { source, watcher, captured, images }
+}
+
+const png = (label: string) => Buffer.from(`png:${label}`)
+
+describe('ClipboardWatcher', () => {
+  it('ignores what was on the clipboard before it started', () => {
+    const { source, watcher, captured } = setup()
+    source.copyText('old')
+    watcher.markSeen()
+    expect(watcher.tick()).toBe(false)
+    expect(captured).toEqual([])
+  })
+
+  it('records a new copy once', () => {
+    const { source, watcher, captured } = setup()
+    source.copyText('hello')
+    expect(watcher.tick()).toBe(true)
+    expect(watcher.tick()).toBe(false)
+    expect(captured).toEqual([{ type: 'text', content: 'hello', alternates: {} }])
+  })
+
+  it('does not read payloads while the change token is unchanged', () => {
+    const { source, watcher } = setup()
+    source.copy({ image: { png: png('a'), width: 10, height: 10 } })
+    watcher.tick()
+    const reads = { ...source.reads }
+    for (let i = 0; i < 5; i++) watcher.tick()
+    expect(source.reads).toEqual(reads)
+  })
+
+  it('records the same text again after something else was copied', () => {
+    const { source, watcher, captured } = setup()
+    source.copyText('a')
+    watcher.tick()
+    source.copyText('b')
+    watcher.tick()
+    source.copyText('a')
+    watcher.tick()
+    expect(captured.map(content => content.content)).toEqual(['a', 'b', 'a'])
+  })
+
+  it('skips a rewrite of identical contents', () => {
+    const { source, watcher, captured } = setup()
+    source.copyText('same')
+    watcher.tick()
+    source.copyText('same')
+    expect(watcher.tick()).toBe(false)
+    expect(captured).toHaveLength(1)
+  })
+
+  it('records images, ignoring the text that comes with them', () => {
+    const { source, watcher, captured, images } = setup()
+    source.copy({ text: 'screenshot.png', image: { png: png('a'), width: 4, height: 3 } })
+    watcher.tick()
+    expect(images.map(image => [image.width, image.height])).toEqual([[4, 3]])
+    expect(captured).toEqual([])
+  })
+
+  it('prefers a file list over the icon image that comes with it', () => {
+    const { source, watcher, captured, images } = setup()
+    source.copy({ files: ['/tmp/a.txt'], image: { png: png('icon'), width: 16, height: 16 } })
+    const imageReads = source.reads.image
+    watcher.tick()
+    expect(images).toEqual([])
+    expect(captured).toEqual([{ type: 'files', content: '/tmp/a.txt', alternates: {} }])
+    expect(source.reads.image).toBe(imageReads)
+  })
+
+  it('skips concealed contents, even once the marker is gone', () => {
+    const { source, watcher, captured } = setup()
+    source.copy({ text: 'hunter2', formats: ['org.nspasteboard.ConcealedType'] })
+    expect(watcher.tick()).toBe(false)
+    source.copyText('hunter2')
+    expect(watcher.tick()).toBe(false)
+    expect(captured).toEqual([])
+  })
+
+  it('records concealed contents when told not to ignore them', () => {
+    const { source, watcher, captured } = setup({ ignoreConcealed: () => false })
+    source.copy({ text: 'hunter2', formats: ['org.nspasteboard.ConcealedType'] })
+    watcher.tick()
+    expect(captured).toHaveLength(1)
+  })
+
+  it('does nothing while paused', () => {
+    let paused = true
+    const { source, watcher, captured } = setup({ isPaused: () => paused })
+    source.copyText('secret')
+    expect(watcher.tick()).toBe(false)
+    paused = false
+    expect(watcher.tick()).toBe(true)
+    expect(captured).toHaveLength(1)
+  })
+
+  it('recognizes its own writes by content, however late the next check runs', () => {
+    const { source, watcher, captured, images } = setup()
+    const reads = { ...source.reads }
+    source.writeText('pasted by the app')
+    watcher.markSeen({ text: 'pasted by the app' })
+    source.writeImage(png('own'))
+    watcher.markSeen({ image: png('own') })
+    // What was written is known, so it is neither read back nor encoded again
+    expect(source.reads).toEqual(reads)
+
+    expect(watcher.tick()).toBe(false)
+    expect(captured).toEqual([])
+    expect(images).toEqual([])
+  })
+
+  it('tells payloads apart by a fingerprint of fixed cost', () => {
+    expect(fingerprint('abc')).not.toBe(fingerprint('abd'))
+    const large = Buffer.alloc(1024 * 1024, 1)
+    const changed = Buffer.from(large)
+    changed[large.length - 256] = 2
+    expect(fingerprint(large)).toBe(fingerprint(Buffer.from(large)))
+    expect(fingerprint(changed)).not.toBe(fingerprint(large))
+    expect(fingerprint(Buffer.alloc(large.length + 1, 1))).not.toBe(fingerprint(large))
+  })
+
+  describe('polling', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('backs off while idle and speeds up after a change', () => {
+      const { source, watcher, captured } = setup()
+      watcher.start()
+      expect(watcher.interval).toBe(300)
+
+      vi.advanceTimersByTime(300)
+      expect(watcher.interval).toBe(450)
+      vi.advanceTimersByTime(450 + 675 + 1013 + 1520)
+      expect(watcher.interval).toBe(2000)
+
+      source.copyText('new')
+      vi.advanceTimersByTime(2000)
+      expect(captured).toHaveLength(1)
+      expect(watcher.interval).toBe(300)
+
+      watcher.stop()
+      expect(watcher.isRunning).toBe(false)
+    })
+
+    it('returns to the fastest interval when woken', () => {
+      const { watcher } = setup()
+      watcher.start()
+      vi.advanceTimersByTime(300 + 450)
+      expect(watcher.interval).toBe(675)
+      watcher.wake()
+      expect(watcher.interval).toBe(300)
+      watcher.stop()
+    })
+  })
+})
+
+describe('createSelectionSource', () => {
+  it('reports a selection once it has stopped changing', () => {
+    let selection = 'before'
+    const source = createSelectionSource(() => selection)
+    const captured: CapturedContent[] = []
+    const watcher = new ClipboardWatcher(source, {
+      onImage: () => {},
+      onContent: content => captured.push(content)
+    }, { minInterval: () => 300, isPaused: () => false, ignoreConcealed: () => true })
+    watcher.markSeen()
+
+    selection = 'he'
+    expect(watcher.tick()).toBe(false)
+    selection = 'hello'
+    expect(watcher.tick()).toBe(false)
+    expect(watcher.tick()).toBe(true)
+    expect(watcher.tick()).toBe(false)
+    expect(captured).toEqual([{ type: 'text', content: 'hello', alternates: {} }])
+  })
+})
@@ -0,0 +1,233 @@
+import { hashContent } from './blobStore'
+import { classifySnapshot, EMPTY_SNAPSHOT, snapshotSignature, type CapturedContent, type ClipboardSnapshot } from './formats'
+import { CONCEALED_FORMATS } from './sensitive'
+
+// An image on the clipboard, already encoded as PNG
+export interface ClipboardImage {
+  png: Buffer
+  hash: string
+  width: number
+  height: number
+  createThumbnail(): string
+}
+
+// Where the watcher reads the clipboard from. Backends keep `changeToken` cheap, so the full
+// payloads are only read once something has changed.
+export interface ClipboardSource {
+  // Names of the formats currently offered
+  formats(): string[]
+  // Changes whenever the clipboard contents may have changed; equal tokens mean nothing did
+  changeToken(formats: string[]): string
+  readSnapshot(): ClipboardSnapshot
+  readImage(): ClipboardImage | null
+}
+
+// What the app itself wrote to the clipboard. The watcher takes it as seen from this, rather than
+// reading the contents back.
+export type WrittenContent =
+  | { image: Buffer }
+  | { files: string[] }
+  | { text: string, html?: string, rtf?: string, bookmark?: string }
+
+export interface WatcherHandlers {
+  onImage(image: ClipboardImage): void
+  onContent(captured: CapturedContent): void
+}
+
+export interface WatcherOptions {
+  // Polling starts at this interval after a change and slows down while the clipboard is idle
+  minInterval: () => number
+  // While true (the library is locked) nothing is read or recorded
+  isPaused: () => boolean
+  ignoreConcealed: () => boolean
+}
+
+// Idle polling slows down by this factor per quiet tick, up to MAX_IDLE_INTERVAL
+const BACKOFF_FACTOR = 1.5
+const MAX_IDLE_INTERVAL = 2000
+
+// How many bytes or characters a fingerprint looks at, whatever the size of the payload
+const FINGERPRINT_SAMPLES = 4096
+
+// A short stand-in for a payload, for change tokens: its length and evenly spaced samples of it.
+// Payloads up to the sample count are taken whole, so small changes always show; in larger ones a
+// change that misses every sample goes unnoticed, the price of a fixed cost per poll.
+export function fingerprint(data: string | Buffer): string {
+  if (data.length <= FINGERPRINT_SAMPLES) {
+    return hashContent(`${data.length}:${typeof data === 'string' ? data : data.toString('base64')}`)
+  }
+  const stride = data.length / FINGERPRINT_SAMPLES
+  if (typeof data === 'string') {
+    let samples = ''
+    for (let i = 0; i < FINGERPRINT_SAMPLES; i++) samples += data[Math.floor(i * stride)]
+    return hashContent(`${data.length}:${samples}`)
+  }
+  const samples = Buffer.alloc(FINGERPRINT_SAMPLES)
+  for (let i = 0; i < FINGERPRINT_SAMPLES; i++) samples[i] = data[Math.floor(i * stride)]
+  return hashContent(`${data.length}:${samples.toString('base64')}`)
+}
+
+// An empty format list means the backend cannot tell, so the image is read anyway
+const hasImageFormat = (formats: string[]) => formats.length === 0 || formats.some(format => format.startsWith('image/'))
+
+// A text-only source for the X11/Wayland PRIMARY selection: whatever was last selected, without
+// being copied. It changes continuously while a selection is dragged out, so a selection only
+// counts once it has stayed the same for a whole poll. The first read counts straight away, so
+// the watcher can mark it as seen when it starts.
+export function createSelectionSource(readSelection: () => string): ClipboardSource {
+  let previous: string | null = null
+  let settled = ''
+  return {
+    formats: () => ['text/plain'],
+
+    changeToken: () => {
+      const text = readSelection()
+      if (previous === null || text === previous) {
+        settled = text
+      }
+      previous = text
+      return settled
+    },
+
+    readSnapshot: () => ({ text: settled, html: '', rtf: '', files: [], bookmark: null }),
+
+    readImage: () => null
+  }
+}
+
+export class ClipboardWatcher {
+  private readonly source: ClipboardSource
+  private readonly handlers: WatcherHandlers
+  private readonly options: WatcherOptions
+  private timer: NodeJS.Timeout | null = null
+  private currentInterval = 0
+  private lastToken = ''
+  // Signature of the last non-image contents seen, see snapshotSignature
+  private lastSignature = ''
+  private lastImageHash = ''
+
+  constructor(source: ClipboardSource, handlers: WatcherHandlers, options: WatcherOptions) {
+    this.source = source
+    this.handlers = handlers
+    this.options = options
+  }
+
+  get isRunning() {
+    return this.timer !== null
+  }
+
+  get interval() {
+    return this.currentInterval
+  }
+
+  // Whatever is on the clipboard when monitoring starts was copied before, so it is not recorded
+  start() {
+    this.stop()
+    this.markSeen()
+    this.currentInterval = this.options.minInterval()
+    this.schedule()
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  // Returns to the fastest interval, for moments when a copy is likely
+  wake() {
+    this.currentInterval = this.options.minInterval()
+    if (this.timer) {
+      this.stop()
+      this.schedule()
+    }
+  }
+
+  // Treats the current contents as already seen. The app calls this after its own writes, with
+  // what it wrote, so they are recognized by content rather than by how soon the next check
+  // happens, and without reading or encoding them again. Without `written`, as when monitoring
+  // starts, the contents are read.
+  markSeen(written?: WrittenContent) {
+    const formats = this.source.formats()
+    this.lastToken = this.source.changeToken(formats)
+    if (written) {
+      if ('image' in written) {
+        this.lastImageHash = hashContent(written.image)
+        this.lastSignature = snapshotSignature(EMPTY_SNAPSHOT)
+      } else if ('files' in written) {
+        this.lastSignature = snapshotSignature({ ...EMPTY_SNAPSHOT, files: written.files })
+      } else {
+        const { text, html = '', rtf = '', bookmark } = written
+        this.lastSignature = snapshotSignature({ ...EMPTY_SNAPSHOT, text, html, rtf, bookmark: bookmark ? { title: bookmark, url: text } : null })
+      }
+      return
+    }
+    const snapshot = this.source.readSnapshot()
+    this.lastSignature = snapshotSignature(snapshot)
+    if (snapshot.files.length === 0 && hasImageFormat(formats)) {
+      this.lastImageHash = this.source.readImage()?.hash ?? this.lastImageHash
+    }
+  }
+
+  // Checks the clipboard once and reports whether something new was recorded
+  tick(): boolean {
+    if (this.options.isPaused()) {
+      return false
+    }
+
+    const formats = this.source.formats()
+    const token = this.source.changeToken(formats)
+    if (token === this.lastToken) {
+      return false
+    }
+    this.lastToken = token
+
+    const snapshot = this.source.readSnapshot()
+    const signature = snapshotSignature(snapshot)
+
+    if (this.options.ignoreConcealed() && formats.some(format => CONCEALED_FORMATS.includes(format))) {
+      // Remember the concealed content so it is not recorded once the marker is gone
+      this.lastSignature = signature
+      return false
+    }
+
+    // Copied files usually come with their icon as an image, so a file list takes precedence
+    const image = snapshot.files.length === 0 && hasImageFormat(formats) ? this.source.readImage() : null
+    if (image && image.hash !== this.lastImageHash) {
+      this.lastImageHash = image.hash
+      // Text offered alongside the image describes the same copy
+      this.lastSignature = signature
+      this.handlers.onImage(image)
+      return true
+    }
+
+    if (signature === this.lastSignature) {
+      return false
+    }
+    this.lastSignature = signature
+    const captured = classifySnapshot(snapshot)
+    if (!captured) {
+      return false
+    }
+    this.handlers.onContent(captured)
+    return true
+  }
+
+  private schedule() {
+    this.timer = setTimeout(() => {
+      let changed = false
+      try {
+        changed = this.tick()
+      } catch {
+        // Keep watching even if one read fails
+      }
+      const minInterval = this.options.minInterval()
+      const maxInterval = Math.max(minInterval, MAX_IDLE_INTERVAL)
+      this.currentInterval = changed
+        ? minInterval
+        : Math.min(maxInterval, Math.max(minInterval, Math.round(this.currentInterval * BACKOFF_FACTOR)))
+      this.schedule()
+    }, this.currentInterval)
+  }
+}
@@ -0,0 +1,171 @@
+import { createHash } from 'crypto'
+import type { IncomingMessage } from 'http'
+import type { Duplex } from 'stream'
+
+// Just enough of RFC 6455 to stream events to a client: the handshake, unfragmented text
+// frames from the server, and the control frames a client may send. Incoming data frames
+// are read and discarded, since the event stream only goes one way.
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+export const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa
+} as const
+
+// Clients have no reason to send more than a close reason or a ping
+const MAX_INCOMING_PAYLOAD = 64 * 1024
+
+export interface Frame {
+  fin: boolean
+  opcode: number
+  payload: Buffer
+}
+
+// Clients must mask what they send; servers must not
+export function encodeFrame(opcode: number, payload: Buffer, mask?: Buffer): Buffer {
+  const length = payload.length
+  const extended = length < 126 ? 0 : length < 0x10000 ? 2 : 8
+  const header = Buffer.alloc(2 + extended + (mask ? 4 : 0))
+  header[0] = 0x80 | opcode
+  header[1] = (mask ? 0x80 : 0) | (extended === 0 ? length : extended === 2 ? 126 : 127)
+  if (extended === 2) {
+    header.writeUInt16BE(length, 2)
+  } else if (extended === 8) {
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+  if (!mask) {
+    return Buffer.concat([header, payload])
+  }
+  mask.copy(header, 2 + extended)
+  const masked = Buffer.from(payload)
+  for (let i = 0; i < masked.length; i++) {
+    masked[i] ^= mask[i % 4]
+  }
+  return Buffer.concat([header, masked])
+}
+
+// Reads one frame from the start of `buffer`. Returns null until the whole frame has arrived.
+export function decodeFrame(buffer: Buffer, maxPayload = Infinity): { frame: Frame, length: number } | null {
+  if (buffer.length < 2) return null
+  const masked = (buffer[1] & 0x80) !== 0
+  let payloadLength = buffer[1] & 0x7f
+  let offset = 2
+  if (payloadLength === 126) {
+    if (buffer.length < 4) return null
+    payloadLength = buffer.readUInt16BE(2)
+    offset = 4
+  } else if (payloadLength === 127) {
+    if (buffer.length < 10) return null
+    const long = buffer.readBigUInt64BE(2)
+    if (long > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new RangeError('WebSocket frame too large')
+    }
+    payloadLength = Number(long)
+    offset = 10
+  }
+  if (payloadLength > maxPayload) {
+    throw new RangeError('WebSocket frame too large')
+  }
+  const maskOffset = offset
+  if (masked) offset += 4
+  if (buffer.length < offset + payloadLength) return null
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + payloadLength))
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) {
+      payload[i] ^= buffer[maskOffset + i % 4]
+    }
+  }
+  return { frame: { fin: (buffer[0] & 0x80) !== 0, opcode: buffer[0] & 0x0f, payload }, length: offset + payloadLength }
+}
+
+export class WebSocketConnection {
+  private readonly socket: Duplex
+  private buffer = Buffer.alloc(0)
+  private closed = false
+  private closeListeners: (() => void)[] = []
+
+  constructor(socket: Duplex) {
+    this.socket = socket
+    socket.on('data', (chunk: Buffer) => this.receive(chunk))
+    socket.on('close', () => this.markClosed())
+    socket.on('error', () => socket.destroy())
+  }
+
+  get isOpen() {
+    return !this.closed
+  }
+
+  send(text: string) {
+    if (!this.closed) {
+      this.socket.write(encodeFrame(OPCODES.text, Buffer.from(text, 'utf8')))
+    }
+  }
+
+  // 1000 is a normal closure, 1001 the server going away
+  close(code = 1000) {
+    if (this.closed) return
+    const payload = Buffer.alloc(2)
+    payload.writeUInt16BE(code)
+    this.socket.end(encodeFrame(OPCODES.close, payload))
+    this.markClosed()
+  }
+
+  onClose(listener: () => void) {
+    this.closeListeners.push(listener)
+  }
+
+  private markClosed() {
+    if (this.closed) return
+    this.closed = true
+    this.closeListeners.forEach(listener => listener())
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    try {
+      let decoded = decodeFrame(this.buffer, MAX_INCOMING_PAYLOAD)
+      while (decoded) {
+        this.buffer = this.buffer.subarray(decoded.length)
+        this.handle(decoded.frame)
+        decoded = this.closed ? null : decodeFrame(this.buffer, MAX_INCOMING_PAYLOAD)
+      }
+    } catch {
+      // 1009: message too big
+      this.close(1009)
+    }
+  }
+
+  private handle(frame: Frame) {
+    if (frame.opcode === OPCODES.close) {
+      this.close()
+    } else if (frame.opcode === OPCODES.ping) {
+      this.socket.write(encodeFrame(OPCODES.pong, frame.payload))
+    }
+  }
+}
+
+// Completes the opening handshake of an upgrade request, or answers 400 when it is not one
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key']
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string' ||
+      request.headers['sec-websocket-version'] !== '13') {
+    socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n')
+    return null
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64')
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'))
+  return new WebSocketConnection(socket)
+}
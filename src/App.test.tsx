@@ -0,0 +1,152 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, cleanup, fireEvent, render, screen, waitFor, within } from '@testing-library/react'
+import { DEFAULT_SETTINGS } from '../electron/settings'
+import App from './App'
+
+// The renderer's ClipboardItem merges with the DOM interface of the same name, hence the cast
+const item = (id: string, content: string) => ({
+  id,
+  content,
+  type: 'text',
+  timestamp: Date.now(),
+  preview: content
+}) as ClipboardItem
+
+const unsubscribe = () => () => {}
+
+// Only what App calls on startup and in the flows under test; anything else fails loudly
+function mockElectronAPI(history: ClipboardItem[]) {
+  const api = {
+    getClipboardHistory: vi.fn(async () => history),
+    getPinnedItems: vi.fn(async (): Promise<PinnedState> => ({ items: [], collections: [] })),
+    getAutoPasteSetting: vi.fn(async () => true),
+    getPasteStack: vi.fn(async (): Promise<PasteStackState> => ({ active: false, order: 'fifo', items: [] })),
+    getSettings: vi.fn(async (): Promise<Settings> => DEFAULT_SETTINGS),
+    updateSettings: vi.fn(async (patch: Partial<Settings>) => patch),
+    getEncryptionStatus: vi.fn(async (): Promise<EncryptionStatus> => ({ encrypted: false, locked: false, safeStorageAvailable: false })),
+    listTransforms: vi.fn(async () => []),
+    searchHistory: vi.fn(async (query: string): Promise<SearchResult[]> =>
+      history
+        .filter(entry => entry.content.includes(query))
+        .map(entry => ({ item: entry, score: 1, snippet: entry.content, highlights: [] }))
+    ),
+    getItemDetail: vi.fn(async (id: string): Promise<ItemDetail> => ({
+      id,
+      type: 'text',
+      lines: [[{ text: 'const', kind: 'keyword' }, { text: ' x' }]],
+      language: 'javascript',
+      stats: { chars: 7, words: 2, lines: 1 }
+    })),
+    deleteClipboardItem: vi.fn(async (id: string) => history.filter(entry => entry.id !== id)),
+    clearClipboardHistory: vi.fn(async () => []),
+    onClipboardUpdated: vi.fn(unsubscribe),
+    onPinnedUpdated: vi.fn(unsubscribe),
+    onSettingsUpdated: vi.fn<(callback: (settings: Settings) => void) => () => void>(unsubscribe),
+    onImportPreview: vi.fn(unsubscribe),
+    onEncryptionStatusUpdated: vi.fn(unsubscribe),
+    onPasteStackUpdated: vi.fn(unsubscribe),
+    onPasteFeedback: vi.fn(unsubscribe)
+  }
+  window.electronAPI = api as unknown as ElectronAPI
+  return api
+}
+
+describe('App', () => {
+  let api: ReturnType<typeof mockElectronAPI>
+
+  beforeEach(() => {
+    // jsdom does not implement scrolling, which the list uses to keep the selection visible
+    Element.prototype.scrollIntoView = vi.fn()
+    api = mockElectronAPI([item('3', 'gamma'), item('2', 'beta'), item('1', 'alpha beta')])
+  })
+
+  afterEach(() => {
+    cleanup()
+  })
+
+  const rows = () => document.querySelectorAll('.clipboard-item')
+
+  it('shows the history once loaded', async () => {
+    render(<App />)
+    expect(await screen.findByText('gamma')).toBeTruthy()
+    expect(rows()).toHaveLength(3)
+  })
+
+  it('searches through the main process and goes back to the history when the query is cleared', async () => {
+    render(<App />)
+    await screen.findByText('gamma')
+    const search = screen.getByPlaceholderText(/^Search/)
+
+    fireEvent.change(search, { target: { value: 'beta' } })
+    await waitFor(() => expect(rows()).toHaveLength(2))
+    expect(api.searchHistory).toHaveBeenCalledWith('beta')
+    expect(screen.queryByText('gamma')).toBeNull()
+
+    fireEvent.change(search, { target: { value: 'nothing' } })
+    expect(await screen.findByText('No matching items found')).toBeTruthy()
+
+    fireEvent.change(search, { target: { value: '' } })
+    await waitFor(() => expect(rows()).toHaveLength(3))
+  })
+
+  it('ranks the history and search results by use once asked to', async () => {
+    api = mockElectronAPI([
+      item('3', 'gamma'),
+      { ...item('2', 'beta'), pasteCount: 1 },
+      { ...item('1', 'alpha beta'), pasteCount: 5 }
+    ])
+    render(<App />)
+    await screen.findByText('gamma')
+    const order = () => [...rows()].map(row => row.querySelector('.item-preview')?.textContent)
+    expect(order()).toEqual(['gamma', 'beta', 'alpha beta'])
+
+    fireEvent.change(screen.getByTitle('Sort order'), { target: { value: 'mostUsed' } })
+    expect(order()).toEqual(['alpha beta', 'beta', 'gamma'])
+    expect(api.updateSettings).toHaveBeenCalledWith({ sortOrder: 'mostUsed' })
+
+    fireEvent.change(screen.getByPlaceholderText(/^Search/), { target: { value: 'beta' } })
+    await waitFor(() => expect(order()).toEqual(['alpha beta', 'beta']))
+  })
+
+  it('follows a sort order changed in another window', async () => {
+    api = mockElectronAPI([item('2', 'beta'), { ...item('1', 'alpha'), pasteCount: 3 }])
+    render(<App />)
+    await screen.findByText('beta')
+    const [[onSettingsUpdated]] = api.onSettingsUpdated.mock.calls
+
+    act(() => onSettingsUpdated({ ...DEFAULT_SETTINGS, sortOrder: 'mostUsed' }))
+    expect((screen.getByTitle('Sort order') as HTMLSelectElement).value).toBe('mostUsed')
+    expect([...rows()].map(row => row.querySelector('.item-preview')?.textContent)).toEqual(['alpha', 'beta'])
+  })
+
+  it('shows the selected item in the detail pane', async () => {
+    render(<App />)
+    await screen.findByText('gamma')
+
+    fireEvent.click(screen.getByTitle('Details (⌘I)'))
+    expect((await screen.findByText('const')).className).toBe('token-keyword')
+    expect(api.getItemDetail).toHaveBeenCalledWith('3')
+    expect(screen.getByText('7 characters · 2 words · 1 line')).toBeTruthy()
+    expect(screen.getByText('JavaScript')).toBeTruthy()
+  })
+
+  it('deletes an item with its delete button', async () => {
+    render(<App />)
+    const row = (await screen.findByText('beta')).closest('.clipboard-item') as HTMLElement
+
+    fireEvent.click(within(row).getByTitle('Delete'))
+    await waitFor(() => expect(screen.queryByText('beta')).toBeNull())
+    expect(api.deleteClipboardItem).toHaveBeenCalledWith('2')
+    expect(rows()).toHaveLength(2)
+  })
+
+  it('clears the history', async () => {
+    render(<App />)
+    await screen.findByText('gamma')
+
+    fireEvent.click(screen.getByText('Clear History'))
+    expect(await screen.findByText('No clipboard history yet')).toBeTruthy()
+    expect(api.clearClipboardHistory).toHaveBeenCalledTimes(1)
+  })
+})
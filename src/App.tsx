@@ -1,36 +1,50 @@
 import { useState, useEffect } from 'react'
 import './App.css'
+import { describeError } from './utils/errors'
+import { rankItems, rankResults, SORT_ORDERS, type SortOrder } from './utils/ranking'
+import ClipboardItemRow from './components/ClipboardItemRow'
+import DetailPane from './components/DetailPane'
+import CollectionBar, { ALL_PINNED } from './components/CollectionBar'
+import Preferences from './components/Preferences'
+import LockScreen from './components/LockScreen'
+import ImportDialog from './components/ImportDialog'
+import TransformMenu from './components/TransformMenu'
+import SnippetEditor from './components/SnippetEditor'
+import StoragePanel from './components/StoragePanel'
+import TemplatePrompt from './components/TemplatePrompt'
+import SelectionBar from './components/SelectionBar'
+import PasteStackBar from './components/PasteStackBar'
+import MergeMenu from './components/MergeMenu'
 
-interface ClipboardItem {
-  id: string
-  content: string
-  type: 'text' | 'image' | 'html'
-  timestamp: number
-  preview?: string
-}
-
-declare global {
-  interface Window {
-    electronAPI: {
-      getClipboardHistory: () => Promise<ClipboardItem[]>
-      copyToClipboard: (item: ClipboardItem) => Promise<void>
-      deleteClipboardItem: (id: string) => Promise<ClipboardItem[]>
-      clearClipboardHistory: () => Promise<ClipboardItem[]>
-      hideWindow: () => Promise<void>
-      getAutoPasteSetting: () => Promise<boolean>
-      setAutoPasteSetting: (enabled: boolean) => Promise<boolean>
-        onClipboardUpdated: (callback: (history: ClipboardItem[]) => void) => () => void
-        onPasteFeedback: (callback: (feedback: { success: boolean, message: string }) => void) => () => void
-    }
-  }
-}
+const PAGE_SIZE = 8
+// Keeps a context menu opened near the window edge fully visible
+const MENU_SIZE = { width: 260, height: 340 }
 
 function App() {
   const [clipboardHistory, setClipboardHistory] = useState<ClipboardItem[]>([])
+  const [pinnedState, setPinnedState] = useState<PinnedState>({ items: [], collections: [] })
+  const [activeCollection, setActiveCollection] = useState(ALL_PINNED)
   const [searchTerm, setSearchTerm] = useState('')
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null)
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [view, setView] = useState<'history' | 'preferences' | 'snippet' | 'storage'>('history')
   const [isLoading, setIsLoading] = useState(true)
   const [autoPasteEnabled, setAutoPasteEnabled] = useState(true)
-  const [pasteMessage, setPasteMessage] = useState<{ success: boolean, message: string } | null>(null)
+  const [pasteMessage, setPasteMessage] = useState<PasteFeedback | null>(null)
+  const [encryptionStatus, setEncryptionStatus] = useState<EncryptionStatus | null>(null)
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null)
+  const [transforms, setTransforms] = useState<TransformInfo[]>([])
+  const [transformTarget, setTransformTarget] = useState<{ item: ClipboardItem, position?: { x: number, y: number } } | null>(null)
+  const [snippetDraft, setSnippetDraft] = useState<SnippetDraft | null>(null)
+  const [templatePrompt, setTemplatePrompt] = useState<{ item: ClipboardItem, labels: string[] } | null>(null)
+  // Ids of the items picked for a bulk action, in the order they were picked
+  const [checkedIds, setCheckedIds] = useState<string[]>([])
+  const [pasteStack, setPasteStack] = useState<PasteStackState>({ active: false, order: 'fifo', items: [] })
+  const [pasteStackShortcut, setPasteStackShortcut] = useState('')
+  const [isMergeOpen, setIsMergeOpen] = useState(false)
+  const [sortOrder, setSortOrder] = useState<SortOrder>('recent')
+  // The detail pane follows the selection while it is open
+  const [isDetailOpen, setIsDetailOpen] = useState(false)
 
   useEffect(() => {
     const loadHistory = async () => {
@@ -38,9 +52,22 @@ function App() {
         if (window.electronAPI) {
           const history = await window.electronAPI.getClipboardHistory()
           setClipboardHistory(history)
+
+          const pinned = await window.electronAPI.getPinnedItems()
+          setPinnedState(pinned)
           
           const autoPaste = await window.electronAPI.getAutoPasteSetting()
           setAutoPasteEnabled(autoPaste)
+
+          setPasteStack(await window.electronAPI.getPasteStack())
+          const settings = await window.electronAPI.getSettings()
+          setPasteStackShortcut(settings.pasteStackShortcut)
+          setSortOrder(settings.sortOrder)
+
+          const encryption = await window.electronAPI.getEncryptionStatus()
+          setEncryptionStatus(encryption)
+
+          setTransforms(await window.electronAPI.listTransforms())
         }
       } catch (error) {
         console.error('Failed to load clipboard history:', error)
@@ -55,34 +82,208 @@ function App() {
       const unsubscribeClipboard = window.electronAPI.onClipboardUpdated((history: ClipboardItem[]) => {
         setClipboardHistory(history)
       })
+
+      const unsubscribePinned = window.electronAPI.onPinnedUpdated((state: PinnedState) => {
+        setPinnedState(state)
+      })
       
-      const unsubscribePaste = window.electronAPI.onPasteFeedback((feedback: { success: boolean, message: string }) => {
+      const unsubscribeSettings = window.electronAPI.onSettingsUpdated((settings: Settings) => {
+        setAutoPasteEnabled(settings.autoPaste)
+        setPasteStackShortcut(settings.pasteStackShortcut)
+        setSortOrder(settings.sortOrder)
+      })
+
+      const unsubscribePasteStack = window.electronAPI.onPasteStackUpdated((state: PasteStackState) => {
+        setPasteStack(state)
+      })
+
+      const unsubscribeEncryption = window.electronAPI.onEncryptionStatusUpdated((status: EncryptionStatus) => {
+        setEncryptionStatus(status)
+      })
+
+      const unsubscribeImport = window.electronAPI.onImportPreview((preview: ImportPreview) => {
+        setImportPreview(preview)
+      })
+
+      const unsubscribePaste = window.electronAPI.onPasteFeedback((feedback: PasteFeedback) => {
         setPasteMessage(feedback)
         setTimeout(() => setPasteMessage(null), 3000)
       })
       
       return () => {
         unsubscribeClipboard()
+        unsubscribePinned()
+        unsubscribeSettings()
+        unsubscribeEncryption()
+        unsubscribeImport()
+        unsubscribePasteStack()
         unsubscribePaste()
       }
     }
   }, [])
 
-  const filteredHistory = clipboardHistory.filter(item => {
-    if (item.type === 'image') {
-      return searchTerm === '' || 'image'.includes(searchTerm.toLowerCase())
+  // Searching happens in the main process, which keeps an index over the full item text.
+  // Re-run the query whenever the underlying lists change so results stay current.
+  useEffect(() => {
+    const query = searchTerm.trim()
+    if (!query || !window.electronAPI) {
+      setSearchResults(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const results = await window.electronAPI.searchHistory(query)
+        if (!cancelled) {
+          setSearchResults(results)
+        }
+      } catch (error) {
+        console.error('Failed to search clipboard history:', error)
+      }
+    }, 80)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
     }
-    return item.content.toLowerCase().includes(searchTerm.toLowerCase())
-  })
+  }, [searchTerm, clipboardHistory, pinnedState])
+
+  // Fall back to all pinned items if the selected collection was deleted elsewhere
+  const visibleCollection = pinnedState.collections.some(c => c.id === activeCollection) ? activeCollection : ALL_PINNED
+  const visiblePinned = pinnedState.items.filter(item =>
+    visibleCollection === ALL_PINNED || item.collectionId === visibleCollection
+  )
+  const rankedHistory = rankItems(clipboardHistory, sortOrder)
+  const rankedResults = searchResults && rankResults(searchResults, sortOrder)
+  // Items in the order they appear on screen; keyboard selection and quick-paste index into this
+  const visibleItems = rankedResults
+    ? rankedResults.map(result => result.item)
+    : [...visiblePinned, ...rankedHistory]
+  const selectedItem: ClipboardItem | undefined = visibleItems[Math.min(selectedIndex, visibleItems.length - 1)]
+  // Picked items that still exist, in picking order
+  const checkedItems = checkedIds
+    .map(id => pinnedState.items.find(item => item.id === id) ?? clipboardHistory.find(item => item.id === id))
+    .filter((item): item is ClipboardItem => !!item)
+
+  useEffect(() => {
+    setSelectedIndex(0)
+  }, [searchResults, visibleCollection])
 
-  const handleCopyItem = async (item: ClipboardItem) => {
+  const handleCopyItem = async (item: ClipboardItem, options?: CopyOptions) => {
     try {
       if (window.electronAPI) {
-        await window.electronAPI.copyToClipboard(item)
+        // Snippets with {{input:…}} fields are pasted once the user has filled them in
+        if (item.template && !options?.inputs) {
+          const labels = await window.electronAPI.getTemplateInputs(item.id)
+          if (labels.length > 0) {
+            setTemplatePrompt({ item, labels })
+            return
+          }
+        }
+        await window.electronAPI.copyToClipboard(item, options)
         // Don't call hideWindow here - the main process handles it
       }
     } catch (error) {
       console.error('Failed to copy item:', error)
+      if (item.template) {
+        setPasteMessage({ success: false, message: describeError(error) })
+        setTimeout(() => setPasteMessage(null), 3000)
+      }
+    }
+  }
+
+  const handleTemplateInputs = (inputs: Record<string, string>) => {
+    if (!templatePrompt) return
+    setTemplatePrompt(null)
+    handleCopyItem(templatePrompt.item, { inputs })
+  }
+
+  const openSnippetEditor = async (item?: ClipboardItem) => {
+    try {
+      setSnippetDraft(item
+        ? { id: item.id, title: item.title ?? '', content: await window.electronAPI.getItemContent(item.id), collectionId: item.collectionId }
+        : { title: '', content: '', collectionId: visibleCollection === ALL_PINNED ? undefined : visibleCollection })
+      setView('snippet')
+    } catch (error) {
+      console.error('Failed to open snippet:', error)
+    }
+  }
+
+  const handleSnippetClosed = (state?: PinnedState) => {
+    if (state) {
+      setPinnedState(state)
+    }
+    setSnippetDraft(null)
+    setView('history')
+  }
+
+  const handleTransformItem = async (item: ClipboardItem, transformId: string, saveAsNew: boolean) => {
+    setTransformTarget(null)
+    try {
+      await window.electronAPI.transformAndCopy(item.id, transformId, { saveAsNew })
+    } catch (error) {
+      setPasteMessage({ success: false, message: describeError(error) })
+      setTimeout(() => setPasteMessage(null), 3000)
+    }
+  }
+
+  const openTransformMenu = (item: ClipboardItem, position?: { x: number, y: number }) => {
+    if (item.type === 'image' || transforms.length === 0) return
+    setTransformTarget({
+      item,
+      position: position && {
+        x: Math.max(0, Math.min(position.x, window.innerWidth - MENU_SIZE.width)),
+        y: Math.max(0, Math.min(position.y, window.innerHeight - MENU_SIZE.height))
+      }
+    })
+  }
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(current => current.includes(id) ? current.filter(checked => checked !== id) : [...current, id])
+  }
+
+  // Shift+↑/↓ picks the selected item and the one the selection moves to
+  const extendChecked = (delta: number) => {
+    const target = visibleItems[Math.max(0, Math.min(visibleItems.length - 1, Math.min(selectedIndex, visibleItems.length - 1) + delta))]
+    const picked = new Set([selectedItem?.id, target?.id].filter((id): id is string => !!id))
+    setCheckedIds(current => [...current, ...Array.from(picked).filter(id => !current.includes(id))])
+    moveSelection(delta)
+  }
+
+  const handleStartPasteStack = async () => {
+    try {
+      setPasteStack(await window.electronAPI.startPasteStack(checkedItems.map(item => item.id)))
+      setCheckedIds([])
+    } catch (error) {
+      console.error('Failed to start paste stack:', error)
+    }
+  }
+
+  const handleMerge = async (options: MergeOptions) => {
+    setIsMergeOpen(false)
+    try {
+      await window.electronAPI.mergeAndCopy(checkedItems.map(item => item.id), options)
+      setCheckedIds([])
+    } catch (error) {
+      setPasteMessage({ success: false, message: describeError(error) })
+      setTimeout(() => setPasteMessage(null), 3000)
+    }
+  }
+
+  const handleStopPasteStack = async () => {
+    try {
+      setPasteStack(await window.electronAPI.stopPasteStack())
+    } catch (error) {
+      console.error('Failed to stop paste stack:', error)
+    }
+  }
+
+  const handlePasteStackOrder = async (order: PasteStackState['order']) => {
+    try {
+      await window.electronAPI.updateSettings({ pasteStackOrder: order })
+    } catch (error) {
+      console.error('Failed to change paste stack order:', error)
     }
   }
 
@@ -108,17 +309,82 @@ function App() {
     }
   }
 
-  const formatTimestamp = (timestamp: number) => {
-    const date = new Date(timestamp)
-    const now = new Date()
-    const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60))
-    
-    if (diffInMinutes < 1) return 'Just now'
-    if (diffInMinutes < 60) return `${diffInMinutes}m ago`
-    if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`
-    return date.toLocaleDateString()
+  const handleTogglePin = async (item: ClipboardItem) => {
+    try {
+      if (window.electronAPI) {
+        const collectionId = item.pinned || visibleCollection === ALL_PINNED ? undefined : visibleCollection
+        const state = item.pinned
+          ? await window.electronAPI.unpinClipboardItem(item.id)
+          : await window.electronAPI.pinClipboardItem(item.id, collectionId)
+        setPinnedState(state)
+      }
+    } catch (error) {
+      console.error('Failed to toggle pin:', error)
+    }
+  }
+
+  const handleMoveItem = async (id: string, collectionId: string | null) => {
+    try {
+      if (window.electronAPI) {
+        const state = await window.electronAPI.moveItemToCollection(id, collectionId)
+        setPinnedState(state)
+      }
+    } catch (error) {
+      console.error('Failed to move item:', error)
+    }
+  }
+
+  const handleCreateCollection = async (name: string) => {
+    if (window.electronAPI) {
+      const collection = await window.electronAPI.createCollection(name)
+      setActiveCollection(collection.id)
+    }
+  }
+
+  const handleRenameCollection = async (collectionId: string, name: string) => {
+    if (window.electronAPI) {
+      const state = await window.electronAPI.renameCollection(collectionId, name)
+      setPinnedState(state)
+    }
   }
 
+  const handleDeleteCollection = async (collectionId: string) => {
+    if (window.electronAPI) {
+      const state = await window.electronAPI.deleteCollection(collectionId)
+      setPinnedState(state)
+      setActiveCollection(ALL_PINNED)
+    }
+  }
+
+  const handleImportClosed = (result?: ImportResult) => {
+    setImportPreview(null)
+    if (result) {
+      setView('history')
+      setPasteMessage({ success: true, message: `Imported ${result.added} item${result.added === 1 ? '' : 's'}` })
+      setTimeout(() => setPasteMessage(null), 3000)
+    }
+  }
+
+  const renderItem = (item: ClipboardItem, index: number, match?: SearchResult) => (
+    <ClipboardItemRow
+      key={item.id}
+      item={item}
+      match={match}
+      selected={item.id === selectedItem?.id}
+      checked={checkedIds.includes(item.id)}
+      onToggleChecked={() => toggleChecked(item.id)}
+      shortcutNumber={index < 9 ? index + 1 : undefined}
+      onHover={() => setSelectedIndex(index)}
+      collections={pinnedState.collections}
+      onCopy={handleCopyItem}
+      onDelete={handleDeleteItem}
+      onTogglePin={handleTogglePin}
+      onMove={handleMoveItem}
+      onContextMenu={(position) => openTransformMenu(item, position)}
+      onEdit={() => openSnippetEditor(item)}
+    />
+  )
+
   const handleToggleAutoPaste = async () => {
     try {
       if (window.electronAPI) {
@@ -130,9 +396,121 @@ function App() {
     }
   }
 
+  const handleSortOrderChange = async (order: SortOrder) => {
+    setSortOrder(order)
+    setSelectedIndex(0)
+    try {
+      await window.electronAPI?.updateSettings({ sortOrder: order })
+    } catch (error) {
+      console.error('Failed to save the sort order:', error)
+    }
+  }
+
+  const moveSelection = (delta: number) => {
+    if (visibleItems.length === 0) return
+    setSelectedIndex(current => Math.max(0, Math.min(visibleItems.length - 1, Math.min(current, visibleItems.length - 1) + delta)))
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    const isMod = e.metaKey || e.ctrlKey
+    // Keys like Home/End/Delete keep their text-editing meaning while the user is typing a query
+    const isEditingText = e.target instanceof HTMLInputElement && e.target.value !== ''
+
+    if (e.key === 'Escape' && importPreview) {
+      window.electronAPI?.cancelImport()
+      setImportPreview(null)
+      return
+    }
+
+    if (e.key === 'Escape' && view !== 'history') {
+      setSnippetDraft(null)
+      setView('history')
+      return
+    }
+
+    if (e.key === 'Escape' && view === 'history' && checkedIds.length > 0) {
+      setCheckedIds([])
+      return
+    }
+
     if (e.key === 'Escape' && window.electronAPI) {
       window.electronAPI.hideWindow()
+      return
+    }
+
+    if (view !== 'history' || importPreview) return
+
+    if (isMod && /^[1-9]$/.test(e.key)) {
+      const item = visibleItems[Number(e.key) - 1]
+      if (item) {
+        e.preventDefault()
+        handleCopyItem(item, { plainText: e.shiftKey })
+      }
+      return
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        if (e.shiftKey) extendChecked(1)
+        else moveSelection(1)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        if (e.shiftKey) extendChecked(-1)
+        else moveSelection(-1)
+        break
+      case 'PageDown':
+        e.preventDefault()
+        moveSelection(PAGE_SIZE)
+        break
+      case 'PageUp':
+        e.preventDefault()
+        moveSelection(-PAGE_SIZE)
+        break
+      case 'Home':
+        if (isEditingText && !isMod) return
+        e.preventDefault()
+        setSelectedIndex(0)
+        break
+      case 'End':
+        if (isEditingText && !isMod) return
+        e.preventDefault()
+        setSelectedIndex(Math.max(0, visibleItems.length - 1))
+        break
+      case 'Enter':
+        if (selectedItem) {
+          e.preventDefault()
+          handleCopyItem(selectedItem, { plainText: e.shiftKey })
+        }
+        break
+      case 'Delete':
+      case 'Backspace':
+        if (!selectedItem || (!isMod && (e.key === 'Backspace' || isEditingText))) return
+        e.preventDefault()
+        handleDeleteItem(selectedItem.id)
+        break
+      case 'k':
+      case 'K':
+        if (isMod && selectedItem) {
+          e.preventDefault()
+          openTransformMenu(selectedItem)
+        }
+        break
+      case 'p':
+      case 'P':
+        if (isMod && selectedItem) {
+          e.preventDefault()
+          handleTogglePin(selectedItem)
+        }
+        break
+      case 'i':
+      case 'I':
+        if (isMod) {
+          e.preventDefault()
+          setIsDetailOpen(open => !open)
+        }
+        break
     }
   }
 
@@ -144,6 +522,14 @@ function App() {
     )
   }
 
+  if (encryptionStatus && (encryptionStatus.locked || encryptionStatus.error)) {
+    return (
+      <div className="app" onKeyDown={(e) => e.key === 'Escape' && window.electronAPI?.hideWindow()}>
+        <LockScreen status={encryptionStatus} />
+      </div>
+    )
+  }
+
   return (
     <div className="app" onKeyDown={handleKeyDown} tabIndex={0}>
       <div className="header">
@@ -151,7 +537,7 @@ function App() {
         <div className="search-container">
           <input
             type="text"
-            placeholder="Search clipboard history..."
+            placeholder="Search… (type:image app:Safari after:2026-01-01 pinned:true)"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="search-input"
@@ -159,6 +545,16 @@ function App() {
           />
         </div>
         <div className="header-actions">
+          <select
+            className="sort-select"
+            value={sortOrder}
+            onChange={(e) => handleSortOrderChange(e.target.value as SortOrder)}
+            title="Sort order"
+          >
+            {SORT_ORDERS.map(order => (
+              <option key={order.value} value={order.value}>{order.label}</option>
+            ))}
+          </select>
           <label className="auto-paste-toggle">
             <input
               type="checkbox"
@@ -167,8 +563,32 @@ function App() {
             />
             Auto-paste
           </label>
-          <button onClick={handleClearHistory} className="clear-button">
-            Clear All
+          <button
+            onClick={() => setIsDetailOpen(!isDetailOpen)}
+            className={`settings-button ${isDetailOpen ? 'active' : ''}`}
+            title="Details (⌘I)"
+          >
+            ⓘ
+          </button>
+          <button onClick={() => openSnippetEditor()} className="settings-button" title="New snippet">
+            ✎
+          </button>
+          <button onClick={handleClearHistory} className="clear-button" title="Pinned items are kept">
+            Clear History
+          </button>
+          <button
+            onClick={() => setView(view === 'storage' ? 'history' : 'storage')}
+            className="settings-button"
+            title="Storage"
+          >
+            ▤
+          </button>
+          <button
+            onClick={() => setView(view === 'preferences' ? 'history' : 'preferences')}
+            className="settings-button"
+            title="Preferences"
+          >
+            ⚙
           </button>
         </div>
       </div>
@@ -179,57 +599,107 @@ function App() {
         </div>
       )}
 
-      <div className="clipboard-list">
-        {filteredHistory.length === 0 ? (
-          <div className="empty-state">
-            {searchTerm ? 'No matching items found' : 'No clipboard history yet'}
-          </div>
-        ) : (
-          filteredHistory.map((item) => (
-            <div
-              key={item.id}
-              className="clipboard-item"
-              onClick={() => handleCopyItem(item)}
-            >
-              <div className="item-content">
-                <div className="item-preview">
-                  {item.type === 'image' ? (
-                    <div className="image-preview">
-                      <img 
-                        src={item.content} 
-                        alt="Clipboard image" 
-                        className="clipboard-image"
-                        onError={() => console.log('Image failed to load')}
-                      />
-                    </div>
-                  ) : (
-                    item.preview || item.content
-                  )}
-                </div>
-                <div className="item-meta">
-                  <span className="item-type">{item.type}</span>
-                  <span className="item-timestamp">
-                    {formatTimestamp(item.timestamp)}
-                  </span>
+      {importPreview ? (
+        <ImportDialog preview={importPreview} onClose={handleImportClosed} />
+      ) : view === 'preferences' ? (
+        <Preferences onClose={() => setView('history')} />
+      ) : view === 'storage' ? (
+        <StoragePanel onClose={() => setView('history')} />
+      ) : view === 'snippet' && snippetDraft ? (
+        <SnippetEditor draft={snippetDraft} collections={pinnedState.collections} onClose={handleSnippetClosed} />
+      ) : (
+        <>
+          {pasteStack.active && (
+            <PasteStackBar
+              state={pasteStack}
+              shortcut={pasteStackShortcut}
+              onOrderChange={handlePasteStackOrder}
+              onStop={handleStopPasteStack}
+            />
+          )}
+
+          {checkedItems.length > 0 && (
+            <SelectionBar
+              count={checkedItems.length}
+              canMerge={checkedItems.every(item => item.type !== 'image')}
+              onMerge={() => setIsMergeOpen(true)}
+              onPasteStack={handleStartPasteStack}
+              onClear={() => setCheckedIds([])}
+            />
+          )}
+
+          <CollectionBar
+            collections={pinnedState.collections}
+            activeCollection={visibleCollection}
+            onSelect={setActiveCollection}
+            onCreate={handleCreateCollection}
+            onRename={handleRenameCollection}
+            onDelete={handleDeleteCollection}
+          />
+
+          <div className="clipboard-list">
+            {rankedResults ? (
+              rankedResults.length === 0 ? (
+                <div className="empty-state">No matching items found</div>
+              ) : (
+                <div className="list-section">
+                  {rankedResults.map((result, index) => renderItem(result.item, index, result))}
                 </div>
-              </div>
-              <button
-                className="delete-button"
-                onClick={(e) => {
-                  e.stopPropagation()
-                  handleDeleteItem(item.id)
-                }}
-              >
-                ✕
-              </button>
-            </div>
-          ))
-        )}
-      </div>
+              )
+            ) : (
+              <>
+                {visiblePinned.length > 0 && (
+                  <div className="list-section">
+                    <div className="section-title">Pinned</div>
+                    {visiblePinned.map((item, index) => renderItem(item, index))}
+                  </div>
+                )}
+
+                {rankedHistory.length === 0 ? (
+                  visiblePinned.length === 0 && (
+                    <div className="empty-state">No clipboard history yet</div>
+                  )
+                ) : (
+                  <div className="list-section">
+                    {visiblePinned.length > 0 && <div className="section-title">History</div>}
+                    {rankedHistory.map((item, index) => renderItem(item, visiblePinned.length + index))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          {isDetailOpen && selectedItem && (
+            <DetailPane item={selectedItem} onClose={() => setIsDetailOpen(false)} />
+          )}
+        </>
+      )}
+
+      {transformTarget && (
+        <TransformMenu
+          transforms={transforms}
+          position={transformTarget.position}
+          onSelect={(transformId, saveAsNew) => handleTransformItem(transformTarget.item, transformId, saveAsNew)}
+          onClose={() => setTransformTarget(null)}
+        />
+      )}
+
+      {isMergeOpen && checkedItems.length > 0 && (
+        <MergeMenu count={checkedItems.length} onMerge={handleMerge} onClose={() => setIsMergeOpen(false)} />
+      )}
+
+      {templatePrompt && (
+        <TemplatePrompt
+          item={templatePrompt.item}
+          labels={templatePrompt.labels}
+          onSubmit={handleTemplateInputs}
+          onClose={() => setTemplatePrompt(null)}
+        />
+      )}
 
       <div className="footer">
         <div className="shortcut-hint">
-          Press <kbd>Cmd+Shift+V</kbd> to toggle • <kbd>Esc</kbd> to close
+          <kbd>↑</kbd><kbd>↓</kbd> select • <kbd>Enter</kbd> paste • <kbd>Shift+Enter</kbd> plain text • <kbd>Cmd+1…9</kbd> quick paste • <kbd>Cmd+P</kbd> pin • <kbd>Cmd+click</kbd> select several • <kbd>Cmd+K</kbd> transform • <kbd>Cmd+⌫</kbd> delete • <kbd>Esc</kbd> close
         </div>
       </div>
     </div>
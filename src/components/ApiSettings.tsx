@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react'
+import { describeError } from '../utils/errors'
+
+interface ApiSettingsProps {
+  settings: Settings
+  onChange: (patch: Partial<Settings>) => void
+}
+
+function ApiSettings({ settings, onChange }: ApiSettingsProps) {
+  const [status, setStatus] = useState<HttpApiStatus | null>(null)
+  const [portDraft, setPortDraft] = useState<string | null>(null)
+  const [originsDraft, setOriginsDraft] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getHttpApiStatus().then(setStatus).catch(() => setStatus(null))
+    return window.electronAPI.onHttpApiStatus(setStatus)
+  }, [])
+
+  const resetToken = async () => {
+    try {
+      setStatus(await window.electronAPI.resetHttpApiToken())
+      setError(null)
+    } catch (error) {
+      setError(describeError(error))
+    }
+  }
+
+  const commitPort = () => {
+    if (portDraft === null) return
+    setPortDraft(null)
+    onChange({ httpApiPort: Number(portDraft) })
+  }
+
+  return (
+    <div className="preferences-section">
+      <h3 className="preferences-subtitle">Extensions</h3>
+      <label className="preferences-row">
+        <span>Serve the history to editor and browser extensions</span>
+        <input
+          type="checkbox"
+          checked={settings.httpApi}
+          onChange={(e) => onChange({ httpApi: e.target.checked })}
+        />
+      </label>
+      <label className="preferences-row">
+        <span>Port</span>
+        <input
+          type="number"
+          className="preferences-input"
+          min={1024}
+          max={65535}
+          value={portDraft ?? settings.httpApiPort}
+          onChange={(e) => setPortDraft(e.target.value)}
+          onBlur={commitPort}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitPort()
+          }}
+        />
+      </label>
+      <label className="preferences-column">
+        <span>Allowed origins, such as chrome-extension://abcdef (one per line)</span>
+        <textarea
+          className="preferences-textarea"
+          rows={3}
+          value={originsDraft ?? settings.httpApiOrigins.join('\n')}
+          onChange={(e) => setOriginsDraft(e.target.value)}
+          onBlur={() => {
+            if (originsDraft === null) return
+            setOriginsDraft(null)
+            onChange({ httpApiOrigins: originsDraft.split('\n').map(line => line.trim()).filter(Boolean) })
+          }}
+        />
+      </label>
+      {error && <p className="preferences-hint">{error}</p>}
+      {status?.error && <p className="preferences-hint">The server could not start: {status.error}</p>}
+      {status?.running && <p className="preferences-hint">Listening on http://127.0.0.1:{status.port}</p>}
+      {status?.token && (
+        <div className="preferences-row">
+          <span>Pairing token</span>
+          <span>
+            <input className="preferences-input" readOnly value={status.token} onFocus={(e) => e.target.select()} />
+            <button className="collection-action" onClick={resetToken}>Reset</button>
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ApiSettings
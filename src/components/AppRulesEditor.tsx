@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react'
+
+interface AppRulesEditorProps {
+  rules: AppRule[]
+  onChange: (rules: AppRule[]) => void
+}
+
+const ACTION_LABELS: Record<AppRule['action'], string> = {
+  ignore: 'Never record',
+  plainText: 'Plain text only',
+  expire: 'Delete after'
+}
+
+function AppRulesEditor({ rules, onChange }: AppRulesEditorProps) {
+  const [knownApps, setKnownApps] = useState<string[]>([])
+  // Names are edited locally and saved on blur, so a half-typed name is never matched
+  const [nameDrafts, setNameDrafts] = useState<Record<number, string>>({})
+
+  useEffect(() => {
+    window.electronAPI.getClipboardHistory().then(history => {
+      setKnownApps(Array.from(new Set(history.map(item => item.sourceApp).filter((app): app is string => !!app))).sort())
+    }).catch(error => console.error('Failed to load source apps:', error))
+  }, [])
+
+  const updateRule = (index: number, patch: Partial<AppRule>) => {
+    onChange(rules.map((rule, i) => {
+      if (i !== index) return rule
+      const updated = { ...rule, ...patch }
+      if (updated.action === 'expire') {
+        updated.expireMinutes = updated.expireMinutes ?? 60
+      } else {
+        delete updated.expireMinutes
+      }
+      return updated
+    }))
+  }
+
+  const commitName = (index: number) => {
+    const draft = nameDrafts[index]
+    if (draft === undefined) return
+    setNameDrafts(current => {
+      const next = { ...current }
+      delete next[index]
+      return next
+    })
+    if (draft.trim()) {
+      updateRule(index, { app: draft.trim() })
+    }
+  }
+
+  const handleAdd = () => {
+    const used = new Set(rules.map(rule => rule.app.toLowerCase()))
+    const app = knownApps.find(name => !used.has(name.toLowerCase()))
+    onChange([...rules, { app: app ?? 'New App', action: 'ignore' }])
+  }
+
+  return (
+    <div className="preferences-column">
+      <span>Per-app rules</span>
+      {rules.length === 0 && <span className="preferences-hint">Items from every app are recorded as they are.</span>}
+      {rules.map((rule, index) => (
+        <div key={index} className="app-rule">
+          <input
+            className="preferences-input app-name"
+            list="known-apps"
+            value={nameDrafts[index] ?? rule.app}
+            onChange={(e) => setNameDrafts(current => ({ ...current, [index]: e.target.value }))}
+            onBlur={() => commitName(index)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitName(index)
+            }}
+          />
+          <select
+            className="preferences-input select"
+            value={rule.action}
+            onChange={(e) => updateRule(index, { action: e.target.value as AppRule['action'] })}
+          >
+            {Object.entries(ACTION_LABELS).map(([action, label]) => (
+              <option key={action} value={action}>{label}</option>
+            ))}
+          </select>
+          {rule.action === 'expire' && (
+            <span>
+              <input
+                type="number"
+                className="preferences-input minutes"
+                min={1}
+                value={rule.expireMinutes ?? 60}
+                onChange={(e) => updateRule(index, { expireMinutes: Math.max(1, Number(e.target.value) || 1) })}
+              />
+              <span className="preferences-unit">min</span>
+            </span>
+          )}
+          <button
+            className="collection-action danger"
+            title="Remove rule"
+            onClick={() => onChange(rules.filter((_, i) => i !== index))}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <datalist id="known-apps">
+        {knownApps.map(app => <option key={app} value={app} />)}
+      </datalist>
+      <div className="preferences-actions">
+        <button className="collection-action" onClick={handleAdd}>Add rule</button>
+      </div>
+    </div>
+  )
+}
+
+export default AppRulesEditor
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react'
+import HighlightedText from './HighlightedText'
+
+interface ClipboardItemRowProps {
+  item: ClipboardItem
+  match?: SearchResult
+  selected: boolean
+  // Picked for a bulk action such as the paste stack
+  checked: boolean
+  shortcutNumber?: number
+  collections: Collection[]
+  onHover: () => void
+  onToggleChecked: () => void
+  onCopy: (item: ClipboardItem) => void
+  onDelete: (id: string) => void
+  onTogglePin: (item: ClipboardItem) => void
+  onMove: (id: string, collectionId: string | null) => void
+  onContextMenu: (position: { x: number, y: number }) => void
+  onEdit: () => void
+}
+
+const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp)
+  const now = new Date()
+  const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60))
+
+  if (diffInMinutes < 1) return 'Just now'
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`
+  if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`
+  return date.toLocaleDateString()
+}
+
+const domainOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return null
+  }
+}
+
+function ClipboardItemRow({ item, match, selected, checked, shortcutNumber, collections, onHover, onToggleChecked, onCopy, onDelete, onTogglePin, onMove, onContextMenu, onEdit }: ClipboardItemRowProps) {
+  const [fullContent, setFullContent] = useState<string | null>(null)
+  const rowRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (selected) {
+      rowRef.current?.scrollIntoView({ block: 'nearest' })
+    }
+  }, [selected])
+
+  // Externalized payloads are only fetched from the main process when the user expands the item
+  const handleToggleExpand = async () => {
+    if (fullContent !== null) {
+      setFullContent(null)
+      return
+    }
+    try {
+      setFullContent(await window.electronAPI.getItemContent(item.id))
+    } catch (error) {
+      console.error('Failed to load item content:', error)
+    }
+  }
+
+  return (
+    <div
+      ref={rowRef}
+      className={`clipboard-item ${item.pinned ? 'pinned' : ''} ${selected ? 'selected' : ''} ${checked ? 'checked' : ''}`}
+      onClick={(e) => {
+        if (e.metaKey || e.ctrlKey) onToggleChecked()
+        else onCopy(item)
+      }}
+      onContextMenu={(e) => {
+        e.preventDefault()
+        onContextMenu({ x: e.clientX, y: e.clientY })
+      }}
+      onMouseMove={() => {
+        if (!selected) onHover()
+      }}
+    >
+      <div className="item-content">
+        <div className={`item-preview ${fullContent !== null ? 'expanded' : ''} ${item.sensitive && fullContent === null ? 'sensitive' : ''}`}>
+          {item.type === 'image' ? (
+            <div className="image-preview">
+              <img
+                src={fullContent ?? item.thumbnail ?? item.content}
+                alt="Clipboard image"
+                className="clipboard-image"
+                onError={() => console.log('Image failed to load')}
+              />
+              {/* Search finds images by the text read from them, which the snippet shows */}
+              {match && fullContent === null && (
+                <div className="image-match">
+                  <HighlightedText text={match.snippet} ranges={match.highlights} />
+                </div>
+              )}
+            </div>
+          ) : (
+            fullContent ?? (match
+              ? <HighlightedText text={match.snippet} ranges={match.highlights} />
+              : (item.preview || item.content))
+          )}
+        </div>
+        <div className="item-meta">
+          <span className={`item-type ${item.template ? 'snippet' : ''}`}>{item.template ? 'snippet' : item.type}</span>
+          {item.sourceApp && <span className="item-app">{item.sourceApp}</span>}
+          {item.metadata?.language && <span className="item-language">{item.metadata.language}</span>}
+          {item.metadata?.colors && (
+            <span className="item-colors" title={item.metadata.colors.join(', ')}>
+              {item.metadata.colors.slice(0, 4).map(color => (
+                <span key={color} className="color-swatch" style={{ background: color }} />
+              ))}
+            </span>
+          )}
+          {item.type === 'url' && !item.sensitive && domainOf(item.content) && (
+            <span className="item-domain">{domainOf(item.content)}</span>
+          )}
+          {item.sensitive && (
+            <span className="item-sensitive" title={item.expiresAt ? `Deleted at ${new Date(item.expiresAt).toLocaleTimeString()}` : undefined}>
+              {item.sensitive}
+            </span>
+          )}
+          {shortcutNumber !== undefined && (
+            <span className="item-shortcut">⌘{shortcutNumber}</span>
+          )}
+          {item.pinned && collections.length > 0 && (
+            <select
+              className="collection-select"
+              value={item.collectionId ?? ''}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => onMove(item.id, e.target.value || null)}
+            >
+              <option value="">Unsorted</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+          )}
+          <span className="item-timestamp">
+            {formatTimestamp(item.timestamp)}
+          </span>
+        </div>
+      </div>
+      <div className="item-actions">
+        {(item.blobId || item.sensitive || item.type === 'files') && (
+          <button
+            className="expand-button"
+            title={fullContent !== null ? 'Hide' : item.sensitive ? 'Reveal' : 'Show full content'}
+            onClick={(e) => {
+              e.stopPropagation()
+              handleToggleExpand()
+            }}
+          >
+            {fullContent !== null ? '−' : '+'}
+          </button>
+        )}
+        {item.template && item.pinned && (
+          <button
+            className="expand-button"
+            title="Edit snippet"
+            onClick={(e) => {
+              e.stopPropagation()
+              onEdit()
+            }}
+          >
+            ✎
+          </button>
+        )}
+        <button
+          className={`pin-button ${item.pinned ? 'active' : ''}`}
+          title={item.pinned ? 'Unpin' : 'Pin'}
+          onClick={(e) => {
+            e.stopPropagation()
+            onTogglePin(item)
+          }}
+        >
+          📌
+        </button>
+        <button
+          className="delete-button"
+          title="Delete"
+          onClick={(e) => {
+            e.stopPropagation()
+            onDelete(item.id)
+          }}
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ClipboardItemRow
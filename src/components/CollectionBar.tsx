@@ -0,0 +1,104 @@
+import { useState } from 'react'
+
+export const ALL_PINNED = 'all'
+
+interface CollectionBarProps {
+  collections: Collection[]
+  activeCollection: string
+  onSelect: (collectionId: string) => void
+  onCreate: (name: string) => Promise<void>
+  onRename: (collectionId: string, name: string) => Promise<void>
+  onDelete: (collectionId: string) => Promise<void>
+}
+
+type Draft = { mode: 'create' } | { mode: 'rename', collectionId: string }
+
+function CollectionBar({ collections, activeCollection, onSelect, onCreate, onRename, onDelete }: CollectionBarProps) {
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [draftName, setDraftName] = useState('')
+
+  const startDraft = (next: Draft, name = '') => {
+    setDraft(next)
+    setDraftName(name)
+  }
+
+  const submitDraft = async () => {
+    if (!draft) return
+    if (draft.mode === 'create') {
+      await onCreate(draftName)
+    } else {
+      await onRename(draft.collectionId, draftName)
+    }
+    setDraft(null)
+  }
+
+  const activeName = collections.find(c => c.id === activeCollection)?.name
+
+  return (
+    <div className="collection-bar">
+      <div className="collection-tabs">
+        <button
+          className={`collection-tab ${activeCollection === ALL_PINNED ? 'active' : ''}`}
+          onClick={() => onSelect(ALL_PINNED)}
+        >
+          All pinned
+        </button>
+        {collections.map(collection => (
+          <button
+            key={collection.id}
+            className={`collection-tab ${activeCollection === collection.id ? 'active' : ''}`}
+            onClick={() => onSelect(collection.id)}
+          >
+            {collection.name}
+          </button>
+        ))}
+        <button className="collection-tab add" title="New collection" onClick={() => startDraft({ mode: 'create' })}>
+          +
+        </button>
+      </div>
+
+      {draft ? (
+        <form
+          className="collection-form"
+          onSubmit={(e) => {
+            e.preventDefault()
+            submitDraft().catch(error => console.error('Failed to save collection:', error))
+          }}
+        >
+          <input
+            className="collection-input"
+            value={draftName}
+            placeholder="Collection name"
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') {
+                e.stopPropagation()
+                setDraft(null)
+              }
+            }}
+            autoFocus
+          />
+          <button type="submit" className="collection-action">Save</button>
+          <button type="button" className="collection-action" onClick={() => setDraft(null)}>Cancel</button>
+        </form>
+      ) : activeName !== undefined && (
+        <div className="collection-form">
+          <button
+            className="collection-action"
+            onClick={() => startDraft({ mode: 'rename', collectionId: activeCollection }, activeName)}
+          >
+            Rename
+          </button>
+          <button
+            className="collection-action danger"
+            onClick={() => onDelete(activeCollection).catch(error => console.error('Failed to delete collection:', error))}
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CollectionBar
@@ -0,0 +1,115 @@
+import { useState } from 'react'
+import { describeError } from '../utils/errors'
+
+const TYPE_OPTIONS: { type: ClipboardItem['type'], label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'html', label: 'HTML' },
+  { type: 'rtf', label: 'RTF' },
+  { type: 'url', label: 'Links' },
+  { type: 'files', label: 'Files' },
+  { type: 'image', label: 'Images' }
+]
+
+// Date inputs hold local calendar days; the bounds cover the whole of each day
+const startOfDay = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined
+const endOfDay = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined
+
+function DataSettings() {
+  const [types, setTypes] = useState<ClipboardItem['type'][]>(TYPE_OPTIONS.map(option => option.type))
+  const [pinned, setPinned] = useState<NonNullable<ExportFilter['pinned']>>('all')
+  const [since, setSince] = useState('')
+  const [until, setUntil] = useState('')
+  const [includeSensitive, setIncludeSensitive] = useState(false)
+  const [message, setMessage] = useState<{ success: boolean, message: string } | null>(null)
+
+  const toggleType = (type: ClipboardItem['type'], enabled: boolean) => {
+    setTypes(current => enabled ? [...current, type] : current.filter(t => t !== type))
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const result = await window.electronAPI.exportHistory(format, {
+        types,
+        pinned,
+        since: startOfDay(since),
+        until: endOfDay(until),
+        includeSensitive
+      })
+      if (result) {
+        setMessage({ success: true, message: `Exported ${result.count} item${result.count === 1 ? '' : 's'} to ${result.filePath}` })
+      }
+    } catch (error) {
+      setMessage({ success: false, message: describeError(error) })
+    }
+  }
+
+  const handleImport = async () => {
+    try {
+      // The preview itself is shown by the app, which also receives previews started from the tray
+      await window.electronAPI.previewImport()
+      setMessage(null)
+    } catch (error) {
+      setMessage({ success: false, message: describeError(error) })
+    }
+  }
+
+  return (
+    <div className="preferences-section">
+      <h3 className="preferences-subtitle">Export and import</h3>
+      {message && <div className={`paste-feedback ${message.success ? 'success' : 'error'}`}>{message.message}</div>}
+
+      <div className="preferences-row">
+        <span>Item types</span>
+        <span className="preferences-options">
+          {TYPE_OPTIONS.map(option => (
+            <label key={option.type}>
+              <input
+                type="checkbox"
+                checked={types.includes(option.type)}
+                onChange={(e) => toggleType(option.type, e.target.checked)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </span>
+      </div>
+
+      <label className="preferences-row">
+        <span>Pinned items</span>
+        <select
+          className="preferences-input select"
+          value={pinned}
+          onChange={(e) => setPinned(e.target.value as NonNullable<ExportFilter['pinned']>)}
+        >
+          <option value="all">Include</option>
+          <option value="only">Only pinned</option>
+          <option value="exclude">Leave out</option>
+        </select>
+      </label>
+
+      <div className="preferences-row">
+        <span>Copied between</span>
+        <span className="preferences-options">
+          <input type="date" className="preferences-input date" value={since} onChange={(e) => setSince(e.target.value)} />
+          <input type="date" className="preferences-input date" value={until} onChange={(e) => setUntil(e.target.value)} />
+        </span>
+      </div>
+
+      <label className="preferences-row">
+        <span>Include detected secrets</span>
+        <input type="checkbox" checked={includeSensitive} onChange={(e) => setIncludeSensitive(e.target.checked)} />
+      </label>
+
+      <div className="preferences-actions">
+        <button className="collection-action" disabled={types.length === 0} onClick={() => handleExport('archive')}>
+          Export archive…
+        </button>
+        <button className="collection-action" onClick={() => handleExport('json')}>Text as JSON…</button>
+        <button className="collection-action" onClick={() => handleExport('csv')}>Text as CSV…</button>
+        <button className="collection-action" onClick={handleImport}>Import archive…</button>
+      </div>
+    </div>
+  )
+}
+
+export default DataSettings
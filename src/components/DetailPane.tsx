@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react'
+import { describeError } from '../utils/errors'
+import { formatBytes, plural } from '../utils/format'
+
+const LANGUAGE_NAMES: Record<CodeLanguage, string> = {
+  javascript: 'JavaScript',
+  python: 'Python',
+  json: 'JSON',
+  shell: 'Shell',
+  sql: 'SQL',
+  css: 'CSS',
+  html: 'HTML'
+}
+
+const ZOOM_STEPS = [0.25, 0.5, 1, 2, 4]
+
+// The frame has no scripts and may only show inline images, on top of the markup being sanitized
+const frameDocument = (html: string) => `<!doctype html>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; style-src 'unsafe-inline'">
+<style>body { margin: 8px; font: 13px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #eee; }
+a { color: #4da3ff; } img { max-width: 100%; }</style>
+${html}`
+
+interface DetailPaneProps {
+  item: ClipboardItem
+  onClose: () => void
+}
+
+function DetailPane({ item, onClose }: DetailPaneProps) {
+  const [detail, setDetail] = useState<ItemDetail | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [revealed, setRevealed] = useState(false)
+  // null fits the image to the pane
+  const [zoom, setZoom] = useState<number | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setRevealed(false)
+    setZoom(null)
+    // Waits for the selection to settle while the user is arrowing through the list
+    const timer = setTimeout(async () => {
+      try {
+        const loaded = await window.electronAPI.getItemDetail(item.id)
+        if (!cancelled) {
+          setDetail(loaded)
+          setError(null)
+        }
+      } catch (error) {
+        if (!cancelled) setError(describeError(error))
+      }
+    }, 60)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [item.id, item.contentHash])
+
+  const current = detail?.id === item.id ? detail : null
+  const hidden = !!item.sensitive && !revealed
+  const copyRecognizedText = () => {
+    window.electronAPI.copyRecognizedText(item.id).catch(error => setError(describeError(error)))
+  }
+
+  const zoomBy = (direction: 1 | -1) => {
+    const index = ZOOM_STEPS.indexOf(zoom ?? 1)
+    setZoom(ZOOM_STEPS[Math.max(0, Math.min(ZOOM_STEPS.length - 1, index + direction))])
+  }
+
+  const summary = current?.image
+    ? [current.image.width && current.image.height ? `${current.image.width} × ${current.image.height}` : null, formatBytes(current.image.bytes)]
+    : current?.stats
+      ? [plural(current.stats.chars, 'character'), plural(current.stats.words, 'word'), plural(current.stats.lines, 'line')]
+      : []
+
+  return (
+    <div className="detail-pane">
+      <div className="detail-header">
+        <span className="item-type">{item.type}</span>
+        {current?.language && <span className="item-language">{LANGUAGE_NAMES[current.language]}</span>}
+        <span className="detail-summary">{summary.filter(Boolean).join(' · ')}</span>
+        {current?.image && (
+          <span className="detail-zoom">
+            <button className="collection-action" onClick={() => zoomBy(-1)} title="Zoom out">−</button>
+            <button className="collection-action" onClick={() => setZoom(zoom === null ? 1 : null)}>
+              {zoom === null ? 'Fit' : `${zoom * 100}%`}
+            </button>
+            <button className="collection-action" onClick={() => zoomBy(1)} title="Zoom in">+</button>
+          </span>
+        )}
+        {item.sensitive && !revealed && (
+          <button className="collection-action" onClick={() => setRevealed(true)}>Reveal</button>
+        )}
+        <button className="collection-action" onClick={onClose} title="Hide details">✕</button>
+      </div>
+
+      {error && <div className="paste-feedback error">{error}</div>}
+
+      {current?.colors && !hidden && (
+        <div className="detail-colors">
+          {current.colors.map(color => (
+            <span key={color} className="detail-color">
+              <span className="color-swatch" style={{ background: color }} />
+              {color}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {current?.image && (
+        <div className="detail-image">
+          <img
+            src={current.image.dataUrl}
+            alt="Clipboard image"
+            style={zoom === null || !current.image.width ? { maxWidth: '100%' } : { width: current.image.width * zoom }}
+          />
+        </div>
+      )}
+
+      {current?.image && item.recognizedText && (
+        <div className="detail-recognized">
+          <div className="detail-header">
+            <span className="detail-summary">Text in the image</span>
+            <button className="collection-action" onClick={copyRecognizedText}>Copy text</button>
+          </div>
+          <div className="detail-recognized-text">{item.recognizedText}</div>
+        </div>
+      )}
+
+      {current?.lines && (
+        <div className={`detail-body ${current.sanitizedHtml !== undefined ? 'split' : ''}`}>
+          {current.sanitizedHtml !== undefined && !hidden && (
+            <iframe className="detail-frame" title="Rendered HTML" sandbox="" srcDoc={frameDocument(current.sanitizedHtml)} />
+          )}
+          <div className={`detail-code ${hidden ? 'sensitive' : ''}`}>
+            {current.lines.map((tokens, index) => (
+              <div key={index} className="detail-line">
+                <span className="line-number">{index + 1}</span>
+                <span className="line-text">
+                  {tokens.map((token, tokenIndex) => (
+                    <span key={tokenIndex} className={token.kind ? `token-${token.kind}` : undefined}>{token.text}</span>
+                  ))}
+                </span>
+              </div>
+            ))}
+            {current.truncated && <div className="detail-line truncated">Only the first {current.lines.length} lines are shown</div>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DetailPane
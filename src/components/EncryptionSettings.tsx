@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react'
+import { describeError } from '../utils/errors'
+
+function EncryptionSettings() {
+  const [status, setStatus] = useState<EncryptionStatus | null>(null)
+  const [keySource, setKeySource] = useState<'safeStorage' | 'passphrase'>('passphrase')
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    window.electronAPI.getEncryptionStatus().then(status => {
+      setStatus(status)
+      if (status.safeStorageAvailable) setKeySource('safeStorage')
+    }).catch(error => setError(describeError(error)))
+    return window.electronAPI.onEncryptionStatusUpdated(setStatus)
+  }, [])
+
+  const run = async (action: () => Promise<EncryptionStatus>) => {
+    setIsWorking(true)
+    try {
+      setStatus(await action())
+      setError(null)
+      setPassphrase('')
+      setConfirmation('')
+    } catch (error) {
+      setError(describeError(error))
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleEnable = () => {
+    if (keySource === 'passphrase') {
+      if (passphrase.length < 8) {
+        setError('Use a passphrase of at least 8 characters')
+        return
+      }
+      if (passphrase !== confirmation) {
+        setError('The passphrases do not match')
+        return
+      }
+    }
+    run(() => window.electronAPI.enableEncryption(keySource, keySource === 'passphrase' ? passphrase : undefined))
+  }
+
+  if (!status) {
+    return null
+  }
+
+  const usesPassphrase = status.encrypted ? status.keySource === 'passphrase' : keySource === 'passphrase'
+
+  return (
+    <div className="preferences-section">
+      <h3 className="preferences-subtitle">Encryption</h3>
+      {error && <div className="paste-feedback error">{error}</div>}
+
+      <div className="preferences-row">
+        <span>History on disk</span>
+        <span className="preferences-value">
+          {!status.encrypted
+            ? 'Not encrypted'
+            : status.keySource === 'passphrase' ? 'Encrypted with a passphrase' : 'Encrypted with the system keychain'}
+        </span>
+      </div>
+
+      {!status.encrypted && (
+        <label className="preferences-row">
+          <span>Protect the key with</span>
+          <select
+            className="preferences-input select"
+            value={keySource}
+            onChange={(e) => setKeySource(e.target.value as 'safeStorage' | 'passphrase')}
+          >
+            <option value="safeStorage" disabled={!status.safeStorageAvailable}>
+              System keychain{status.safeStorageAvailable ? '' : ' (unavailable)'}
+            </option>
+            <option value="passphrase">Passphrase</option>
+          </select>
+        </label>
+      )}
+
+      {usesPassphrase && (
+        <label className="preferences-row">
+          <span>{status.encrypted ? 'Current passphrase' : 'Passphrase'}</span>
+          <input
+            type="password"
+            className="preferences-input passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </label>
+      )}
+
+      {usesPassphrase && !status.encrypted && (
+        <label className="preferences-row">
+          <span>Repeat passphrase</span>
+          <input
+            type="password"
+            className="preferences-input passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+        </label>
+      )}
+
+      <div className="preferences-actions">
+        {status.encrypted ? (
+          <>
+            {status.keySource === 'passphrase' && (
+              <button className="collection-action" disabled={isWorking} onClick={() => run(window.electronAPI.lockHistory)}>
+                Lock now
+              </button>
+            )}
+            <button
+              className="collection-action danger"
+              disabled={isWorking || (usesPassphrase && !passphrase)}
+              onClick={() => run(() => window.electronAPI.disableEncryption(usesPassphrase ? passphrase : undefined))}
+            >
+              Turn off encryption
+            </button>
+          </>
+        ) : (
+          <button className="collection-action" disabled={isWorking} onClick={handleEnable}>
+            Encrypt history
+          </button>
+        )}
+      </div>
+
+      {usesPassphrase && !status.encrypted && (
+        <p className="preferences-hint">
+          There is no way to recover the history if the passphrase is forgotten.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default EncryptionSettings
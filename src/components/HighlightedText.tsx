@@ -0,0 +1,21 @@
+interface HighlightedTextProps {
+  text: string
+  ranges: [number, number][]
+}
+
+function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  const parts = []
+  let cursor = 0
+  for (const [start, end] of ranges) {
+    if (start > cursor) {
+      parts.push(text.slice(cursor, start))
+    }
+    parts.push(<mark key={start} className="search-highlight">{text.slice(start, end)}</mark>)
+    cursor = end
+  }
+  parts.push(text.slice(cursor))
+
+  return <>{parts}</>
+}
+
+export default HighlightedText
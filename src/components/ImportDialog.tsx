@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import { describeError } from '../utils/errors'
+import { plural } from '../utils/format'
+
+interface ImportDialogProps {
+  preview: ImportPreview
+  onClose: (result?: ImportResult) => void
+}
+
+const TYPE_NOUNS: Record<ClipboardItem['type'], string> = {
+  text: 'text item',
+  html: 'rich text item',
+  rtf: 'RTF document',
+  url: 'link',
+  files: 'file list',
+  image: 'image'
+}
+
+function ImportDialog({ preview, onClose }: ImportDialogProps) {
+  const [error, setError] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const addedTypes = (Object.keys(TYPE_NOUNS) as ClipboardItem['type'][]).filter(type => preview.added[type] > 0)
+  const addedCount = addedTypes.reduce((sum, type) => sum + preview.added[type], 0)
+
+  const handleImport = async () => {
+    setIsImporting(true)
+    try {
+      onClose(await window.electronAPI.applyImport())
+    } catch (error) {
+      setError(describeError(error))
+      setIsImporting(false)
+    }
+  }
+
+  const handleCancel = () => {
+    window.electronAPI.cancelImport()
+    onClose()
+  }
+
+  return (
+    <div className="import-dialog">
+      <h2>Import {preview.fileName}</h2>
+      <p className="import-meta">
+        Exported {new Date(preview.exportedAt).toLocaleString()} • {plural(preview.total, 'item')}
+      </p>
+
+      <ul className="import-summary">
+        {addedTypes.map(type => <li key={type}>{plural(preview.added[type], TYPE_NOUNS[type])}</li>)}
+        {preview.pinned > 0 && <li>{preview.pinned} of them pinned</li>}
+        {preview.newCollections.length > 0 && <li>New collections: {preview.newCollections.join(', ')}</li>}
+        {preview.duplicates > 0 && <li className="import-muted">{plural(preview.duplicates, 'item')} already in your history will be skipped</li>}
+      </ul>
+
+      {preview.samples.length > 0 && (
+        <div className="import-samples">
+          {preview.samples.map((sample, index) => (
+            <div key={index} className="import-sample">
+              <span className="item-type">{sample.type}</span>
+              <span className="import-sample-text">{sample.preview}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="paste-feedback error">{error}</div>}
+
+      <div className="preferences-actions">
+        <button className="collection-action" disabled={isImporting || addedCount === 0} onClick={handleImport}>
+          {addedCount === 0 ? 'Nothing new to import' : `Import ${plural(addedCount, 'item')}`}
+        </button>
+        <button className="collection-action" onClick={handleCancel}>Cancel</button>
+      </div>
+    </div>
+  )
+}
+
+export default ImportDialog
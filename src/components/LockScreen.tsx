@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import { describeError } from '../utils/errors'
+
+interface LockScreenProps {
+  status: EncryptionStatus
+}
+
+function LockScreen({ status }: LockScreenProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [confirmingReset, setConfirmingReset] = useState(false)
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+    setIsWorking(true)
+    try {
+      await window.electronAPI.unlockHistory(passphrase)
+      setError(null)
+    } catch (error) {
+      setError(describeError(error))
+      setPassphrase('')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleReset = async () => {
+    try {
+      await window.electronAPI.resetEncryptedHistory()
+    } catch (error) {
+      setError(describeError(error))
+    }
+  }
+
+  if (status.error) {
+    return (
+      <div className="lock-screen">
+        <div className="lock-icon">⚠</div>
+        <h2>The clipboard history can't be opened</h2>
+        <p className="lock-message">{status.error.message}</p>
+        {error && <div className="paste-feedback error">{error}</div>}
+        {confirmingReset ? (
+          <div className="lock-actions">
+            <p className="lock-hint">
+              The unreadable file is kept next to the new history, so it can still be recovered by hand.
+            </p>
+            <button className="collection-action danger" onClick={handleReset}>Start a new history</button>
+            <button className="collection-action" onClick={() => setConfirmingReset(false)}>Cancel</button>
+          </div>
+        ) : (
+          <div className="lock-actions">
+            <button className="collection-action danger" onClick={() => setConfirmingReset(true)}>
+              Reset encrypted history…
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <form className="lock-screen" onSubmit={handleUnlock}>
+      <div className="lock-icon">🔒</div>
+      <h2>Clipboard history is locked</h2>
+      <p className="lock-message">Enter your passphrase to unlock it. New copies are not recorded while locked.</p>
+      <input
+        type="password"
+        className="preferences-input lock-input"
+        placeholder="Passphrase"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        autoFocus
+      />
+      {error && <div className="paste-feedback error">{error}</div>}
+      <button type="submit" className="collection-action" disabled={isWorking || !passphrase}>
+        {isWorking ? 'Unlocking…' : 'Unlock'}
+      </button>
+    </form>
+  )
+}
+
+export default LockScreen
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+
+interface MergeMenuProps {
+  count: number
+  onMerge: (options: MergeOptions) => void
+  onClose: () => void
+}
+
+const SEPARATOR_LABELS: Record<MergeOptions['separator'], string> = {
+  newline: 'New line',
+  comma: 'Comma',
+  space: 'Space',
+  custom: 'Custom'
+}
+
+const FORMAT_LABELS: Record<MergeOptions['format'], string> = {
+  plain: 'Joined with the separator',
+  markdown: 'Markdown list',
+  json: 'JSON array'
+}
+
+function MergeMenu({ count, onMerge, onClose }: MergeMenuProps) {
+  const [options, setOptions] = useState<MergeOptions>({ separator: 'newline', customSeparator: '', format: 'plain', saveAsNew: false })
+
+  const update = (patch: Partial<MergeOptions>) => setOptions(current => ({ ...current, ...patch }))
+
+  return (
+    <div className="transform-backdrop" onClick={onClose}>
+      <form
+        className="transform-menu palette merge-menu"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          // The menu owns the keyboard while open
+          e.stopPropagation()
+          if (e.key === 'Escape') {
+            e.preventDefault()
+            onClose()
+          }
+        }}
+        onSubmit={(e) => {
+          e.preventDefault()
+          onMerge(options)
+        }}
+      >
+        <div className="template-prompt-title">Merge {count} items</div>
+
+        <label className="merge-field">
+          <span>Format</span>
+          <select className="preferences-input select" value={options.format} onChange={(e) => update({ format: e.target.value as MergeOptions['format'] })}>
+            {Object.entries(FORMAT_LABELS).map(([format, label]) => <option key={format} value={format}>{label}</option>)}
+          </select>
+        </label>
+
+        {options.format === 'plain' && (
+          <label className="merge-field">
+            <span>Separator</span>
+            <select className="preferences-input select" value={options.separator} onChange={(e) => update({ separator: e.target.value as MergeOptions['separator'] })}>
+              {Object.entries(SEPARATOR_LABELS).map(([separator, label]) => <option key={separator} value={separator}>{label}</option>)}
+            </select>
+            {options.separator === 'custom' && (
+              <input
+                className="preferences-input"
+                placeholder="e.g. ; or \n---\n"
+                value={options.customSeparator}
+                onChange={(e) => update({ customSeparator: e.target.value })}
+                autoFocus
+              />
+            )}
+          </label>
+        )}
+
+        <label className="transform-save">
+          <input type="checkbox" checked={options.saveAsNew} onChange={(e) => update({ saveAsNew: e.target.checked })} />
+          Also save the result to history
+        </label>
+        <div className="transform-save">
+          <button type="submit" className="collection-action" autoFocus>Merge and paste <kbd>Enter</kbd></button>
+          <button type="button" className="collection-action" onClick={onClose}>Cancel</button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default MergeMenu
@@ -0,0 +1,38 @@
+interface PasteStackBarProps {
+  state: PasteStackState
+  shortcut: string
+  onOrderChange: (order: PasteStackState['order']) => void
+  onStop: () => void
+}
+
+function PasteStackBar({ state, shortcut, onOrderChange, onStop }: PasteStackBarProps) {
+  const next = state.items[0]
+
+  return (
+    <div className="selection-bar paste-stack-bar">
+      <div className="paste-stack-status">
+        <span className="selection-count">
+          Paste stack: {state.items.length === 0 ? 'empty, new copies are added' : `${state.items.length} left`}
+        </span>
+        {next && (
+          <span className="paste-stack-next">
+            Next <kbd>{shortcut}</kbd> {next.type === 'image' ? 'Image' : next.preview || next.content}
+          </span>
+        )}
+      </div>
+      <div className="selection-actions">
+        <select
+          className="preferences-input select"
+          value={state.order}
+          onChange={(e) => onOrderChange(e.target.value as PasteStackState['order'])}
+        >
+          <option value="fifo">First in, first out</option>
+          <option value="lifo">Last in, first out</option>
+        </select>
+        <button className="collection-action danger" onClick={onStop}>Stop</button>
+      </div>
+    </div>
+  )
+}
+
+export default PasteStackBar
@@ -0,0 +1,231 @@
+import { useEffect, useState } from 'react'
+import { describeError } from '../utils/errors'
+import ApiSettings from './ApiSettings'
+import AppRulesEditor from './AppRulesEditor'
+import DataSettings from './DataSettings'
+import EncryptionSettings from './EncryptionSettings'
+import ScriptingSettings from './ScriptingSettings'
+import SyncSettings from './SyncSettings'
+
+interface PreferencesProps {
+  onClose: () => void
+}
+
+type NumberKey = { [K in keyof Settings]: Settings[K] extends number ? K : never }[keyof Settings]
+type BooleanKey = { [K in keyof Settings]: Settings[K] extends boolean ? K : never }[keyof Settings]
+
+const NUMBER_FIELDS: { key: NumberKey, label: string, unit?: string, min: number, max: number }[] = [
+  { key: 'maxHistoryItems', label: 'History size', unit: 'items', min: 10, max: 5000 },
+  { key: 'maxHistoryMegabytes', label: 'History storage limit (0 = none)', unit: 'MB', min: 0, max: 102400 },
+  { key: 'maxAgeDays', label: 'Delete items unused for (0 = never)', unit: 'days', min: 0, max: 3650 },
+  { key: 'pollInterval', label: 'Clipboard check interval', unit: 'ms', min: 100, max: 5000 },
+  { key: 'windowWidth', label: 'Window width', unit: 'px', min: 320, max: 3840 },
+  { key: 'windowHeight', label: 'Window height', unit: 'px', min: 320, max: 2160 },
+  { key: 'pasteDelay', label: 'Delay before pasting', unit: 'ms', min: 0, max: 5000 },
+  { key: 'activateDelay', label: 'Delay after switching apps', unit: 'ms', min: 0, max: 5000 },
+  { key: 'sensitiveTtlMinutes', label: 'Delete detected secrets after (0 = never)', unit: 'min', min: 0, max: 43200 }
+]
+
+const BOOLEAN_FIELDS: { key: BooleanKey, label: string, platform?: string }[] = [
+  { key: 'launchAtLogin', label: 'Start at login' },
+  { key: 'autoPaste', label: 'Paste automatically after selecting an item' },
+  { key: 'hideOnBlur', label: 'Hide the window when it loses focus' },
+  { key: 'capturePrimarySelection', label: 'Also record selected text (primary selection)', platform: 'linux' },
+  { key: 'sensitiveDetection', label: 'Detect passwords, keys and card numbers' },
+  { key: 'ignoreConcealed', label: 'Ignore items that password managers mark as concealed' },
+  { key: 'recognizeImageText', label: 'Read the text in copied images, so they can be searched' }
+]
+
+const SHORTCUT_FIELDS: { key: 'globalShortcut' | 'pasteStackShortcut', label: string }[] = [
+  { key: 'globalShortcut', label: 'Show clipboard shortcut' },
+  { key: 'pasteStackShortcut', label: 'Paste next from the paste stack' }
+]
+
+const acceleratorFromEvent = (e: React.KeyboardEvent): string | null => {
+  const key = e.key.length === 1 ? e.key.toUpperCase() : e.key
+  if (['Meta', 'Control', 'Alt', 'Shift'].includes(key)) return null
+
+  const modifiers = []
+  if (e.metaKey || e.ctrlKey) modifiers.push('CommandOrControl')
+  if (e.altKey) modifiers.push('Alt')
+  if (e.shiftKey) modifiers.push('Shift')
+  if (modifiers.length === 0) return null
+
+  const named: Record<string, string> = {
+    ' ': 'Space', ArrowUp: 'Up', ArrowDown: 'Down', ArrowLeft: 'Left', ArrowRight: 'Right', '+': 'Plus'
+  }
+  return [...modifiers, named[key] ?? key].join('+')
+}
+
+function Preferences({ onClose }: PreferencesProps) {
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [drafts, setDrafts] = useState<Partial<Record<NumberKey, string>>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [recordingShortcut, setRecordingShortcut] = useState<typeof SHORTCUT_FIELDS[number]['key'] | null>(null)
+  const [patternsDraft, setPatternsDraft] = useState<string | null>(null)
+  const [pasteCapability, setPasteCapability] = useState<PasteCapability | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getSettings().then(setSettings).catch(error => setError(describeError(error)))
+    window.electronAPI.getPasteCapability().then(setPasteCapability).catch(() => setPasteCapability(null))
+    return window.electronAPI.onSettingsUpdated(setSettings)
+  }, [])
+
+  const save = async (patch: Partial<Settings>) => {
+    try {
+      setSettings(await window.electronAPI.updateSettings(patch))
+      setError(null)
+    } catch (error) {
+      setError(describeError(error))
+    }
+  }
+
+  const commitNumber = (key: NumberKey) => {
+    const draft = drafts[key]
+    if (draft === undefined) return
+    setDrafts(current => ({ ...current, [key]: undefined }))
+    save({ [key]: Number(draft) })
+  }
+
+  if (!settings) {
+    return <div className="preferences">{error ?? 'Loading...'}</div>
+  }
+
+  return (
+    <div className="preferences">
+      <div className="preferences-header">
+        <h2>Preferences</h2>
+        <button className="collection-action" onClick={onClose}>Done</button>
+      </div>
+
+      {error && <div className="paste-feedback error">{error}</div>}
+
+      <div className="preferences-section">
+        {SHORTCUT_FIELDS.map(field => (
+          <label key={field.key} className="preferences-row">
+            <span>{field.label}</span>
+            <input
+              className="preferences-input shortcut"
+              readOnly
+              value={recordingShortcut === field.key ? 'Press a key combination…' : settings[field.key]}
+              onFocus={() => setRecordingShortcut(field.key)}
+              onBlur={() => setRecordingShortcut(null)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape' || e.key === 'Tab') return
+                e.preventDefault()
+                e.stopPropagation()
+                const accelerator = acceleratorFromEvent(e)
+                if (accelerator) {
+                  setRecordingShortcut(null)
+                  e.currentTarget.blur()
+                  save({ [field.key]: accelerator })
+                }
+              }}
+            />
+          </label>
+        ))}
+
+        <label className="preferences-row">
+          <span>Paste stack order</span>
+          <select
+            className="preferences-input select"
+            value={settings.pasteStackOrder}
+            onChange={(e) => save({ pasteStackOrder: e.target.value as Settings['pasteStackOrder'] })}
+          >
+            <option value="fifo">First in, first out</option>
+            <option value="lifo">Last in, first out</option>
+          </select>
+        </label>
+
+        <label className="preferences-row">
+          <span>Open the window</span>
+          <select
+            className="preferences-input select"
+            value={settings.windowPlacement}
+            onChange={(e) => save({ windowPlacement: e.target.value as Settings['windowPlacement'] })}
+          >
+            <option value="cursor">Next to the mouse pointer</option>
+            <option value="center">Centered on the active screen</option>
+          </select>
+        </label>
+
+        {BOOLEAN_FIELDS.filter(field => !field.platform || field.platform === window.electronAPI.platform).map(field => (
+          <label key={field.key} className="preferences-row">
+            <span>{field.label}</span>
+            <input
+              type="checkbox"
+              checked={settings[field.key]}
+              onChange={(e) => save({ [field.key]: e.target.checked })}
+            />
+          </label>
+        ))}
+
+        {settings.autoPaste && pasteCapability && !pasteCapability.available && (
+          <p className="preferences-hint">Automatic pasting is unavailable: {pasteCapability.message}</p>
+        )}
+
+        {NUMBER_FIELDS.map(field => (
+          <label key={field.key} className="preferences-row">
+            <span>{field.label}</span>
+            <span>
+              <input
+                type="number"
+                className="preferences-input"
+                min={field.min}
+                max={field.max}
+                value={drafts[field.key] ?? settings[field.key]}
+                onChange={(e) => setDrafts(current => ({ ...current, [field.key]: e.target.value }))}
+                onBlur={() => commitNumber(field.key)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitNumber(field.key)
+                }}
+              />
+              {field.unit && <span className="preferences-unit">{field.unit}</span>}
+            </span>
+          </label>
+        ))}
+
+        <label className="preferences-row">
+          <span>When a secret is detected</span>
+          <select
+            className="preferences-input select"
+            value={settings.sensitiveAction}
+            onChange={(e) => save({ sensitiveAction: e.target.value as Settings['sensitiveAction'] })}
+          >
+            <option value="mask">Keep it masked</option>
+            <option value="skip">Don't record it</option>
+          </select>
+        </label>
+
+        <label className="preferences-column">
+          <span>Custom sensitive patterns (one regular expression per line)</span>
+          <textarea
+            className="preferences-textarea"
+            rows={4}
+            value={patternsDraft ?? settings.sensitivePatterns.join('\n')}
+            onChange={(e) => setPatternsDraft(e.target.value)}
+            onBlur={() => {
+              if (patternsDraft === null) return
+              setPatternsDraft(null)
+              save({ sensitivePatterns: patternsDraft.split('\n').map(line => line.trim()).filter(Boolean) })
+            }}
+          />
+        </label>
+
+        <AppRulesEditor rules={settings.appRules} onChange={(appRules) => save({ appRules })} />
+      </div>
+
+      <EncryptionSettings />
+
+      <ScriptingSettings access={settings.scriptingAccess} onChange={(scriptingAccess) => save({ scriptingAccess })} />
+
+      <ApiSettings settings={settings} onChange={save} />
+
+      <SyncSettings exclude={settings.syncExclude} onChange={(syncExclude) => save({ syncExclude })} />
+
+      <DataSettings />
+    </div>
+  )
+}
+
+export default Preferences
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react'
+
+interface ScriptingSettingsProps {
+  access: Settings['scriptingAccess']
+  onChange: (access: Settings['scriptingAccess']) => void
+}
+
+function ScriptingSettings({ access, onChange }: ScriptingSettingsProps) {
+  const [status, setStatus] = useState<ScriptingStatus | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getScriptingStatus().then(setStatus).catch(() => setStatus(null))
+    return window.electronAPI.onScriptingStatus(setStatus)
+  }, [])
+
+  return (
+    <div className="preferences-section">
+      <h3 className="preferences-subtitle">Command line</h3>
+      <label className="preferences-row">
+        <span>Access from the clip tool</span>
+        <select
+          className="preferences-input select"
+          value={access}
+          onChange={(e) => onChange(e.target.value as Settings['scriptingAccess'])}
+        >
+          <option value="off">Off</option>
+          <option value="read">Read the history</option>
+          <option value="full">Read and change the history</option>
+        </select>
+      </label>
+      {status?.error && <p className="preferences-hint">The command line server could not start: {status.error}</p>}
+      {status?.running && <p className="preferences-hint">Listening on {status.socketPath}</p>}
+    </div>
+  )
+}
+
+export default ScriptingSettings
@@ -0,0 +1,28 @@
+interface SelectionBarProps {
+  count: number
+  // Images have no text to merge
+  canMerge: boolean
+  onMerge: () => void
+  onPasteStack: () => void
+  onClear: () => void
+}
+
+// Actions for the items picked with Cmd+click or Shift+↑/↓
+function SelectionBar({ count, canMerge, onMerge, onPasteStack, onClear }: SelectionBarProps) {
+  return (
+    <div className="selection-bar">
+      <span className="selection-count">{count} selected</span>
+      <div className="selection-actions">
+        <button className="collection-action" onClick={onMerge} disabled={!canMerge} title={canMerge ? 'Paste the items as one block' : 'Images cannot be merged'}>
+          Merge…
+        </button>
+        <button className="collection-action" onClick={onPasteStack} title="Paste the items one at a time with the paste stack shortcut">
+          Paste one by one
+        </button>
+        <button className="collection-action" onClick={onClear}>Clear</button>
+      </div>
+    </div>
+  )
+}
+
+export default SelectionBar
@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { describeError } from '../utils/errors'
+
+interface SnippetEditorProps {
+  draft: SnippetDraft
+  collections: Collection[]
+  onClose: (state?: PinnedState) => void
+}
+
+const PLACEHOLDER_HELP: [string, string][] = [
+  ['{{date}}', 'today, as 2026-01-31'],
+  ['{{date:DD.MM.YYYY HH:mm}}', 'date and time in your own format'],
+  ['{{clipboard}}', 'the text of the newest history item'],
+  ['{{input:Name}}', 'asks for a value when pasting'],
+  ['{{cursor}}', 'where the caret ends up after pasting'],
+  ['\\{{', 'literal braces']
+]
+
+function SnippetEditor({ draft, collections, onClose }: SnippetEditorProps) {
+  const [title, setTitle] = useState(draft.title)
+  const [content, setContent] = useState(draft.content)
+  const [collectionId, setCollectionId] = useState(draft.collectionId ?? '')
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      onClose(await window.electronAPI.saveSnippet({ id: draft.id, title, content, collectionId: collectionId || undefined }))
+    } catch (error) {
+      setError(describeError(error))
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form
+      className="snippet-editor"
+      onSubmit={(e) => {
+        e.preventDefault()
+        handleSave()
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+          e.preventDefault()
+          handleSave()
+        }
+      }}
+    >
+      <h2>{draft.id ? 'Edit snippet' : 'New snippet'}</h2>
+
+      <div className="snippet-fields">
+        <input
+          className="preferences-input snippet-title"
+          placeholder="Name"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          autoFocus
+        />
+        {collections.length > 0 && (
+          <select className="preferences-input select" value={collectionId} onChange={(e) => setCollectionId(e.target.value)}>
+            <option value="">Unsorted</option>
+            {collections.map(collection => (
+              <option key={collection.id} value={collection.id}>{collection.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <textarea
+        className="preferences-input snippet-body"
+        placeholder="Hello {{input:Name}}, …"
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value)
+          setError(null)
+        }}
+        spellCheck={false}
+      />
+
+      <dl className="snippet-help">
+        {PLACEHOLDER_HELP.map(([placeholder, description]) => (
+          <div key={placeholder}>
+            <dt><code>{placeholder}</code></dt>
+            <dd>{description}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {error && <div className="paste-feedback error">{error}</div>}
+
+      <div className="preferences-actions">
+        <button type="submit" className="collection-action" disabled={isSaving}>Save <kbd>Cmd+Enter</kbd></button>
+        <button type="button" className="collection-action" onClick={() => onClose()}>Cancel</button>
+      </div>
+    </form>
+  )
+}
+
+export default SnippetEditor
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react'
+import { describeError } from '../utils/errors'
+import { formatBytes } from '../utils/format'
+
+type ItemType = ClipboardItem['type']
+
+const TYPES: { value: ItemType, label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'url', label: 'Links' },
+  { value: 'html', label: 'Formatted text' },
+  { value: 'rtf', label: 'Rich text' },
+  { value: 'files', label: 'Files' },
+  { value: 'image', label: 'Images' }
+]
+
+interface StoragePanelProps {
+  onClose: () => void
+}
+
+function StoragePanel({ onClose }: StoragePanelProps) {
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+  const [settings, setSettings] = useState<Settings | null>(null)
+  const [limitDrafts, setLimitDrafts] = useState<Partial<Record<ItemType, string>>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    Promise.all([window.electronAPI.getStorageUsage(), window.electronAPI.getSettings()])
+      .then(([usage, settings]) => {
+        setUsage(usage)
+        setSettings(settings)
+      })
+      .catch(error => setError(describeError(error)))
+  }, [])
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    try {
+      await action()
+      setUsage(await window.electronAPI.getStorageUsage())
+      setError(null)
+    } catch (error) {
+      setError(describeError(error))
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  // An empty field removes the limit for that type
+  const commitLimit = (type: ItemType) => {
+    const draft = limitDrafts[type]
+    if (draft === undefined || !settings) return
+    setLimitDrafts(current => ({ ...current, [type]: undefined }))
+    const typeLimits = { ...settings.typeLimits }
+    if (draft.trim() === '') {
+      delete typeLimits[type]
+    } else {
+      typeLimits[type] = Number(draft)
+    }
+    void run(async () => {
+      setSettings(await window.electronAPI.updateSettings({ typeLimits }))
+    })
+  }
+
+  if (!usage || !settings) {
+    return <div className="preferences">{error ?? 'Loading...'}</div>
+  }
+
+  const totalBytes = usage.history.bytes + usage.pinned.bytes
+  const byteLimit = settings.maxHistoryMegabytes * 1024 * 1024
+
+  return (
+    <div className="preferences">
+      <div className="preferences-header">
+        <h2>Storage</h2>
+        <button className="collection-action" onClick={onClose}>Done</button>
+      </div>
+
+      {error && <div className="paste-feedback error">{error}</div>}
+
+      <div className="preferences-section">
+        <table className="storage-table">
+          <thead>
+            <tr>
+              <th>Type</th>
+              <th>Items</th>
+              <th>Size</th>
+              <th>Keep at most</th>
+            </tr>
+          </thead>
+          <tbody>
+            {TYPES.map(type => {
+              const totals = usage.byType[type.value]
+              return (
+                <tr key={type.value}>
+                  <td>{type.label}</td>
+                  <td>{totals.count}</td>
+                  <td>
+                    {formatBytes(totals.bytes)}
+                    <div className="storage-bar">
+                      <div style={{ width: `${totalBytes > 0 ? (totals.bytes / totalBytes) * 100 : 0}%` }} />
+                    </div>
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      className="preferences-input"
+                      aria-label={`Most ${type.label.toLowerCase()} items to keep`}
+                      min={1}
+                      placeholder="No limit"
+                      value={limitDrafts[type.value] ?? settings.typeLimits[type.value] ?? ''}
+                      onChange={(e) => setLimitDrafts(current => ({ ...current, [type.value]: e.target.value }))}
+                      onBlur={() => commitLimit(type.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitLimit(type.value)
+                      }}
+                    />
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+
+        <div className="preferences-row">
+          <span>History</span>
+          <span className="preferences-value">
+            {usage.history.count} of {settings.maxHistoryItems} items, {formatBytes(usage.history.bytes)}
+            {byteLimit > 0 && ` of ${formatBytes(byteLimit)}`}
+          </span>
+        </div>
+        <div className="preferences-row">
+          <span>Pinned (kept forever)</span>
+          <span className="preferences-value">{usage.pinned.count} items, {formatBytes(usage.pinned.bytes)}</span>
+        </div>
+        <div className="preferences-row">
+          <span>Payload files on disk</span>
+          <span className="preferences-value">{formatBytes(usage.diskBytes)}</span>
+        </div>
+
+        <div className="preferences-actions">
+          <button
+            className="collection-action"
+            disabled={isWorking}
+            onClick={() => run(async () => {
+              await window.electronAPI.compactHistory()
+            })}
+          >
+            Compact now
+          </button>
+        </div>
+        <p className="preferences-hint">
+          When the history is over a limit, the items used least recently are deleted first.
+          {settings.maxAgeDays > 0 && ` Items not used for ${settings.maxAgeDays} days are deleted too.`}
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default StoragePanel
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react'
+import { describeError } from '../utils/errors'
+
+type SyncCategory = Settings['syncExclude'][number]
+
+const CATEGORIES: { value: SyncCategory, label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'url', label: 'Links' },
+  { value: 'html', label: 'Formatted text' },
+  { value: 'rtf', label: 'Rich text' },
+  { value: 'files', label: 'Files' },
+  { value: 'image', label: 'Images' },
+  { value: 'sensitive', label: 'Detected secrets' }
+]
+
+interface SyncSettingsProps {
+  exclude: Settings['syncExclude']
+  onChange: (exclude: Settings['syncExclude']) => void
+}
+
+function SyncSettings({ exclude, onChange }: SyncSettingsProps) {
+  const [status, setStatus] = useState<SyncStatus | null>(null)
+  const [folder, setFolder] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    window.electronAPI.getSyncStatus().then(setStatus).catch(error => setError(describeError(error)))
+    return window.electronAPI.onSyncStatus(setStatus)
+  }, [])
+
+  const run = async (action: () => Promise<SyncStatus>) => {
+    setIsWorking(true)
+    try {
+      setStatus(await action())
+      setError(null)
+      setPassphrase('')
+    } catch (error) {
+      setError(describeError(error))
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const chooseFolder = async () => {
+    const chosen = await window.electronAPI.chooseSyncFolder()
+    if (chosen) setFolder(chosen)
+  }
+
+  if (!status) {
+    return null
+  }
+
+  const needsPassphrase = !status.enabled || status.locked
+  const syncFolder = status.folder ?? folder
+
+  return (
+    <div className="preferences-section">
+      <h3 className="preferences-subtitle">Sync</h3>
+      {error && <div className="paste-feedback error">{error}</div>}
+
+      <div className="preferences-row">
+        <span>Shared folder</span>
+        <span>
+          <span className="preferences-value">{syncFolder || 'None'}</span>
+          {!status.enabled && (
+            <button className="collection-action" disabled={isWorking} onClick={chooseFolder}>Choose…</button>
+          )}
+        </span>
+      </div>
+
+      {needsPassphrase && (
+        <label className="preferences-row">
+          <span>Sync passphrase</span>
+          <input
+            type="password"
+            className="preferences-input passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+        </label>
+      )}
+
+      <div className="preferences-actions">
+        {needsPassphrase && (
+          <button
+            className="collection-action"
+            disabled={isWorking || !syncFolder || !passphrase}
+            onClick={() => run(() => window.electronAPI.enableSync(syncFolder, passphrase))}
+          >
+            {status.locked ? 'Unlock sync' : 'Start syncing'}
+          </button>
+        )}
+        {status.enabled && !status.locked && (
+          <button className="collection-action" disabled={isWorking} onClick={() => run(window.electronAPI.syncNow)}>
+            Sync now
+          </button>
+        )}
+        {status.enabled && (
+          <button className="collection-action danger" disabled={isWorking} onClick={() => run(window.electronAPI.disableSync)}>
+            Stop syncing
+          </button>
+        )}
+      </div>
+
+      {status.error && <p className="preferences-hint">Sync failed: {status.error}</p>}
+      {status.lastSync && (
+        <p className="preferences-hint">
+          Last synced {new Date(status.lastSync).toLocaleTimeString()} with {status.devices} {status.devices === 1 ? 'device' : 'devices'}
+        </p>
+      )}
+      {!status.enabled && (
+        <p className="preferences-hint">
+          Pick a folder that a cloud drive or network share keeps in sync, and use the same passphrase on every machine.
+        </p>
+      )}
+
+      <span className="preferences-hint">Never sync</span>
+      {CATEGORIES.map(category => (
+        <label key={category.value} className="preferences-row">
+          <span>{category.label}</span>
+          <input
+            type="checkbox"
+            checked={exclude.includes(category.value)}
+            onChange={(e) => onChange(e.target.checked
+              ? [...exclude, category.value]
+              : exclude.filter(value => value !== category.value))}
+          />
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export default SyncSettings
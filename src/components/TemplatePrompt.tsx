@@ -0,0 +1,53 @@
+import { useState } from 'react'
+
+interface TemplatePromptProps {
+  item: ClipboardItem
+  labels: string[]
+  onSubmit: (inputs: Record<string, string>) => void
+  onClose: () => void
+}
+
+// Asks for the {{input:…}} values of a snippet before it is pasted
+function TemplatePrompt({ item, labels, onSubmit, onClose }: TemplatePromptProps) {
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  return (
+    <div className="transform-backdrop" onClick={onClose}>
+      <form
+        className="transform-menu palette template-prompt"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          // The prompt owns the keyboard while open
+          e.stopPropagation()
+          if (e.key === 'Escape') {
+            e.preventDefault()
+            onClose()
+          }
+        }}
+        onSubmit={(e) => {
+          e.preventDefault()
+          onSubmit(Object.fromEntries(labels.map(label => [label, values[label] ?? ''])))
+        }}
+      >
+        <div className="template-prompt-title">{item.title ?? 'Snippet'}</div>
+        {labels.map((label, index) => (
+          <label key={label} className="template-prompt-field">
+            <span>{label}</span>
+            <input
+              className="transform-filter"
+              value={values[label] ?? ''}
+              onChange={(e) => setValues(current => ({ ...current, [label]: e.target.value }))}
+              autoFocus={index === 0}
+            />
+          </label>
+        ))}
+        <div className="transform-save">
+          <button type="submit" className="collection-action">Paste <kbd>Enter</kbd></button>
+          <button type="button" className="collection-action" onClick={onClose}>Cancel</button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default TemplatePrompt
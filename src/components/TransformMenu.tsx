@@ -0,0 +1,86 @@
+import { useState } from 'react'
+
+interface TransformMenuProps {
+  transforms: TransformInfo[]
+  // Opens at the pointer for a right-click, or centred as a palette from the keyboard
+  position?: { x: number, y: number }
+  onSelect: (transformId: string, saveAsNew: boolean) => void
+  onClose: () => void
+}
+
+function TransformMenu({ transforms, position, onSelect, onClose }: TransformMenuProps) {
+  const [filter, setFilter] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [saveAsNew, setSaveAsNew] = useState(false)
+
+  const query = filter.trim().toLowerCase()
+  const matches = transforms.filter(transform =>
+    !query || transform.label.toLowerCase().includes(query) || transform.group?.toLowerCase().includes(query)
+  )
+  const active = Math.min(activeIndex, matches.length - 1)
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The palette owns the keyboard while open
+    e.stopPropagation()
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setActiveIndex(Math.min(matches.length - 1, active + 1))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex(Math.max(0, active - 1))
+        break
+      case 'Enter':
+        e.preventDefault()
+        if (matches[active]) onSelect(matches[active].id, saveAsNew || e.shiftKey)
+        break
+      case 'Escape':
+        e.preventDefault()
+        onClose()
+        break
+    }
+  }
+
+  return (
+    <div className="transform-backdrop" onClick={onClose} onContextMenu={(e) => { e.preventDefault(); onClose() }}>
+      <div
+        className={`transform-menu ${position ? '' : 'palette'}`}
+        style={position ? { left: position.x, top: position.y } : undefined}
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <input
+          className="transform-filter"
+          placeholder="Transform and paste…"
+          value={filter}
+          onChange={(e) => {
+            setFilter(e.target.value)
+            setActiveIndex(0)
+          }}
+          autoFocus
+        />
+        <div className="transform-list">
+          {matches.length === 0 && <div className="transform-empty">No matching transform</div>}
+          {matches.map((transform, index) => (
+            <div
+              key={transform.id}
+              className={`transform-option ${index === active ? 'active' : ''}`}
+              onMouseMove={() => setActiveIndex(index)}
+              onClick={() => onSelect(transform.id, saveAsNew)}
+            >
+              <span>{transform.label}</span>
+              {transform.group && <span className="transform-group">{transform.group}</span>}
+            </div>
+          ))}
+        </div>
+        <label className="transform-save">
+          <input type="checkbox" checked={saveAsNew} onChange={(e) => setSaveAsNew(e.target.checked)} />
+          Also save the result to history <kbd>Shift+Enter</kbd>
+        </label>
+      </div>
+    </div>
+  )
+}
+
+export default TransformMenu
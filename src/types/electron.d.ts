@@ -1,25 +1,306 @@
-interface ClipboardItem {
-  id: string
-  content: string
-  type: 'text' | 'image' | 'html'
-  timestamp: number
-  preview?: string
-}
-
-interface ElectronAPI {
-  getClipboardHistory: () => Promise<ClipboardItem[]>
-  copyToClipboard: (item: ClipboardItem) => Promise<void>
-  deleteClipboardItem: (id: string) => Promise<ClipboardItem[]>
-  clearClipboardHistory: () => Promise<ClipboardItem[]>
-  hideWindow: () => Promise<void>
-  getAutoPasteSetting: () => Promise<boolean>
-  setAutoPasteSetting: (enabled: boolean) => Promise<boolean>
-  onClipboardUpdated: (callback: (history: ClipboardItem[]) => void) => () => void
-  onPasteFeedback: (callback: (feedback: { success: boolean, message: string }) => void) => () => void
-}
+export {}
 
 declare global {
+  interface ClipboardItem {
+    id: string
+    content: string
+    type: 'text' | 'image' | 'html' | 'rtf' | 'url' | 'files'
+    timestamp: number
+    preview?: string
+    pinned?: boolean
+    collectionId?: string
+    contentHash?: string
+    blobId?: string
+    thumbnail?: string
+    size?: number
+    width?: number
+    height?: number
+    sourceApp?: string
+    sensitive?: string
+    expiresAt?: number
+    alternates?: Partial<Record<'text' | 'html' | 'rtf', string>>
+    title?: string
+    template?: boolean
+    lastUsedAt?: number
+    pasteCount?: number
+    metadata?: ItemMetadata
+    recognizedText?: string
+  }
+
+  type CodeLanguage = 'javascript' | 'python' | 'json' | 'shell' | 'sql' | 'css' | 'html'
+
+  interface TextStats {
+    chars: number
+    words: number
+    lines: number
+  }
+
+  interface ItemMetadata {
+    stats?: TextStats
+    language?: CodeLanguage
+    colors?: string[]
+  }
+
+  interface HighlightToken {
+    text: string
+    kind?: 'keyword' | 'string' | 'number' | 'comment' | 'tag' | 'attribute' | 'operator' | 'literal'
+  }
+
+  interface ItemDetail {
+    id: string
+    type: ClipboardItem['type']
+    lines?: HighlightToken[][]
+    truncated?: boolean
+    language?: CodeLanguage
+    sanitizedHtml?: string
+    image?: { dataUrl: string, width?: number, height?: number, bytes: number }
+    stats?: TextStats
+    colors?: string[]
+  }
+
+  interface Collection {
+    id: string
+    name: string
+    createdAt: number
+  }
+
+  interface PinnedState {
+    items: ClipboardItem[]
+    collections: Collection[]
+  }
+
+  interface SearchResult {
+    item: ClipboardItem
+    score: number
+    snippet: string
+    highlights: [number, number][]
+  }
+
+  interface TransformInfo {
+    id: string
+    label: string
+    group?: string
+  }
+
+  interface TransformOptions {
+    saveAsNew?: boolean
+  }
+
+  interface MergeOptions {
+    separator: 'newline' | 'comma' | 'space' | 'custom'
+    customSeparator?: string
+    format: 'plain' | 'markdown' | 'json'
+    saveAsNew?: boolean
+  }
+
+  interface CopyOptions {
+    plainText?: boolean
+    inputs?: Record<string, string>
+    paste?: boolean
+  }
+
+  interface PasteFeedback {
+    success: boolean
+    message: string
+    method?: string
+    error?: 'unavailable' | 'failed'
+  }
+
+  interface PasteCapability {
+    driver: string
+    available: boolean
+    message?: string
+  }
+
+  interface ScriptingStatus {
+    running: boolean
+    socketPath?: string
+    error?: string
+  }
+
+  interface HttpApiStatus {
+    running: boolean
+    port?: number
+    token?: string
+    error?: string
+  }
+
+  interface UsageTotals {
+    count: number
+    bytes: number
+  }
+
+  interface StorageUsage {
+    byType: Record<ClipboardItem['type'], UsageTotals>
+    history: UsageTotals
+    pinned: UsageTotals
+    diskBytes: number
+  }
+
+  interface SyncStatus {
+    enabled: boolean
+    folder?: string
+    locked?: boolean
+    devices?: number
+    lastSync?: number
+    error?: string
+  }
+
+  interface PasteStackState {
+    active: boolean
+    order: 'fifo' | 'lifo'
+    items: ClipboardItem[]
+  }
+
+  interface SnippetDraft {
+    id?: string
+    title: string
+    content: string
+    collectionId?: string
+  }
+
+  type ExportFormat = 'archive' | 'json' | 'csv'
+
+  interface ExportFilter {
+    types?: ClipboardItem['type'][]
+    since?: number
+    until?: number
+    pinned?: 'all' | 'only' | 'exclude'
+    includeSensitive?: boolean
+  }
+
+  interface ExportResult {
+    filePath: string
+    count: number
+  }
+
+  interface ImportPreview {
+    fileName: string
+    exportedAt: number
+    total: number
+    duplicates: number
+    added: Record<ClipboardItem['type'], number>
+    pinned: number
+    newCollections: string[]
+    samples: { type: ClipboardItem['type'], preview: string }[]
+  }
+
+  interface ImportResult {
+    added: number
+    duplicates: number
+  }
+
+  interface EncryptionStatus {
+    encrypted: boolean
+    keySource?: 'safeStorage' | 'passphrase'
+    locked: boolean
+    error?: { code: string, message: string }
+    safeStorageAvailable: boolean
+  }
+
+  interface AppRule {
+    app: string
+    action: 'ignore' | 'plainText' | 'expire'
+    expireMinutes?: number
+  }
+
+  interface Settings {
+    autoPaste: boolean
+    maxHistoryItems: number
+    pollInterval: number
+    globalShortcut: string
+    windowWidth: number
+    windowHeight: number
+    hideOnBlur: boolean
+    pasteDelay: number
+    activateDelay: number
+    sensitiveDetection: boolean
+    sensitiveAction: 'mask' | 'skip'
+    sensitiveTtlMinutes: number
+    sensitivePatterns: string[]
+    ignoreConcealed: boolean
+    appRules: AppRule[]
+    pasteStackShortcut: string
+    pasteStackOrder: 'fifo' | 'lifo'
+    launchAtLogin: boolean
+    capturePrimarySelection: boolean
+    windowPlacement: 'cursor' | 'center'
+    scriptingAccess: 'off' | 'read' | 'full'
+    httpApi: boolean
+    httpApiPort: number
+    httpApiOrigins: string[]
+    syncExclude: ('text' | 'html' | 'rtf' | 'url' | 'files' | 'image' | 'sensitive')[]
+    typeLimits: Partial<Record<ClipboardItem['type'], number>>
+    maxHistoryMegabytes: number
+    maxAgeDays: number
+    sortOrder: 'recent' | 'mostUsed' | 'frecency'
+    recognizeImageText: boolean
+  }
+
+  interface ElectronAPI {
+    platform: string
+    getClipboardHistory: () => Promise<ClipboardItem[]>
+    getItemContent: (id: string) => Promise<string>
+    getItemDetail: (id: string) => Promise<ItemDetail>
+    copyToClipboard: (item: ClipboardItem, options?: CopyOptions) => Promise<void>
+    copyRecognizedText: (id: string, options?: CopyOptions) => Promise<void>
+    getTemplateInputs: (id: string) => Promise<string[]>
+    saveSnippet: (draft: SnippetDraft) => Promise<PinnedState>
+    getPasteStack: () => Promise<PasteStackState>
+    startPasteStack: (ids: string[]) => Promise<PasteStackState>
+    stopPasteStack: () => Promise<PasteStackState>
+    listTransforms: () => Promise<TransformInfo[]>
+    transformAndCopy: (id: string, transformId: string, options?: TransformOptions) => Promise<void>
+    mergeAndCopy: (ids: string[], options: MergeOptions) => Promise<void>
+    deleteClipboardItem: (id: string) => Promise<ClipboardItem[]>
+    clearClipboardHistory: () => Promise<ClipboardItem[]>
+    searchHistory: (query: string) => Promise<SearchResult[]>
+    getPinnedItems: () => Promise<PinnedState>
+    pinClipboardItem: (id: string, collectionId?: string) => Promise<PinnedState>
+    unpinClipboardItem: (id: string) => Promise<PinnedState>
+    createCollection: (name: string) => Promise<Collection>
+    renameCollection: (collectionId: string, name: string) => Promise<PinnedState>
+    deleteCollection: (collectionId: string) => Promise<PinnedState>
+    moveItemToCollection: (id: string, collectionId: string | null) => Promise<PinnedState>
+    exportHistory: (format: ExportFormat, filter?: ExportFilter) => Promise<ExportResult | null>
+    previewImport: () => Promise<ImportPreview | null>
+    applyImport: () => Promise<ImportResult>
+    cancelImport: () => Promise<void>
+    getEncryptionStatus: () => Promise<EncryptionStatus>
+    unlockHistory: (passphrase: string) => Promise<EncryptionStatus>
+    lockHistory: () => Promise<EncryptionStatus>
+    enableEncryption: (keySource: 'safeStorage' | 'passphrase', passphrase?: string) => Promise<EncryptionStatus>
+    disableEncryption: (passphrase?: string) => Promise<EncryptionStatus>
+    resetEncryptedHistory: () => Promise<EncryptionStatus>
+    hideWindow: () => Promise<void>
+    getPasteCapability: () => Promise<PasteCapability>
+    getScriptingStatus: () => Promise<ScriptingStatus>
+    getHttpApiStatus: () => Promise<HttpApiStatus>
+    resetHttpApiToken: () => Promise<HttpApiStatus>
+    getSyncStatus: () => Promise<SyncStatus>
+    enableSync: (folder: string, passphrase: string) => Promise<SyncStatus>
+    disableSync: () => Promise<SyncStatus>
+    syncNow: () => Promise<SyncStatus>
+    chooseSyncFolder: () => Promise<string | null>
+    getStorageUsage: () => Promise<StorageUsage>
+    compactHistory: () => Promise<StorageUsage>
+    getAutoPasteSetting: () => Promise<boolean>
+    setAutoPasteSetting: (enabled: boolean) => Promise<boolean>
+    getSettings: () => Promise<Settings>
+    updateSettings: (patch: Partial<Settings>) => Promise<Settings>
+    onClipboardUpdated: (callback: (history: ClipboardItem[]) => void) => () => void
+    onPinnedUpdated: (callback: (state: PinnedState) => void) => () => void
+    onSettingsUpdated: (callback: (settings: Settings) => void) => () => void
+    onImportPreview: (callback: (preview: ImportPreview) => void) => () => void
+    onEncryptionStatusUpdated: (callback: (status: EncryptionStatus) => void) => () => void
+    onPasteStackUpdated: (callback: (state: PasteStackState) => void) => () => void
+    onScriptingStatus: (callback: (status: ScriptingStatus) => void) => () => void
+    onHttpApiStatus: (callback: (status: HttpApiStatus) => void) => () => void
+    onSyncStatus: (callback: (status: SyncStatus) => void) => () => void
+    onPasteFeedback: (callback: (feedback: PasteFeedback) => void) => () => void
+  }
+
   interface Window {
     electronAPI: ElectronAPI
   }
-}
\ No newline at end of file
+}
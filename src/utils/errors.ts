@@ -0,0 +1,3 @@
+// IPC errors arrive as "Error invoking remote method 'x': SettingsError: ..."; keep only the reason
+export const describeError = (error: unknown) =>
+  String(error instanceof Error ? error.message : error).replace(/^Error invoking remote method '[^']+': (\w*Error: )?/, '')
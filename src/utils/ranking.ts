@@ -0,0 +1,38 @@
+export type SortOrder = Settings['sortOrder']
+
+export const SORT_ORDERS: { value: SortOrder, label: string }[] = [
+  { value: 'recent', label: 'Recent' },
+  { value: 'mostUsed', label: 'Most used' },
+  { value: 'frecency', label: 'Frequent and recent' }
+]
+
+// A use counts half as much after a week without the item being used again
+const HALF_LIFE = 7 * 24 * 60 * 60 * 1000
+
+const lastUsed = (item: ClipboardItem) => Math.max(item.timestamp, item.lastUsedAt ?? 0)
+
+// Every paste adds to the score, and the whole score fades with the time since the last use.
+// Capturing the item counts as one use, so new items are not buried under old favourites.
+const frecency = (item: ClipboardItem, now: number) => {
+  return (1 + (item.pasteCount ?? 0)) * 0.5 ** ((now - lastUsed(item)) / HALF_LIFE)
+}
+
+// How much an item has been used, by the measure the order ranks on
+const usage = (item: ClipboardItem, order: SortOrder, now: number) => {
+  return order === 'mostUsed' ? item.pasteCount ?? 0 : frecency(item, now)
+}
+
+export function rankItems(items: ClipboardItem[], order: SortOrder, now = Date.now()): ClipboardItem[] {
+  if (order === 'recent') {
+    return [...items].sort((a, b) => b.timestamp - a.timestamp)
+  }
+  return [...items].sort((a, b) => usage(b, order, now) - usage(a, order, now) || lastUsed(b) - lastUsed(a))
+}
+
+// Search results arrive best match first, newest first among equal matches, which is what
+// 'recent' shows. The usage orders put the most used matches first, the better match first
+// among equally used ones.
+export function rankResults(results: SearchResult[], order: SortOrder, now = Date.now()): SearchResult[] {
+  if (order === 'recent') return results
+  return [...results].sort((a, b) => usage(b.item, order, now) - usage(a.item, order, now) || b.score - a.score)
+}
@@ -13,7 +13,8 @@ export default defineConfig({
           build: {
             outDir: 'dist-electron',
             rollupOptions: {
-              external: ['electron']
+              // tesseract.js finds its worker script and engine next to its own files
+              external: ['electron', 'tesseract.js']
             }
           },
           define: {
@@ -21,6 +22,21 @@ export default defineConfig({
           }
         }
       },
+      {
+        // The `clip` command line tool, which runs under Node rather than inside the app
+        entry: 'electron/clip.ts',
+        onstart() {},
+        vite: {
+          build: {
+            outDir: 'dist-electron',
+            rollupOptions: {
+              output: {
+                banner: '#!/usr/bin/env node'
+              }
+            }
+          }
+        }
+      },
       {
         entry: 'electron/preload.ts',
         onstart(options) {
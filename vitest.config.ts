@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts so tests do not start the Electron plugin
+export default defineConfig({
+  test: {
+    include: ['electron/**/*.test.ts', 'src/**/*.test.{ts,tsx}'],
+    environment: 'node'
+  }
+})